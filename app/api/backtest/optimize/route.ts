@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  MAX_OPTIMIZATION_RUNS,
+  countGridCombinations,
+  runOptimization,
+  type OptimizationRankBy,
+  type ParameterSpace,
+} from "@/lib/signal-optimizer";
+import { listSignalStrategies } from "@/lib/signal-strategies";
+import { PAIRS, TIMEFRAMES } from "@/lib/websocket-candle-builder";
+
+// Function to validate API key
+const validateApiKey = (request: NextRequest) => {
+  const authHeader = request.headers.get("authorization");
+  if (!authHeader || !authHeader.startsWith("Bearer ")) {
+    return false;
+  }
+  const apiKey = authHeader.substring(7); // Remove 'Bearer ' from header
+  const validApiKey = process.env.SIGNAL_GENERATOR_API_KEY;
+  return apiKey === validApiKey;
+};
+
+const RANK_BY: OptimizationRankBy[] = ["expectancy", "profitFactor", "drawdown"];
+
+/**
+ * POST endpoint for parameter optimization sweeps over stored OHLC data
+ *
+ * Expects a JSON body:
+ * - pair, timeframe: Market to optimize (default BTCUSDT 1h)
+ * - start, end: Date range in ISO format or milliseconds (default: last 90 days)
+ * - space: Values per parameter, either a list or { min, max, step }
+ *   (swingStrength, majorThreshold, reqThreshold, entryRetracement, stopRetracement,
+ *   longEntryOffset, shortEntryOffset, riskRewardRatio, seasonalitySignificance)
+ * - parameters: Fixed settings the sweep starts from (e.g. { "entryModel": "offset" })
+ * - method: "grid" (default) or "random"
+ * - iterations: Combinations to sample for random search (default 50)
+ * - outOfSampleRatio: Share of the range kept for validation (default 0.3)
+ * - rankBy: "expectancy" (default), "profitFactor" or "drawdown"
+ * - minTrades, topN, strategies: Optional tuning of the ranking
+ */
+export async function POST(request: NextRequest) {
+  // Authenticate the request
+  if (!validateApiKey(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const pair = body.pair || "BTCUSDT";
+    const timeframe = body.timeframe || "1h";
+    const method = body.method || "grid";
+    const rankBy = body.rankBy || "expectancy";
+    const space: ParameterSpace = body.space || {};
+
+    if (!PAIRS.includes(pair)) {
+      return NextResponse.json({ error: `Invalid pair: ${pair}`, validPairs: PAIRS }, { status: 400 });
+    }
+
+    if (!TIMEFRAMES.includes(timeframe)) {
+      return NextResponse.json({ error: `Invalid timeframe: ${timeframe}`, validTimeframes: TIMEFRAMES }, { status: 400 });
+    }
+
+    if (method !== "grid" && method !== "random") {
+      return NextResponse.json({ error: `Invalid method: ${method}` }, { status: 400 });
+    }
+
+    if (!RANK_BY.includes(rankBy)) {
+      return NextResponse.json({ error: `Invalid rankBy: ${rankBy}`, validRankBy: RANK_BY }, { status: 400 });
+    }
+
+    if (body.strategies != null && !Array.isArray(body.strategies)) {
+      return NextResponse.json({ error: "strategies must be a list of strategy names" }, { status: 400 });
+    }
+
+    const validStrategies = listSignalStrategies();
+    const unknownStrategies = (body.strategies || []).filter((name: string) => !validStrategies.includes(name));
+    if (unknownStrategies.length > 0) {
+      return NextResponse.json({
+        error: `Unknown strategies: ${unknownStrategies.join(", ")}`,
+        validStrategies
+      }, { status: 400 });
+    }
+
+    if (method === "grid" && countGridCombinations(space) > MAX_OPTIMIZATION_RUNS) {
+      return NextResponse.json({
+        error: `Too many parameter combinations (max ${MAX_OPTIMIZATION_RUNS}), narrow the space or use random search`
+      }, { status: 400 });
+    }
+
+    // Convert timestamps to numbers
+    const parseTime = (value: string | number) =>
+      typeof value === "string" && value.includes("-") ? new Date(value).getTime() : Number(value);
+    const endTime = body.end ? parseTime(body.end) : Date.now();
+    const startTime = body.start ? parseTime(body.start) : endTime - 90 * 24 * 60 * 60 * 1000;
+
+    if (isNaN(startTime) || isNaN(endTime) || startTime >= endTime) {
+      return NextResponse.json({ error: "Invalid date range" }, { status: 400 });
+    }
+
+    const result = await runOptimization({
+      pair,
+      timeframe,
+      startTime,
+      endTime,
+      space,
+      baseParameters: body.parameters,
+      method,
+      iterations: body.iterations,
+      outOfSampleRatio: body.outOfSampleRatio,
+      rankBy,
+      minTrades: body.minTrades,
+      topN: body.topN,
+      strategies: body.strategies
+    });
+
+    return NextResponse.json({
+      success: true,
+      ...result
+    });
+  } catch (error) {
+    console.error("Error running optimization:", error);
+    return NextResponse.json({
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : "Unknown error"
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runBacktest } from "@/lib/signal-backtester";
+import { listSignalStrategies } from "@/lib/signal-strategies";
+import { PAIRS, TIMEFRAMES } from "@/lib/websocket-candle-builder";
+
+// Function to validate API key
+const validateApiKey = (request: NextRequest) => {
+  const authHeader = request.headers.get("authorization");
+  if (!authHeader || !authHeader.startsWith("Bearer ")) {
+    return false;
+  }
+  const apiKey = authHeader.substring(7); // Remove 'Bearer ' from header
+  const validApiKey = process.env.SIGNAL_GENERATOR_API_KEY;
+  return apiKey === validApiKey;
+};
+
+/**
+ * GET endpoint for backtesting signal strategies over stored OHLC data
+ *
+ * Accepts query parameters:
+ * - pair: Trading pair (e.g., BTCUSDT)
+ * - timeframe: Candle timeframe (e.g., 5m, 15m, 1h)
+ * - start: Start timestamp in ISO format or milliseconds (default: 30 days ago)
+ * - end: End timestamp in ISO format or milliseconds (default: now)
+ * - strategies: Comma separated strategy names (default: all registered)
+ * - overlap: Set to "true" to allow overlapping trades from the same strategy
+ */
+export async function GET(request: NextRequest) {
+  // Authenticate the request
+  if (!validateApiKey(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const pair = searchParams.get("pair") || "BTCUSDT";
+    const timeframe = searchParams.get("timeframe") || "1h";
+    const start = searchParams.get("start");
+    const end = searchParams.get("end");
+    const strategiesParam = searchParams.get("strategies");
+    const allowOverlap = searchParams.get("overlap") === "true";
+
+    if (!PAIRS.includes(pair)) {
+      return NextResponse.json({
+        error: `Invalid pair: ${pair}`,
+        validPairs: PAIRS
+      }, { status: 400 });
+    }
+
+    if (!TIMEFRAMES.includes(timeframe)) {
+      return NextResponse.json({
+        error: `Invalid timeframe: ${timeframe}`,
+        validTimeframes: TIMEFRAMES
+      }, { status: 400 });
+    }
+
+    const strategies = strategiesParam
+      ? strategiesParam.split(",").map((name) => name.trim()).filter(Boolean)
+      : undefined;
+    const validStrategies = listSignalStrategies();
+    const unknownStrategies = (strategies || []).filter((name) => !validStrategies.includes(name));
+
+    if (unknownStrategies.length > 0) {
+      return NextResponse.json({
+        error: `Unknown strategies: ${unknownStrategies.join(", ")}`,
+        validStrategies
+      }, { status: 400 });
+    }
+
+    // Convert timestamps to numbers
+    const endTime = end
+      ? (end.includes("-") ? new Date(end).getTime() : parseInt(end))
+      : Date.now();
+    const startTime = start
+      ? (start.includes("-") ? new Date(start).getTime() : parseInt(start))
+      : endTime - 30 * 24 * 60 * 60 * 1000;
+
+    if (isNaN(startTime) || isNaN(endTime) || startTime >= endTime) {
+      return NextResponse.json({ error: "Invalid date range" }, { status: 400 });
+    }
+
+    const result = await runBacktest({
+      pair,
+      timeframe,
+      startTime,
+      endTime,
+      strategies,
+      allowOverlap
+    });
+
+    return NextResponse.json({
+      success: true,
+      ...result
+    });
+  } catch (error) {
+    console.error("Error running backtest:", error);
+    return NextResponse.json({
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : "Unknown error"
+    }, { status: 500 });
+  }
+}
@@ -10,21 +10,25 @@ export async function GET(request: Request) {
   try {
     const url = new URL(request.url)
     const action = url.searchParams.get("action")
+    const pair = url.searchParams.get("pair") || undefined
 
     if (action === "invalidate") {
-      // Invalidate all seasonality caches
-      await invalidateSeasonalityCache()
-      return NextResponse.json({ success: true, message: "Seasonality cache invalidated" })
+      // Invalidate all seasonality caches (or only the requested pair)
+      await invalidateSeasonalityCache(pair)
+      return NextResponse.json({
+        success: true,
+        message: pair ? `Seasonality cache invalidated for ${pair}` : "Seasonality cache invalidated",
+      })
     }
 
     // Warm up the cache by pre-calculating values
-    const averages = await getMonthlyAverages()
-    const probabilities = await getMonthlyPositiveProb()
+    const averages = await getMonthlyAverages(pair)
+    const probabilities = await getMonthlyPositiveProb(pair)
 
     // Warm up monthly stats for all months
     const monthlyStats = []
     for (let month = 0; month < 12; month++) {
-      const stats = await getMonthlyStats(month)
+      const stats = await getMonthlyStats(month, pair)
       monthlyStats.push(stats)
     }
 
@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server"
+import { type NextRequest } from "next/server"
+import { refreshMonthlyReturns } from "@/lib/monthly-returns-service"
+import { PAIRS } from "@/lib/websocket-candle-builder"
+
+// Function to validate API key
+const validateApiKey = (request: NextRequest) => {
+  const authHeader = request.headers.get("authorization")
+  if (!authHeader || !authHeader.startsWith("Bearer ")) {
+    return false
+  }
+  const apiKey = authHeader.substring(7) // Remove 'Bearer ' from header
+  const validApiKey = process.env.SIGNAL_GENERATOR_API_KEY
+  return apiKey === validApiKey
+}
+
+/**
+ * Cron endpoint that rebuilds the monthly_returns table from candle history.
+ * Safe to call daily: seasonality caches are only invalidated once a month closes.
+ *
+ * Accepts query parameters:
+ * - pair: Only refresh this pair (default: all pairs)
+ * - force: Set to "true" to invalidate the caches even if no month closed
+ */
+export async function GET(request: NextRequest) {
+  // Authenticate the request
+  if (!validateApiKey(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const { searchParams } = new URL(request.url)
+    const pair = searchParams.get("pair")
+    const force = searchParams.get("force") === "true"
+
+    if (pair && !PAIRS.includes(pair)) {
+      return NextResponse.json({ error: `Invalid pair: ${pair}`, validPairs: PAIRS }, { status: 400 })
+    }
+
+    const startTime = Date.now()
+    const { results, invalidated } = await refreshMonthlyReturns(pair ? [pair] : PAIRS, force)
+
+    return NextResponse.json({
+      success: results.every((result) => !result.error),
+      invalidated,
+      results,
+      executionTime: `${Date.now() - startTime}ms`,
+    })
+  } catch (error) {
+    console.error("Error refreshing monthly returns:", error)
+    return NextResponse.json(
+      {
+        error: "Internal server error",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { buildCalibrationReports, CALIBRATION_COLUMNS, type CalibrationRow } from "@/lib/signal-calibration";
+import { fetchCompletedSignalRows, parseSignalHistoryFilters } from "@/lib/signal-history-query";
+
+/**
+ * GET endpoint for the calibration of positive_probability against realized win rates
+ *
+ * Accepts query parameters:
+ * - basis: "net" (default) or "gross" P/L deciding what counts as a win
+ * - pair, timeframe, signalType: Same filters as the signal history
+ * - dateFrom, dateTo: Exit time range in ISO format
+ *
+ * Returns a report for all signals followed by one per strategy version.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const basis = searchParams.get("basis") === "gross" ? "gross" : "net";
+
+    const rows = await fetchCompletedSignalRows<CalibrationRow>(
+      CALIBRATION_COLUMNS,
+      parseSignalHistoryFilters(searchParams)
+    );
+
+    return NextResponse.json({
+      success: true,
+      basis,
+      reports: buildCalibrationReports(rows, basis)
+    });
+  } catch (error) {
+    console.error("Error building calibration report:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
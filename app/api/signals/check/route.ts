@@ -2,7 +2,10 @@ import { NextResponse } from "next/server"
 import { type NextRequest } from "next/server"
 import * as signalGeneratorService from "@/lib/signal-generator-service"
 import { supabase } from "@/lib/supabase-client"
-import { fetchBinanceTicker } from "@/lib/binance-api"
+import { fetchBinanceTicker, type CandleData } from "@/lib/binance-api"
+import { checkPairSignalsForCron, getCandleLoadStartTime } from "@/lib/signal-checker-service"
+import { loadSettlementCandles, type SameCandlePolicy } from "@/lib/signal-settlement"
+import { getTimeframeMs } from "@/lib/websocket-candle-builder"
 
 // Function to validate API key
 const validateApiKey = (request: NextRequest) => {
@@ -30,6 +33,7 @@ export async function GET(request: NextRequest) {
     const batchOffset = parseInt(searchParams.get("batchOffset") || "0", 10)
     const mode = searchParams.get("mode") || "normal" // 'normal' or 'count-only'
     const debugMode = searchParams.get("debug") === "true" // Enable detailed debugging
+    const policyParam = searchParams.get("policy") // Same-candle policy: 'pessimistic' or 'drilldown'
     
     // Validate timeframe if provided
     if (timeframe) {
@@ -39,6 +43,11 @@ export async function GET(request: NextRequest) {
       }
     }
     
+    if (policyParam && policyParam !== "pessimistic" && policyParam !== "drilldown") {
+      return NextResponse.json({ error: "Invalid policy. Must be one of: pessimistic, drilldown" }, { status: 400 })
+    }
+    const policy = (policyParam || undefined) as SameCandlePolicy | undefined
+    
     // Check if Supabase client is available
     if (!supabase) {
       return NextResponse.json({ error: "Supabase client not available" }, { status: 500 })
@@ -107,6 +116,8 @@ export async function GET(request: NextRequest) {
       updated: 0,
       completed: 0,
       expired: 0,
+      invalidated: 0,
+      conflicts: 0,
       errors: 0,
       hasMore: false,
       nextBatchOffset: 0
@@ -186,14 +197,49 @@ export async function GET(request: NextRequest) {
           continue
         }
         
-        // Process each signal for this pair
-        const updates: any[] = []
-        const pairDebugInfo = debugMode ? [] : undefined
-        
-        for (const signal of signals) {
+        // Load the candles formed since the oldest check or structure lookback, once per timeframe
+        const candlesByTimeframe: Record<string, CandleData[]> = {}
+        for (const signalTimeframe of new Set(signals.map((signal) => signal.timeframe as string))) {
+          const timeframeMs = getTimeframeMs(signalTimeframe)
+          const since = Math.min(
+            ...signals
+              .filter((signal) => signal.timeframe === signalTimeframe)
+              .map((signal) => getCandleLoadStartTime(signal, timeframeMs))
+          )
           try {
-            // Debug information for this signal
-            const signalDebug = debugMode ? {
+            candlesByTimeframe[signalTimeframe] = await loadSettlementCandles(
+              signalPair,
+              signalTimeframe,
+              Math.floor(since / timeframeMs) * timeframeMs,
+              Date.now()
+            )
+          } catch (candleError) {
+            console.error(`Error loading ${signalTimeframe} candles for ${signalPair}:`, candleError)
+            candlesByTimeframe[signalTimeframe] = []
+          }
+        }
+        
+        // Settle and write every signal of the pair
+        const checks = await checkPairSignalsForCron(signals, currentPrice, { candlesByTimeframe, policy })
+        
+        for (const check of checks) {
+          if (check.write === "updated") {
+            results.updated++
+            if (check.outcome) results[check.outcome]++
+          } else if (check.write === "conflict") {
+            results.conflicts++
+          } else if (check.write === "error") {
+            results.errors++
+          }
+        }
+        
+        // Add pair debug info to overall debug info
+        if (debugMode) {
+          debugInfo?.push({
+            pair: signalPair,
+            current_price: currentPrice,
+            signals_count: signals.length,
+            signals: signals.map((signal, index) => ({
               signal_id: signal.signal_id,
               signal_type: signal.signal_type,
               entry_price: signal.entry_price,
@@ -207,216 +253,14 @@ export async function GET(request: NextRequest) {
               long_entry_condition: signal.signal_type === "long" && currentPrice <= signal.entry_price,
               short_entry_condition: signal.signal_type === "short" && currentPrice >= signal.entry_price,
               price_diff_percent: ((currentPrice - signal.entry_price) / signal.entry_price * 100).toFixed(2) + '%',
-              action: "none" // Will be updated if any action is taken
-            } : undefined
-            
-            // Check if signal has already been activated (entry hit)
-            let entryHit = signal.entry_hit || false // Ensure boolean value
-            let entryHitTime = signal.entry_hit_time
-            let status = signal.status
-            let isCompleted = false
-            let exitType: string | null = null
-            let exitPrice: number | null = null
-            let exitTime: Date | null = null
-            let updateNeeded = false
-            
-            // First check if entry price has been hit (if not already) - only for 'waiting' status
-            if (!entryHit && status === "waiting") {
-              if (signal.signal_type === "long") {
-                // For long positions - price must drop to or below entry price
-                if (currentPrice <= signal.entry_price) {
-                  entryHit = true
-                  entryHitTime = new Date().toISOString()
-                  status = "active" // Change status from "waiting" to "active"
-                  updateNeeded = true
-                  if (signalDebug) signalDebug.action = "entry_hit_long"
-                  console.log(`Entry hit for ${signalPair} ${signal.timeframe} LONG signal at ${currentPrice} - status changed to active`)
-                }
-              } else {
-                // For short positions - price must rise to or above entry price
-                if (currentPrice >= signal.entry_price) {
-                  entryHit = true
-                  entryHitTime = new Date().toISOString()
-                  status = "active" // Change status from "waiting" to "active"
-                  updateNeeded = true
-                  if (signalDebug) signalDebug.action = "entry_hit_short"
-                  console.log(`Entry hit for ${signalPair} ${signal.timeframe} SHORT signal at ${currentPrice} - status changed to active`)
-                }
-              }
-            }
-            
-            // If signal is active (entry price has been hit), check TP/SL
-            if (entryHit || status === "active") {
-              if (signal.signal_type === "long") {
-                // For long positions - TP above entry, SL below entry
-                if (currentPrice >= signal.take_profit) {
-                  isCompleted = true
-                  exitType = "tp"
-                  exitPrice = signal.take_profit
-                  exitTime = new Date()
-                  status = "completed"
-                  updateNeeded = true
-                  if (signalDebug) signalDebug.action = "tp_hit_long"
-                  console.log(`Take profit hit for ${signalPair} ${signal.timeframe} LONG signal at ${currentPrice}`)
-                } else if (currentPrice <= signal.stop_loss) {
-                  isCompleted = true
-                  exitType = "sl"
-                  exitPrice = signal.stop_loss
-                  exitTime = new Date()
-                  status = "completed"
-                  updateNeeded = true
-                  if (signalDebug) signalDebug.action = "sl_hit_long"
-                  console.log(`Stop loss hit for ${signalPair} ${signal.timeframe} LONG signal at ${currentPrice}`)
-                }
-              } else {
-                // For short positions - TP below entry, SL above entry
-                if (currentPrice <= signal.take_profit) {
-                  isCompleted = true
-                  exitType = "tp"
-                  exitPrice = signal.take_profit
-                  exitTime = new Date()
-                  status = "completed"
-                  updateNeeded = true
-                  if (signalDebug) signalDebug.action = "tp_hit_short"
-                  console.log(`Take profit hit for ${signalPair} ${signal.timeframe} SHORT signal at ${currentPrice}`)
-                } else if (currentPrice >= signal.stop_loss) {
-                  isCompleted = true
-                  exitType = "sl"
-                  exitPrice = signal.stop_loss
-                  exitTime = new Date()
-                  status = "completed"
-                  updateNeeded = true
-                  if (signalDebug) signalDebug.action = "sl_hit_short"
-                  console.log(`Stop loss hit for ${signalPair} ${signal.timeframe} SHORT signal at ${currentPrice}`)
-                }
-              }
-            }
-            
-            // Check signal expiration (if older than 7 days and not activated - still in waiting status)
-            const signalAge = Date.now() - new Date(signal.created_at).getTime()
-            const maxSignalAge = 7 * 24 * 60 * 60 * 1000; // 7 days in milliseconds
-            
-            if (status === "waiting" && signalAge > maxSignalAge) {
-              isCompleted = true
-              exitType = "expired"
-              exitPrice = currentPrice
-              exitTime = new Date()
-              status = "expired"
-              updateNeeded = true
-              if (signalDebug) signalDebug.action = "expired"
-              console.log(`Signal expired for ${signalPair} ${signal.timeframe} ${signal.signal_type} signal`)
-            }
-            
-            // Add to debug info if in debug mode
-            if (debugMode && signalDebug) {
-              signalDebug.update_needed = updateNeeded
-              signalDebug.age_days = (signalAge / (24 * 60 * 60 * 1000)).toFixed(1)
-              pairDebugInfo?.push(signalDebug)
-            }
-            
-            // If updates are needed, prepare the update data
-            if (updateNeeded) {
-              const updateData: any = {
-                entry_hit: entryHit,
-                status,
-                updated_at: new Date().toISOString()
-              }
-              
-              if (entryHit && !signal.entry_hit) {
-                updateData.entry_hit_time = entryHitTime
-              }
-              
-              if (isCompleted) {
-                updateData.exit_type = exitType
-                updateData.exit_price = exitPrice
-                updateData.exit_time = exitTime?.toISOString()
-                
-                // Calculate P&L
-                let profitLoss = 0
-                
-                if (signal.signal_type === "long") {
-                  profitLoss = exitPrice! - signal.entry_price
-                } else {
-                  profitLoss = signal.entry_price - exitPrice!
-                }
-                
-                updateData.profit_loss = profitLoss
-                updateData.profit_loss_percent = (profitLoss / signal.entry_price) * 100
-              }
-              
-              // Add to batch updates
-              updates.push({
-                id: signal.id,
-                signal_id: signal.signal_id,
-                updateData
-              })
-              
-              if (isCompleted) {
-                if (exitType === "expired") {
-                  results.expired++
-                } else {
-                  results.completed++
-                }
-              }
-              
-              results.updated++
-            }
-          } catch (signalError) {
-            console.error(`Error processing signal ${signal.signal_id}:`, signalError)
-            results.errors++
-            
-            if (debugMode) {
-              pairDebugInfo?.push({
-                signal_id: signal.signal_id,
-                error: signalError.message
-              })
-            }
-          }
-        }
-        
-        // Add pair debug info to overall debug info
-        if (debugMode && pairDebugInfo) {
-          debugInfo?.push({
-            pair: signalPair,
-            current_price: currentPrice,
-            signals_count: signals.length,
-            signals: pairDebugInfo
+              action: checks[index].action,
+              resolution_method: checks[index].resolutionMethod,
+              update_needed: checks[index].action !== "none",
+              age_days: ((Date.now() - new Date(signal.created_at).getTime()) / (24 * 60 * 60 * 1000)).toFixed(1),
+              update_error: checks[index].error ?? undefined
+            }))
           })
         }
-        
-        // Perform batch updates if any
-        if (updates.length > 0) {
-          for (const update of updates) {
-            try {
-              const { error: updateError } = await supabase
-                .from("generated_signals")
-                .update(update.updateData)
-                .eq("signal_id", update.signal_id)
-              
-              if (updateError) {
-                console.error(`Error updating signal ${update.signal_id}:`, updateError)
-                results.errors++
-                results.updated--
-                
-                if (debugMode) {
-                  // Find and update the debug info for this signal
-                  for (const pairInfo of debugInfo || []) {
-                    if (!pairInfo.signals) continue
-                    
-                    const signalDebug = pairInfo.signals.find((s: any) => s.signal_id === update.signal_id)
-                    if (signalDebug) {
-                      signalDebug.update_error = updateError.message
-                    }
-                  }
-                }
-              }
-            } catch (updateError) {
-              console.error(`Error updating signal:`, updateError)
-              results.errors++
-              results.updated--
-            }
-          }
-        }
       } catch (pairError) {
         console.error(`Error processing signals for ${signalPair}:`, pairError)
         results.errors += signalsByPair[signalPair].length
@@ -9,8 +9,9 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: "Supabase client not available" }, { status: 500 })
     }
 
-    const { error } = await supabase.from("completed_signals").insert({
-      signal_id: crypto.randomUUID(),
+    // Keyed by the signal's own ID, so a repeated request doesn't store it twice
+    const { error } = await supabase.from("completed_signals").upsert({
+      signal_id: signal.id || crypto.randomUUID(),
       signal_type: signal.type,
       entry_price: signal.entry,
       stop_loss: signal.stopLoss,
@@ -23,10 +24,15 @@ export async function POST(request: Request) {
       timeframe: signal.timeframe,
       profit_loss: signal.profitLoss,
       profit_loss_percent: signal.profitLossPercent,
+      net_profit_loss: signal.netProfitLoss ?? null,
+      net_profit_loss_percent: signal.netProfitLossPercent ?? null,
+      fee_cost: signal.costs?.fees ?? null,
+      slippage_cost: signal.costs?.slippage ?? null,
+      funding_cost: signal.costs?.funding ?? null,
       risk_reward_ratio: signal.riskRewardRatio,
       signal_source: signal.source,
       notes: signal.notes || null,
-    })
+    }, { onConflict: "signal_id", ignoreDuplicates: true })
 
     if (error) {
       console.error("Error saving completed signal:", error)
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createSignalExportStream, EXPORT_DATE_COLUMNS, EXPORT_FORMATS, type ExportFormat } from "@/lib/signal-export";
+import { iterateSignalRows, parseSignalHistoryFilters, type SignalTable } from "@/lib/signal-history-query";
+
+const EXPORT_TABLES: Record<string, SignalTable> = {
+  completed: "completed_signals",
+  generated: "generated_signals",
+};
+
+/**
+ * GET endpoint streaming the signal history as a file download
+ *
+ * Accepts query parameters:
+ * - format: "csv" (default), "json" or "ndjson"
+ * - table: "completed" (default, completed_signals) or "generated" (generated_signals, every status)
+ * - pair, timeframe, signalType: Same filters as the signal history
+ * - dateFrom, dateTo: Range in ISO format, on the exit time of completed signals
+ *   and the creation time of generated signals
+ *
+ * Every format has the columns of SIGNAL_EXPORT_COLUMNS, including R multiples.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const format = searchParams.get("format") || "csv";
+    const tableParam = searchParams.get("table") || "completed";
+
+    // Own keys only, inherited names such as "toString" are not formats or tables
+    if (!Object.prototype.hasOwnProperty.call(EXPORT_FORMATS, format)) {
+      return NextResponse.json({
+        error: `Invalid format: ${format}`,
+        validFormats: Object.keys(EXPORT_FORMATS)
+      }, { status: 400 });
+    }
+
+    const table = Object.prototype.hasOwnProperty.call(EXPORT_TABLES, tableParam) ? EXPORT_TABLES[tableParam] : null;
+    if (!table) {
+      return NextResponse.json({
+        error: `Invalid table: ${tableParam}`,
+        validTables: Object.keys(EXPORT_TABLES)
+      }, { status: 400 });
+    }
+
+    const pages = iterateSignalRows<any>(table, "*", parseSignalHistoryFilters(searchParams), {
+      dateColumn: EXPORT_DATE_COLUMNS[table]
+    });
+    // Read the first page before responding, so a failing query still returns an error status
+    const firstPage = await pages.next();
+
+    const exportFormat = format as ExportFormat;
+    const filename = `signals-${tableParam}-${new Date().toISOString().slice(0, 10)}.${exportFormat}`;
+
+    return new Response(createSignalExportStream(pages, table, exportFormat, firstPage), {
+      headers: {
+        "Content-Type": EXPORT_FORMATS[exportFormat].contentType,
+        "Content-Disposition": `attachment; filename="${filename}"`,
+        "Cache-Control": "no-store"
+      }
+    });
+  } catch (error) {
+    console.error("Error exporting signals:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -1,7 +1,11 @@
 import { NextResponse } from "next/server";
 import { type NextRequest } from "next/server";
 import { supabase } from "@/lib/supabase-client";
-import { calculateMonthlyPositiveProb, historicalMonthlyReturns } from "@/lib/seasonality-data";
+import { calculateMonthlyPositiveProb } from "@/lib/seasonality-data";
+import { recordSignalEvents, type SignalEvent } from "@/lib/signal-events";
+import { getPairMonthlyReturns } from "@/lib/seasonality-cache";
+import { getCurrentSeasonality } from "@/lib/signal-generator-service";
+import { applySignalUpdate } from "@/lib/signal-checker-service";
 
 // Fixed API endpoint for manually updating signals
 export async function GET(request: NextRequest) {
@@ -23,76 +27,69 @@ export async function GET(request: NextRequest) {
         // Get current month (0-indexed)
         const currentMonth = new Date().getMonth();
         
-        // Get probability from seasonality_temp first
-        let probability, seasonality;
-        
-        const { data: tempData, error: tempError } = await supabase
-          .from("seasonality_temp")
-          .select("probability")
-          .eq("month", currentMonth)
-          .single();
+        const { data: signals, error: signalsError } = await supabase
+          .from("generated_signals")
+          .select("signal_id, pair, status, version")
+          .eq("status", "active");
           
-        if (!tempError && tempData) {
-          // Use value from database
-          probability = parseFloat(tempData.probability);
-          console.log(`Using seasonality from database: ${probability}%`);
-        } else {
-          // Calculate from seasonality-data.ts
-          console.log(`Seasonality not found in database, calculating from historical data...`);
-          const monthData = historicalMonthlyReturns[currentMonth as keyof typeof historicalMonthlyReturns];
+        if (signalsError) {
+          throw new Error(signalsError.message);
+        }
+        
+        // Every pair has its own seasonality, computed the same way the generator does
+        const signalsByPair: Record<string, any[]> = {};
+        for (const signal of signals || []) {
+          if (!signalsByPair[signal.pair]) signalsByPair[signal.pair] = [];
+          signalsByPair[signal.pair].push(signal);
+        }
+        
+        const pairs: Record<string, { seasonality: string; probability: number; source: string }> = {};
+        const events: SignalEvent[] = [];
+        let updated = 0;
+        let skipped = 0;
+        let failed = 0;
+        
+        for (const [pair, pairSignals] of Object.entries(signalsByPair)) {
+          const { source, returns } = await getPairMonthlyReturns(pair);
+          const { seasonality, probability } = getCurrentSeasonality(returns);
+          pairs[pair] = { seasonality, probability, source };
           
-          if (monthData) {
-            const returns = Object.values(monthData);
-            const positiveCount = returns.filter((ret) => ret > 0).length;
-            probability = (positiveCount / returns.length) * 100;
-            console.log(`Calculated seasonality from historical data: ${probability}%`);
+          const updatedAt = new Date().toISOString();
+          for (const signal of pairSignals) {
+            const { applied, error } = await applySignalUpdate(signal, {
+              seasonality,
+              positive_probability: probability,
+              updated_at: updatedAt
+            });
             
-            // Insert or update the seasonality_temp table
-            const { error } = await supabase
-              .from("seasonality_temp")
-              .upsert({
-                month: currentMonth,
-                probability,
-                created_at: new Date().toISOString()
-              });
-              
             if (error) {
-              console.error(`Error updating seasonality_temp:`, error);
+              console.error(`Error updating seasonality of signal ${signal.signal_id}:`, error);
+              failed++;
+            } else if (!applied) {
+              skipped++;
             } else {
-              console.log(`Updated seasonality_temp for month ${currentMonth}`);
+              updated++;
+              events.push({
+                signal_id: signal.signal_id,
+                event_type: "updated",
+                from_status: signal.status,
+                to_status: signal.status,
+                trigger_price: null,
+                source: "fix",
+                payload: { seasonality, positive_probability: probability },
+                occurred_at: updatedAt
+              });
             }
-          } else {
-            // Default if no data is available
-            probability = 50;
-            console.log(`No historical data found, using default probability: ${probability}%`);
           }
         }
         
-        // Determine seasonality type based on probability
-        if (probability >= 60) {
-          seasonality = "bullish";
-        } else if (probability <= 40) {
-          seasonality = "bearish";
-        } else {
-          seasonality = "neutral";
-        }
-        
-        // Update all active signals with the seasonality values
-        const { data, error } = await supabase
-          .from("generated_signals")
-          .update({
-            seasonality,
-            positive_probability: probability,
-            updated_at: new Date().toISOString()
-          })
-          .eq("status", "active");
+        await recordSignalEvents(events);
           
         results.actions.push({
           name: "seasonality",
-          success: !error,
-          message: error ? error.message : `Updated seasonality to ${seasonality} (${probability}%)`,
-          probability,
-          seasonality,
+          success: failed === 0,
+          message: `Updated seasonality of ${updated} signals across ${Object.keys(pairs).length} pairs, ${skipped} changed meanwhile, ${failed} failures`,
+          pairs,
           month: currentMonth
         });
       } catch (error) {
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { generateSignalsForTimeframe } from '@/lib/signal-generator-service';
 import { supabase } from '@/lib/supabase-client';
 import { getMonthlyPositiveProb } from '@/lib/seasonality-cache';
+import { listSignalStrategies } from '@/lib/signal-strategies';
 
 // Symbols we'll process by default
 const SYMBOLS = ['BTC', 'ETH', 'SOL', 'BNB', 'XRP', 'DOGE', 'ADA', 'AVAX', 'DOT', 'MATIC', 'LINK', 'LTC'];
@@ -72,6 +73,12 @@ export async function GET(request: NextRequest) {
     const searchParams = request.nextUrl.searchParams;
     const timeframe = searchParams.get('timeframe') || '30m';
     const symbol = searchParams.get('symbol');
+    const strategiesParam = searchParams.get('strategies');
+    const strategyNames = strategiesParam
+      ? strategiesParam.split(',').map((name) => name.trim()).filter(Boolean)
+      : undefined;
+    // Let hour/weekday/week-of-month seasonality pick the direction in neutral months
+    const useIntradayBias = searchParams.get('intradayBias') === 'true';
     
     // Validate timeframe
     if (!['5m', '15m', '30m', '1h', '4h', '1d'].includes(timeframe)) {
@@ -81,10 +88,20 @@ export async function GET(request: NextRequest) {
       }, { status: 400 });
     }
     
+    // Validate requested strategies
+    const validStrategies = listSignalStrategies();
+    const unknownStrategies = (strategyNames || []).filter((name) => !validStrategies.includes(name));
+    if (unknownStrategies.length > 0) {
+      return NextResponse.json({ 
+        error: `Unknown strategies: ${unknownStrategies.join(', ')}`,
+        validStrategies
+      }, { status: 400 });
+    }
+    
     console.log(`Generating signals for ${timeframe}, symbols: ${symbol || SYMBOLS.join(', ')}`);
     
     // Call the service function that handles database operations
-    const results = await generateSignalsForTimeframe(timeframe, symbol);
+    const results = await generateSignalsForTimeframe(timeframe, symbol || undefined, undefined, strategyNames, { useIntradayBias });
     
     // Calculate execution time for monitoring
     const executionTime = Date.now() - startTime;
@@ -115,6 +132,7 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({
       timeframe,
       symbols: symbol ? [symbol] : SYMBOLS,
+      strategies: strategyNames || validStrategies,
       signalsCount: results.length,
       executionTime,
       signals, // This is required by the EC2 client
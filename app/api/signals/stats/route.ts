@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  BREAKDOWN_COLUMNS,
+  BREAKDOWN_DIMENSIONS,
+  buildBreakdown,
+  isBreakdownDimension,
+  type BreakdownRow,
+} from "@/lib/signal-breakdown";
+import { fetchCompletedSignalRows, parseSignalHistoryFilters } from "@/lib/signal-history-query";
+
+/**
+ * GET endpoint for the performance of completed signals grouped by their columns
+ *
+ * Accepts query parameters:
+ * - groupBy: Comma separated dimensions (pair, timeframe, signal_type, seasonality,
+ *   signal_source, entry_hour, entry_weekday), default: pair
+ * - basis: "net" (default) or "gross" P/L
+ * - pair, timeframe, signalType: Same filters as the signal history
+ * - dateFrom, dateTo: Exit time range in ISO format
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const groupBy = (searchParams.get("groupBy") || "pair").split(",").map((name) => name.trim()).filter(Boolean);
+    const basis = searchParams.get("basis") === "gross" ? "gross" : "net";
+
+    const unknownDimensions = groupBy.filter((name) => !isBreakdownDimension(name));
+    if (groupBy.length === 0 || unknownDimensions.length > 0) {
+      return NextResponse.json({
+        error: `Unknown dimensions: ${unknownDimensions.join(", ")}`,
+        validDimensions: Object.keys(BREAKDOWN_DIMENSIONS)
+      }, { status: 400 });
+    }
+
+    const rows = await fetchCompletedSignalRows<BreakdownRow>(
+      BREAKDOWN_COLUMNS,
+      parseSignalHistoryFilters(searchParams)
+    );
+
+    return NextResponse.json({
+      success: true,
+      groupBy,
+      basis,
+      totalSignals: rows.length,
+      cells: buildBreakdown(rows, groupBy.filter(isBreakdownDimension), basis)
+    });
+  } catch (error) {
+    console.error("Error building signal breakdown:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
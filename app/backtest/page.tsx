@@ -0,0 +1,20 @@
+import { BacktestResults } from "@/components/backtest-results"
+import { HeaderNav } from "@/components/header-nav"
+import { Footer } from "@/components/footer"
+
+export const metadata = {
+  title: "Strategy Backtest | Trade Fib Signals",
+  description: "Backtest the signal strategies over historical candle data",
+}
+
+export default function BacktestPage() {
+  return (
+    <div className="min-h-screen bg-[#1a1f2e]">
+      <HeaderNav />
+      <div className="container mx-auto px-4 py-6">
+        <BacktestResults />
+      </div>
+      <Footer />
+    </div>
+  )
+}
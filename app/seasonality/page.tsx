@@ -1,5 +1,4 @@
-import { SeasonalityHeatmap } from "@/components/seasonality-heatmap"
-import { MonthlySeasonalityDetail } from "@/components/monthly-seasonality-detail"
+import { SeasonalityAnalysis } from "@/components/seasonality-analysis"
 import { Button } from "@/components/ui/button"
 import Link from "next/link"
 import { ArrowLeft } from "lucide-react"
@@ -18,25 +17,10 @@ export default function SeasonalityPage() {
                 Back to Dashboard
               </Button>
             </Link>
-            <h1 className="text-2xl font-bold">Bitcoin Seasonality Analysis</h1>
+            <h1 className="text-2xl font-bold">Crypto Seasonality Analysis</h1>
           </div>
 
-          <div className="grid gap-6">
-            {/* Current month detail */}
-            <div className="bg-[#1e2538] rounded-lg p-6">
-              <h2 className="text-xl font-bold mb-4">Current Month Performance</h2>
-              <MonthlySeasonalityDetail />
-            </div>
-
-            {/* Heatmap for all months */}
-            <div className="bg-[#1e2538] rounded-lg p-6">
-              <h2 className="text-xl font-bold mb-4">Annual Seasonality Heatmap</h2>
-              <p className="text-sm text-muted-foreground mb-4">
-                Click on any month to view detailed historical performance
-              </p>
-              <SeasonalityHeatmap />
-            </div>
-          </div>
+          <SeasonalityAnalysis />
         </div>
       </div>
     </div>
@@ -0,0 +1,264 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { ArrowDown, ArrowLeft, ArrowUp, Play } from "lucide-react"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { DatePicker } from "@/components/ui/date-picker"
+import Link from "next/link"
+import type { BacktestResult, BacktestTrade } from "@/lib/signal-backtester"
+
+const PAIRS = ["BTCUSDT", "ETHUSDT", "XRPUSDT", "BNBUSDT", "SOLUSDT", "DOGEUSDT", "ADAUSDT", "LINKUSDT"]
+const TIMEFRAMES = ["5m", "15m", "30m", "1h"]
+
+const TRADE_STATUS_LABELS: Record<BacktestTrade["status"], string> = {
+  tp: "Take Profit",
+  sl: "Stop Loss",
+  trailing_sl: "Trailing Stop",
+  time_stop: "Time Stop",
+  expired: "Expired",
+  open: "Open",
+}
+
+export function BacktestResults() {
+  const [pair, setPair] = useState("BTCUSDT")
+  const [timeframe, setTimeframe] = useState("1h")
+  const [dateFrom, setDateFrom] = useState<Date | undefined>(undefined)
+  const [dateTo, setDateTo] = useState<Date | undefined>(undefined)
+  const [result, setResult] = useState<BacktestResult | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Run the backtest through the API
+  const runBacktest = async () => {
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const params = new URLSearchParams({ pair, timeframe })
+      if (dateFrom) params.append("start", dateFrom.toISOString())
+      if (dateTo) params.append("end", dateTo.toISOString())
+
+      const response = await fetch(`/api/backtest?${params.toString()}`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || `Backtest failed: ${response.status}`)
+      }
+
+      setResult(data)
+    } catch (err) {
+      console.error("Error running backtest:", err)
+      setError(err instanceof Error ? err.message : "Unknown error")
+      setResult(null)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  // Format price with appropriate precision
+  const formatPrice = (price: number) => {
+    if (price >= 1000) {
+      return price.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+    } else if (price >= 1) {
+      return price.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 4 })
+    } else {
+      return price.toLocaleString(undefined, { minimumFractionDigits: 4, maximumFractionDigits: 6 })
+    }
+  }
+
+  // Format percentage
+  const formatPercent = (value: number) => {
+    return `${value.toFixed(2)}%`
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-2">
+        <Link href="/signals/history">
+          <Button variant="outline" size="sm">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to History
+          </Button>
+        </Link>
+        <h1 className="text-2xl font-bold">Strategy Backtest</h1>
+      </div>
+
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base">Settings</CardTitle>
+          <CardDescription>Replays the signal generator bar by bar over stored candles</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+            <div>
+              <label className="text-sm font-medium mb-1 block">Pair</label>
+              <Select value={pair} onValueChange={setPair}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PAIRS.map((p) => (
+                    <SelectItem key={p} value={p}>
+                      {p}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <label className="text-sm font-medium mb-1 block">Timeframe</label>
+              <Select value={timeframe} onValueChange={setTimeframe}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TIMEFRAMES.map((tf) => (
+                    <SelectItem key={tf} value={tf}>
+                      {tf}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <label className="text-sm font-medium mb-1 block">Date Range</label>
+              <div className="flex gap-2">
+                <DatePicker date={dateFrom} setDate={setDateFrom} placeholder="From" />
+                <DatePicker date={dateTo} setDate={setDateTo} placeholder="To" />
+              </div>
+            </div>
+
+            <Button onClick={runBacktest} disabled={isLoading}>
+              <Play className="mr-2 h-4 w-4" />
+              {isLoading ? "Running..." : "Run Backtest"}
+            </Button>
+          </div>
+          {error && <p className="mt-3 text-sm text-destructive">{error}</p>}
+          {result?.warnings.map((warning) => (
+            <p key={warning} className="mt-3 text-sm text-yellow-500">
+              {warning}
+            </p>
+          ))}
+        </CardContent>
+      </Card>
+
+      {result && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="bg-[#121826] p-3 rounded-lg">
+              <div className="text-xs text-muted-foreground">Closed Trades</div>
+              <div className="text-xl font-bold">{result.stats.totalSignals - result.stats.expiredSignals}</div>
+              <div className="text-xs text-muted-foreground">
+                {result.stats.expiredSignals} expired, {result.stats.timeStopExits} time stops ·{" "}
+                {result.candlesProcessed} candles processed
+              </div>
+            </div>
+            <div className="bg-[#121826] p-3 rounded-lg">
+              <div className="text-xs text-muted-foreground">Win Rate</div>
+              <div className="text-xl font-bold">{formatPercent(result.stats.winRate)}</div>
+              <div className="text-xs text-muted-foreground">
+                {result.stats.winningSignals} W / {result.stats.losingSignals} L
+              </div>
+            </div>
+            <div className="bg-[#121826] p-3 rounded-lg">
+              <div className="text-xs text-muted-foreground">Profit Factor</div>
+              <div className="text-xl font-bold">
+                {result.stats.profitFactor === null || result.stats.profitFactor === Number.POSITIVE_INFINITY
+                  ? "∞"
+                  : result.stats.profitFactor.toFixed(2)}
+              </div>
+            </div>
+            <div className="bg-[#121826] p-3 rounded-lg">
+              <div className="text-xs text-muted-foreground">Expectancy</div>
+              <div
+                className={`text-xl font-bold ${result.stats.expectancy > 0 ? "text-success" : "text-destructive"}`}
+              >
+                {result.stats.expectancy > 0 ? "+" : ""}
+                {result.stats.expectancy.toFixed(2)}%
+              </div>
+            </div>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Trades</CardTitle>
+              <CardDescription>
+                {result.trades.length} signals generated ({result.strategies.join(", ")})
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {result.trades.length > 0 ? (
+                <div className="max-h-[600px] overflow-y-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Signal</TableHead>
+                        <TableHead>Created</TableHead>
+                        <TableHead>Entry</TableHead>
+                        <TableHead>Stop / Target</TableHead>
+                        <TableHead>Exit</TableHead>
+                        <TableHead>Outcome</TableHead>
+                        <TableHead className="text-right">R</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {result.trades.map((trade) => (
+                        <TableRow key={trade.signal.signal_id}>
+                          <TableCell>
+                            {trade.signal.signal_type === "long" ? (
+                              <Badge variant="outline" className="bg-success/10 text-success">
+                                <ArrowUp className="mr-1 h-3 w-3" /> LONG
+                              </Badge>
+                            ) : (
+                              <Badge variant="outline" className="bg-destructive/10 text-destructive">
+                                <ArrowDown className="mr-1 h-3 w-3" /> SHORT
+                              </Badge>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-xs">{new Date(trade.createdAt).toLocaleString()}</TableCell>
+                          <TableCell>${formatPrice(trade.signal.entry_price)}</TableCell>
+                          <TableCell className="text-xs">
+                            <span className="text-destructive">${formatPrice(trade.signal.stop_loss)}</span>
+                            {" / "}
+                            <span className="text-success">${formatPrice(trade.signal.take_profit)}</span>
+                          </TableCell>
+                          <TableCell className="text-xs">
+                            {trade.exitPrice !== null ? `$${formatPrice(trade.exitPrice)}` : "-"}
+                            {trade.exitTime !== null && (
+                              <div className="text-muted-foreground">{new Date(trade.exitTime).toLocaleString()}</div>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <Badge
+                              variant={trade.status === "sl" ? "destructive" : trade.status === "tp" ? "outline" : "secondary"}
+                              className={trade.status === "tp" ? "bg-success/10 text-success" : undefined}
+                            >
+                              {TRADE_STATUS_LABELS[trade.status]}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {trade.rMultiple !== null ? trade.rMultiple.toFixed(2) : "-"}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              ) : (
+                <div className="text-center py-8">
+                  <p className="text-muted-foreground">No signals were generated in this period</p>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  )
+}
@@ -9,6 +9,7 @@ import { Slider } from "@/components/ui/slider"
 import { Badge } from "@/components/ui/badge"
 import { AlertCircle, Calculator } from "lucide-react"
 import { Alert, AlertDescription } from "@/components/ui/alert"
+import { buildFibLevels, type FibLevel } from "@/lib/fibonacci-entries"
 
 export function CalculatorContent() {
   const searchParams = useSearchParams()
@@ -30,6 +31,8 @@ export function CalculatorContent() {
   const [liquidationPrice, setLiquidationPrice] = useState<number | null>(null)
   const [signalInfo, setSignalInfo] = useState<string | null>(null)
   const [initialParamsLoaded, setInitialParamsLoaded] = useState<boolean>(false)
+  const [signalFibLevels, setSignalFibLevels] = useState<FibLevel[]>([])
+  const [signalEntryRetracement, setSignalEntryRetracement] = useState<number | null>(null)
 
   // Parse URL parameters on component mount
   useEffect(() => {
@@ -44,6 +47,9 @@ export function CalculatorContent() {
       const timeframe = searchParams.get("timeframe")
       const riskRewardParam = searchParams.get("riskReward")
       const leverageParam = searchParams.get("leverage")
+      const major = searchParams.get("major")
+      const peak = searchParams.get("peak")
+      const fib = searchParams.get("fib")
 
       // Set entry price
       if (entry && !isNaN(Number(entry))) {
@@ -76,6 +82,17 @@ export function CalculatorContent() {
         setSignalInfo(signalText)
       }
 
+      // Rebuild the Fibonacci levels the signal was placed on
+      if (major && peak && !isNaN(Number(major)) && !isNaN(Number(peak))) {
+        const signalType =
+          type === "short" || type === "sell" || (!type && Number(tp) < Number(entry)) ? "short" : "long"
+        setSignalFibLevels(buildFibLevels(signalType, Number(major), Number(peak)))
+
+        if (fib && !isNaN(Number(fib))) {
+          setSignalEntryRetracement(Number(fib))
+        }
+      }
+
       // Mark initial parameters as loaded to prevent overriding user changes
       setInitialParamsLoaded(true)
     }
@@ -178,6 +195,28 @@ export function CalculatorContent() {
         </Alert>
       )}
 
+      {signalFibLevels.length > 0 && (
+        <Card className="mb-6 bg-[#1a1a1a] border-[#333]">
+          <CardContent className="p-6">
+            <h2 className="text-xl font-bold mb-4">Signal Levels</h2>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-sm">
+              {signalFibLevels.map((level) => {
+                const isEntry = signalEntryRetracement === level.level
+                return (
+                  <div
+                    key={level.level}
+                    className={`p-2 rounded ${isEntry ? "bg-primary/20 font-medium" : "bg-[#121212]"}`}
+                  >
+                    <div className="text-xs text-gray-400">{level.level}%</div>
+                    <div>${level.price.toFixed(2)}</div>
+                  </div>
+                )
+              })}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       <div className="space-y-6">
         <div>
           <Label htmlFor="entryPrice">Entry ($)</Label>
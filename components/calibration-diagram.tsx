@@ -0,0 +1,177 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { CartesianGrid, ReferenceLine, ResponsiveContainer, Scatter, ScatterChart, Tooltip, XAxis, YAxis, ZAxis } from "recharts"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ALL_STRATEGIES_GROUP, type CalibrationReport } from "@/lib/signal-calibration"
+import type { PnlBasis } from "@/lib/signals-service"
+
+interface CalibrationDiagramProps {
+  pnlBasis: PnlBasis
+  // Filters of the signal history
+  pair?: string
+  timeframe?: string
+  signalType?: string
+  dateFrom?: Date
+  dateTo?: Date
+}
+
+export function CalibrationDiagram({ pnlBasis, pair, timeframe, signalType, dateFrom, dateTo }: CalibrationDiagramProps) {
+  const [reports, setReports] = useState<CalibrationReport[]>([])
+  const [group, setGroup] = useState(ALL_STRATEGIES_GROUP)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    async function loadCalibration() {
+      setIsLoading(true)
+      setError(null)
+
+      try {
+        const params = new URLSearchParams({ basis: pnlBasis })
+        if (pair) params.append("pair", pair)
+        if (timeframe) params.append("timeframe", timeframe)
+        if (signalType) params.append("signalType", signalType)
+        if (dateFrom) params.append("dateFrom", dateFrom.toISOString())
+        if (dateTo) params.append("dateTo", dateTo.toISOString())
+
+        const response = await fetch(`/api/signals/calibration?${params.toString()}`)
+        const data = await response.json()
+
+        if (!response.ok) {
+          throw new Error(data.error || `Calibration failed: ${response.status}`)
+        }
+
+        if (!cancelled) setReports(data.reports)
+      } catch (err) {
+        console.error("Error loading calibration:", err)
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : "Unknown error")
+          setReports([])
+        }
+      } finally {
+        if (!cancelled) setIsLoading(false)
+      }
+    }
+
+    loadCalibration()
+    return () => {
+      cancelled = true
+    }
+  }, [pnlBasis, pair, timeframe, signalType, dateFrom, dateTo])
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <div className="animate-spin h-8 w-8 border-4 border-primary border-t-transparent rounded-full"></div>
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="text-center py-8">
+        <p className="text-destructive">{error}</p>
+      </div>
+    )
+  }
+
+  const report = reports.find((candidate) => candidate.group === group) ?? reports[0]
+
+  if (!report || report.count === 0) {
+    return (
+      <div className="text-center py-8">
+        <p className="text-muted-foreground">No completed signals with a stored probability yet</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="text-xs text-muted-foreground">
+          Predicted win probability is positive_probability for longs and its complement for shorts
+        </div>
+        <Select value={report.group} onValueChange={setGroup}>
+          <SelectTrigger className="w-[220px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {reports.map((candidate) => (
+              <SelectItem key={candidate.group} value={candidate.group}>
+                {candidate.group} ({candidate.count})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="h-[280px]">
+        <ResponsiveContainer width="100%" height="100%">
+          <ScatterChart margin={{ top: 8, right: 8, bottom: 16, left: 0 }}>
+            <CartesianGrid stroke="#374151" strokeDasharray="3 3" />
+            <XAxis
+              type="number"
+              dataKey="predicted"
+              name="Predicted"
+              unit="%"
+              domain={[0, 100]}
+              stroke="#6b7280"
+              tick={{ fill: "#6b7280", fontSize: 12 }}
+              label={{ value: "Predicted", position: "insideBottom", offset: -8, fill: "#6b7280", fontSize: 12 }}
+            />
+            <YAxis
+              type="number"
+              dataKey="realized"
+              name="Realized"
+              unit="%"
+              domain={[0, 100]}
+              stroke="#6b7280"
+              tick={{ fill: "#6b7280", fontSize: 12 }}
+            />
+            <ZAxis type="number" dataKey="count" name="Signals" range={[40, 400]} />
+            {/* Perfectly calibrated predictions lie on the diagonal */}
+            <ReferenceLine
+              segment={[
+                { x: 0, y: 0 },
+                { x: 100, y: 100 },
+              ]}
+              stroke="#6b7280"
+              strokeDasharray="4 4"
+            />
+            <Tooltip
+              cursor={{ strokeDasharray: "3 3" }}
+              formatter={(value: number, name: string) => (name === "Signals" ? value : `${value.toFixed(1)}%`)}
+              contentStyle={{ backgroundColor: "#121826", border: "1px solid #374151" }}
+            />
+            <Scatter name="Buckets" data={report.buckets} fill="#3b82f6" line={{ stroke: "#3b82f6" }} />
+          </ScatterChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        <div className="bg-[#121826] p-3 rounded-lg">
+          <div className="text-xs text-muted-foreground">Brier Score</div>
+          <div
+            className={`text-xl font-bold ${report.brierScore < report.referenceBrierScore ? "text-success" : "text-destructive"}`}
+          >
+            {report.brierScore.toFixed(3)}
+          </div>
+          <div className="text-xs text-muted-foreground">lower is better</div>
+        </div>
+        <div className="bg-[#121826] p-3 rounded-lg">
+          <div className="text-xs text-muted-foreground">Base Rate Brier</div>
+          <div className="text-xl font-bold">{report.referenceBrierScore.toFixed(3)}</div>
+          <div className="text-xs text-muted-foreground">always predicting {report.baseRate.toFixed(1)}%</div>
+        </div>
+        <div className="bg-[#121826] p-3 rounded-lg">
+          <div className="text-xs text-muted-foreground">Signals</div>
+          <div className="text-xl font-bold">{report.count}</div>
+          <div className="text-xs text-muted-foreground">in {report.buckets.length} buckets</div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,134 @@
+"use client"
+
+import { useState } from "react"
+import { Area, CartesianGrid, ComposedChart, Line, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts"
+import { Button } from "@/components/ui/button"
+import type { EquityMetrics } from "@/lib/equity-curve"
+
+interface EquityCurveChartProps {
+  metrics: EquityMetrics
+}
+
+type CurveMode = "fractional" | "fixedR"
+
+// Function to format a drawdown duration in days, or hours below a day
+function formatDuration(ms: number) {
+  const hours = ms / (60 * 60 * 1000)
+  return hours >= 24 ? `${(hours / 24).toFixed(1)} days` : `${hours.toFixed(1)} h`
+}
+
+// Function to format a ratio that is infinite without losses
+function formatRatio(value: number) {
+  return value === Number.POSITIVE_INFINITY ? "∞" : value.toFixed(2)
+}
+
+export function EquityCurveChart({ metrics }: EquityCurveChartProps) {
+  const [mode, setMode] = useState<CurveMode>("fractional")
+
+  if (metrics.equityCurve.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <p className="text-muted-foreground">No filled signals to build an equity curve from</p>
+      </div>
+    )
+  }
+
+  const unit = mode === "fractional" ? "%" : "R"
+  const total = mode === "fractional" ? metrics.totalReturnPercent : metrics.totalR
+  const data = metrics.equityCurve.map((point) => ({
+    time: point.time,
+    equity: mode === "fractional" ? point.equityPercent : point.equityR,
+    // Drawn below zero, under the curve
+    drawdown: -(mode === "fractional" ? point.drawdownPercent : point.drawdownR),
+  }))
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="text-xs text-muted-foreground">
+          {mode === "fractional"
+            ? `Compounded at ${metrics.riskPercent}% of equity risked per trade`
+            : "Sum of R multiples, the same risk on every trade"}
+        </div>
+        <div className="flex rounded-md border border-border p-0.5">
+          <Button
+            variant={mode === "fractional" ? "secondary" : "ghost"}
+            size="sm"
+            className="h-7"
+            onClick={() => setMode("fractional")}
+          >
+            Fixed-fractional
+          </Button>
+          <Button
+            variant={mode === "fixedR" ? "secondary" : "ghost"}
+            size="sm"
+            className="h-7"
+            onClick={() => setMode("fixedR")}
+          >
+            Fixed-R
+          </Button>
+        </div>
+      </div>
+
+      <div className="h-[280px]">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={data} margin={{ top: 8, right: 8, bottom: 0, left: 0 }}>
+            <CartesianGrid stroke="#374151" strokeDasharray="3 3" />
+            <XAxis
+              type="number"
+              dataKey="time"
+              domain={["dataMin", "dataMax"]}
+              scale="time"
+              stroke="#6b7280"
+              tick={{ fill: "#6b7280", fontSize: 12 }}
+              tickFormatter={(time: number) => new Date(time).toLocaleDateString()}
+            />
+            <YAxis unit={unit} stroke="#6b7280" tick={{ fill: "#6b7280", fontSize: 12 }} />
+            <ReferenceLine y={0} stroke="#6b7280" />
+            <Tooltip
+              labelFormatter={(time: number) => new Date(time).toLocaleString()}
+              formatter={(value: number, name: string) => [`${value.toFixed(2)}${unit}`, name]}
+              contentStyle={{ backgroundColor: "#121826", border: "1px solid #374151" }}
+            />
+            <Area type="stepAfter" dataKey="drawdown" name="Drawdown" stroke="#ef4444" fill="#ef4444" fillOpacity={0.2} />
+            <Line type="stepAfter" dataKey="equity" name="Equity" stroke="#10b981" dot={false} strokeWidth={2} />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="bg-[#121826] p-3 rounded-lg">
+          <div className="text-xs text-muted-foreground">Return</div>
+          <div className={`text-xl font-bold ${total > 0 ? "text-success" : "text-destructive"}`}>
+            {total > 0 ? "+" : ""}
+            {total.toFixed(2)}
+            {unit}
+          </div>
+        </div>
+        <div className="bg-[#121826] p-3 rounded-lg">
+          <div className="text-xs text-muted-foreground">Max Drawdown</div>
+          <div className="text-xl font-bold text-destructive">
+            {mode === "fractional" ? `${metrics.maxDrawdownPercent.toFixed(2)}%` : `${metrics.maxDrawdownR.toFixed(2)}R`}
+          </div>
+          <div className="text-xs text-muted-foreground">
+            longest {formatDuration(metrics.maxDrawdownDurationMs)}
+          </div>
+        </div>
+        <div className="bg-[#121826] p-3 rounded-lg">
+          <div className="text-xs text-muted-foreground">Sharpe / Sortino</div>
+          <div className="text-xl font-bold">
+            {formatRatio(metrics.sharpeRatio)} / {formatRatio(metrics.sortinoRatio)}
+          </div>
+          <div className="text-xs text-muted-foreground">annualized, daily returns</div>
+        </div>
+        <div className="bg-[#121826] p-3 rounded-lg">
+          <div className="text-xs text-muted-foreground">Recovery Factor</div>
+          <div className="text-xl font-bold">{formatRatio(metrics.recoveryFactor)}</div>
+          <div className="text-xs text-muted-foreground">
+            streaks {metrics.longestWinStreak}W / {metrics.longestLossStreak}L
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
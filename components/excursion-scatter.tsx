@@ -0,0 +1,129 @@
+"use client"
+
+import { CartesianGrid, ReferenceLine, ResponsiveContainer, Scatter, ScatterChart, Tooltip, XAxis, YAxis, ZAxis } from "recharts"
+import { getSignalPnl, type PnlBasis, type TradingSignal } from "@/lib/signals-service"
+import { median } from "@/lib/seasonality-statistics"
+
+interface ExcursionScatterProps {
+  signals: TradingSignal[]
+  pnlBasis: PnlBasis
+}
+
+interface ExcursionPoint {
+  excursion: number
+  outcome: number
+  pair: string
+}
+
+// Function to build the points of one excursion, split into winners and losers
+function buildPoints(signals: TradingSignal[], pnlBasis: PnlBasis, key: "maeR" | "mfeR") {
+  const winners: ExcursionPoint[] = []
+  const losers: ExcursionPoint[] = []
+
+  for (const signal of signals) {
+    const excursion = signal[key]
+    const risk = Math.abs(signal.entry - signal.stopLoss)
+    const { profitLoss } = getSignalPnl(signal, pnlBasis)
+    if (excursion === undefined || risk <= 0 || profitLoss === undefined) continue
+
+    const point = { excursion, outcome: profitLoss / risk, pair: signal.pair }
+    if (profitLoss > 0) {
+      winners.push(point)
+    } else {
+      losers.push(point)
+    }
+  }
+
+  return { winners, losers }
+}
+
+function ExcursionChart({
+  title,
+  axisLabel,
+  winners,
+  losers,
+}: {
+  title: string
+  axisLabel: string
+  winners: ExcursionPoint[]
+  losers: ExcursionPoint[]
+}) {
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-medium">{title}</h3>
+      <div className="h-[240px]">
+        <ResponsiveContainer width="100%" height="100%">
+          <ScatterChart margin={{ top: 8, right: 8, bottom: 16, left: 0 }}>
+            <CartesianGrid stroke="#374151" strokeDasharray="3 3" />
+            <XAxis
+              type="number"
+              dataKey="excursion"
+              name={axisLabel}
+              unit="R"
+              stroke="#6b7280"
+              tick={{ fill: "#6b7280", fontSize: 12 }}
+              label={{ value: axisLabel, position: "insideBottom", offset: -8, fill: "#6b7280", fontSize: 12 }}
+            />
+            <YAxis
+              type="number"
+              dataKey="outcome"
+              name="Outcome"
+              unit="R"
+              stroke="#6b7280"
+              tick={{ fill: "#6b7280", fontSize: 12 }}
+            />
+            <ZAxis range={[30, 30]} />
+            <ReferenceLine y={0} stroke="#6b7280" />
+            <Tooltip
+              cursor={{ strokeDasharray: "3 3" }}
+              formatter={(value: number) => `${value.toFixed(2)}R`}
+              contentStyle={{ backgroundColor: "#121826", border: "1px solid #374151" }}
+            />
+            <Scatter name="Winners" data={winners} fill="#10b981" />
+            <Scatter name="Losers" data={losers} fill="#ef4444" />
+          </ScatterChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  )
+}
+
+export function ExcursionScatter({ signals, pnlBasis }: ExcursionScatterProps) {
+  const mae = buildPoints(signals, pnlBasis, "maeR")
+  const mfe = buildPoints(signals, pnlBasis, "mfeR")
+  const tracked = mae.winners.length + mae.losers.length
+
+  if (tracked === 0) {
+    return (
+      <div className="text-center py-8">
+        <p className="text-muted-foreground">No excursion data recorded for these signals yet</p>
+      </div>
+    )
+  }
+
+  // Winners' typical dip tells how much room the stop needs, losers' typical run how far targets are reachable
+  const winnerMae = median(mae.winners.map((point) => point.excursion))
+  const loserMfe = median(mfe.losers.map((point) => point.excursion))
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <ExcursionChart title="MAE vs Outcome" axisLabel="MAE" winners={mae.winners} losers={mae.losers} />
+        <ExcursionChart title="MFE vs Outcome" axisLabel="MFE" winners={mfe.winners} losers={mfe.losers} />
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <div className="bg-[#121826] p-3 rounded-lg">
+          <div className="text-xs text-muted-foreground">Median MAE of winners</div>
+          <div className="text-xl font-bold">{winnerMae.toFixed(2)}R</div>
+        </div>
+        <div className="bg-[#121826] p-3 rounded-lg">
+          <div className="text-xs text-muted-foreground">Median MFE of losers</div>
+          <div className="text-xl font-bold">{loserMfe.toFixed(2)}R</div>
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {tracked} signals with excursion tracking. Excursions are capped at the stop (1R) and the target.
+      </p>
+    </div>
+  )
+}
@@ -2,21 +2,53 @@
 
 import { useEffect, useRef } from "react"
 import { useLiquidation } from "@/context/liquidation-context"
+import { DEFAULT_SIGNAL_PARAMETERS } from "@/lib/signal-strategies"
+import { fibRetracementPrice } from "@/lib/fibonacci-entries"
+
+// Levels of a generated signal, drawn instead of the locally detected setup
+export interface FibonacciSignalLevels {
+  signalType: "long" | "short"
+  majorLevel: number
+  peakPrice: number
+  peakTime?: number // seconds
+  entryPrice: number
+  stopLoss: number
+  takeProfit: number
+  // Retracements (%) the entry was placed at
+  entryLevels: number[]
+}
 
-export function FibonacciVisualization() {
+export function FibonacciVisualization({ signal }: { signal?: FibonacciSignalLevels }) {
   const { historicalCandles, selectedPair } = useLiquidation()
   const containerRef = useRef<HTMLDivElement>(null)
 
   useEffect(() => {
     if (!containerRef.current || !historicalCandles || historicalCandles.length === 0) return
 
+    // Draw the levels the signal actually used when one is given
+    if (signal) {
+      const peakIndex = signal.peakTime
+        ? historicalCandles.findLastIndex((c) => c.time <= (signal.peakTime as number))
+        : historicalCandles.length - 1
+      const majorIndex = historicalCandles.findLastIndex(
+        (c, i) => i <= peakIndex && c.low <= signal.majorLevel && c.high >= signal.majorLevel,
+      )
+
+      drawLevels({
+        ...signal,
+        majorIndex: Math.max(0, majorIndex),
+        peakIndex: Math.max(0, peakIndex),
+      })
+      return
+    }
+
     // Import the liquidity levels calculation function
     import("@/lib/liquidity-levels").then(({ calculateLiquidityLevels }) => {
-      // Calculate liquidity levels with the exact parameters from TradingView
+      // Calculate liquidity levels with the same parameters as the signal generator
       const { bsl, ssl } = calculateLiquidityLevels(historicalCandles, {
-        swingStrength: 5,
-        majorThreshold: 0.3, // Sníženo z 0.5 na 0.3 pro lepší detekci major levelů
-        reqThreshold: 2.0,
+        swingStrength: DEFAULT_SIGNAL_PARAMETERS.swingStrength,
+        majorThreshold: DEFAULT_SIGNAL_PARAMETERS.majorThreshold,
+        reqThreshold: DEFAULT_SIGNAL_PARAMETERS.reqThreshold,
       })
 
       // Find all major levels
@@ -100,180 +132,186 @@ export function FibonacciVisualization() {
 
       // If we found a peak, draw Fibonacci levels
       if (peakIndex !== -1) {
-        const container = containerRef.current
-        container.innerHTML = ""
-
         const peakCandle = candlesAfterLevel[peakIndex]
 
-        // Calculate Fibonacci extension levels
-        const startPrice = lastMajor.price
-        const endPrice = peakPrice
-        const priceDiff = endPrice - startPrice
-
-        // Find price range for the chart
-        const allPrices = historicalCandles.flatMap((c) => [c.high, c.low])
-        const minPrice = Math.min(...allPrices) * 0.995
-        const maxPrice = Math.max(...allPrices) * 1.005
-
-        const width = container.clientWidth
-        const height = container.clientHeight
-        const padding = { top: 20, right: 60, bottom: 30, left: 60 }
-        const chartHeight = height - padding.top - padding.bottom
-
-        // Scale function for price to y-coordinate
-        const yScale = (price: number) =>
-          padding.top + chartHeight - ((price - minPrice) / (maxPrice - minPrice)) * chartHeight
-
         // Find the candle index for the major level and peak
         const majorLevelIndex = historicalCandles.findIndex((c) => c.time >= lastMajor.time)
         const peakCandleIndex = historicalCandles.findIndex((c) => c.time === peakCandle.time)
 
         if (majorLevelIndex === -1 || peakCandleIndex === -1) return
 
-        // Calculate x-coordinates
-        const xScale = (i: number) =>
-          padding.left + (i / (historicalCandles.length - 1)) * (width - padding.left - padding.right)
-        const majorX = xScale(majorLevelIndex)
-        const peakX = xScale(peakCandleIndex)
-
-        // Draw only the needed Fibonacci levels (0%, 61.8%, 100%)
-        const fibLevels = [0, 61.8, 100]
-
-        fibLevels.forEach((level) => {
-          // For LONG signals: 0% at high, 100% at major level
-          const fibPrice = endPrice - (priceDiff * level) / 100
-
-          const y = yScale(fibPrice)
-
-          // Draw horizontal line for the Fibonacci level
-          const line = document.createElement("div")
-          line.className = "absolute"
-          line.style.top = `${y}px`
-          line.style.left = `${majorX}px`
-          line.style.width = `${width - majorX - padding.right}px`
-          line.style.height = "1px"
-
-          // Style based on level
-          if (level === 61.8) {
-            // Highlight the 61.8% level (entry)
-            line.style.borderTop = "2px solid #3b82f6" // Primary color
-          } else if (level === 0 || level === 100) {
-            // Highlight the 0% and 100% levels
-            line.style.borderTop = "1px solid rgba(255, 255, 255, 0.5)"
-          }
-
-          container.appendChild(line)
-
-          // Add label for the Fibonacci level
-          const label = document.createElement("div")
-          label.className = "absolute text-xs"
-          label.textContent = `${level}%`
-          label.style.top = `${y}px`
-          label.style.right = "0"
-          label.style.transform = "translateY(-50%)"
-
-          // Style based on level
-          if (level === 61.8) {
-            label.className += " text-primary font-medium"
-          } else if (level === 0 || level === 100) {
-            label.className += " text-gray-300"
-          }
-
-          container.appendChild(label)
+        // Entry, SL and TP placed the way the signal generator would place them
+        const { entryRetracement, stopRetracement, riskRewardRatio } = DEFAULT_SIGNAL_PARAMETERS
+        const entryPrice = fibRetracementPrice("long", lastMajor.price, peakPrice, entryRetracement)
+        const stopLoss = fibRetracementPrice("long", lastMajor.price, peakPrice, stopRetracement)
+        const takeProfit = entryPrice + Math.abs(entryPrice - stopLoss) * riskRewardRatio
+
+        drawLevels({
+          signalType: "long",
+          majorLevel: lastMajor.price,
+          peakPrice,
+          entryPrice,
+          stopLoss,
+          takeProfit,
+          entryLevels: [entryRetracement],
+          majorIndex: majorLevelIndex,
+          peakIndex: peakCandleIndex,
         })
-
-        // Draw vertical line at the major level
-        const majorLine = document.createElement("div")
-        majorLine.className = "absolute border-l-2 border-yellow-500"
-        majorLine.style.left = `${majorX}px`
-        majorLine.style.top = `${padding.top}px`
-        majorLine.style.height = `${chartHeight}px`
-        container.appendChild(majorLine)
-
-        // Draw vertical line at the peak
-        const peakLine = document.createElement("div")
-        peakLine.className = "absolute border-l-2 border-purple-500"
-        peakLine.style.left = `${peakX}px`
-        peakLine.style.top = `${padding.top}px`
-        peakLine.style.height = `${chartHeight}px`
-        container.appendChild(peakLine)
-
-        // Add label for the major level
-        const majorLabel = document.createElement("div")
-        majorLabel.className = "absolute text-xs bg-yellow-500 text-black px-1 rounded"
-        majorLabel.textContent = "Major Level"
-        majorLabel.style.left = `${majorX}px`
-        majorLabel.style.bottom = "0"
-        majorLabel.style.transform = "translateX(-50%)"
-        container.appendChild(majorLabel)
-
-        // Add label for the peak
-        const peakLabel = document.createElement("div")
-        peakLabel.className = "absolute text-xs bg-purple-500 text-white px-1 rounded"
-        peakLabel.textContent = "Peak"
-        peakLabel.style.left = `${peakX}px`
-        peakLabel.style.bottom = "0"
-        peakLabel.style.transform = "translateX(-50%)"
-        container.appendChild(peakLabel)
-
-        // Calculate entry, SL, and TP levels
-        // For LONG signals: 0% at high, 100% at major level
-        const entryPrice = endPrice - (priceDiff * 61.8) / 100
-
-        // Stop loss just beyond the major level
-        const stopLossBuffer = priceDiff * 0.01 // 1% of the move
-        const stopLoss = startPrice - stopLossBuffer
-
-        // Calculate risk
-        const risk = Math.abs(entryPrice - stopLoss)
-
-        // Calculate take profit based on 3:1 RRR
-        const takeProfit = entryPrice + risk * 3
-
-        // Draw entry marker
-        const entryY = yScale(entryPrice)
-        const entryMarker = document.createElement("div")
-        entryMarker.className = "absolute"
-        entryMarker.style.top = `${entryY}px`
-        entryMarker.style.right = `${padding.right - 10}px`
-        entryMarker.innerHTML = `
-          <div class="flex items-center">
-            <div class="w-4 h-4 rounded-full bg-primary"></div>
-            <span class="ml-1 text-xs text-primary font-medium">Entry</span>
-          </div>
-        `
-        container.appendChild(entryMarker)
-
-        // Draw SL marker
-        const slY = yScale(stopLoss)
-        const slMarker = document.createElement("div")
-        slMarker.className = "absolute"
-        slMarker.style.top = `${slY}px`
-        slMarker.style.right = `${padding.right - 10}px`
-        slMarker.innerHTML = `
-          <div class="flex items-center">
-            <div class="w-4 h-4 rounded-full bg-destructive"></div>
-            <span class="ml-1 text-xs text-destructive font-medium">SL</span>
-          </div>
-        `
-        container.appendChild(slMarker)
-
-        // Draw TP marker
-        const tpY = yScale(takeProfit)
-        const tpMarker = document.createElement("div")
-        tpMarker.className = "absolute"
-        tpMarker.style.top = `${tpY}px`
-        tpMarker.style.right = `${padding.right - 10}px`
-        tpMarker.innerHTML = `
-          <div class="flex items-center">
-            <div class="w-4 h-4 rounded-full bg-success"></div>
-            <span class="ml-1 text-xs text-success font-medium">TP</span>
-          </div>
-        `
-        container.appendChild(tpMarker)
       }
     })
-  }, [historicalCandles, selectedPair])
+
+    // Function to draw the retracement, entry, SL and TP levels
+    function drawLevels(levels: FibonacciSignalLevels & { majorIndex: number; peakIndex: number }) {
+      const container = containerRef.current
+      if (!container) return
+      container.innerHTML = ""
+
+      const { signalType, majorLevel, peakPrice, entryPrice, stopLoss, takeProfit, entryLevels } = levels
+
+      // Find price range for the chart
+      const allPrices = historicalCandles.flatMap((c) => [c.high, c.low])
+      const minPrice = Math.min(...allPrices, stopLoss, takeProfit) * 0.995
+      const maxPrice = Math.max(...allPrices, stopLoss, takeProfit) * 1.005
+
+      const width = container.clientWidth
+      const height = container.clientHeight
+      const padding = { top: 20, right: 60, bottom: 30, left: 60 }
+      const chartHeight = height - padding.top - padding.bottom
+
+      // Scale function for price to y-coordinate
+      const yScale = (price: number) =>
+        padding.top + chartHeight - ((price - minPrice) / (maxPrice - minPrice)) * chartHeight
+
+      // Calculate x-coordinates
+      const xScale = (i: number) =>
+        padding.left + (i / (historicalCandles.length - 1)) * (width - padding.left - padding.right)
+      const majorX = xScale(levels.majorIndex)
+      const peakX = xScale(levels.peakIndex)
+
+      // Draw the 0% and 100% levels plus the entry level(s)
+      const fibLevels = Array.from(new Set([0, ...entryLevels, 100])).sort((a, b) => a - b)
+
+      fibLevels.forEach((level) => {
+        // 0% at the peak, 100% at the major level
+        const fibPrice = fibRetracementPrice(signalType, majorLevel, peakPrice, level)
+        const isEntryLevel = entryLevels.includes(level)
+
+        const y = yScale(fibPrice)
+
+        // Draw horizontal line for the Fibonacci level
+        const line = document.createElement("div")
+        line.className = "absolute"
+        line.style.top = `${y}px`
+        line.style.left = `${majorX}px`
+        line.style.width = `${width - majorX - padding.right}px`
+        line.style.height = "1px"
+
+        // Style based on level
+        if (isEntryLevel) {
+          // Highlight the entry level(s)
+          line.style.borderTop = "2px solid #3b82f6" // Primary color
+        } else {
+          // Highlight the 0% and 100% levels
+          line.style.borderTop = "1px solid rgba(255, 255, 255, 0.5)"
+        }
+
+        container.appendChild(line)
+
+        // Add label for the Fibonacci level
+        const label = document.createElement("div")
+        label.className = "absolute text-xs"
+        label.textContent = `${level}%`
+        label.style.top = `${y}px`
+        label.style.right = "0"
+        label.style.transform = "translateY(-50%)"
+
+        // Style based on level
+        if (isEntryLevel) {
+          label.className += " text-primary font-medium"
+        } else {
+          label.className += " text-gray-300"
+        }
+
+        container.appendChild(label)
+      })
+
+      // Draw vertical line at the major level
+      const majorLine = document.createElement("div")
+      majorLine.className = "absolute border-l-2 border-yellow-500"
+      majorLine.style.left = `${majorX}px`
+      majorLine.style.top = `${padding.top}px`
+      majorLine.style.height = `${chartHeight}px`
+      container.appendChild(majorLine)
+
+      // Draw vertical line at the peak
+      const peakLine = document.createElement("div")
+      peakLine.className = "absolute border-l-2 border-purple-500"
+      peakLine.style.left = `${peakX}px`
+      peakLine.style.top = `${padding.top}px`
+      peakLine.style.height = `${chartHeight}px`
+      container.appendChild(peakLine)
+
+      // Add label for the major level
+      const majorLabel = document.createElement("div")
+      majorLabel.className = "absolute text-xs bg-yellow-500 text-black px-1 rounded"
+      majorLabel.textContent = "Major Level"
+      majorLabel.style.left = `${majorX}px`
+      majorLabel.style.bottom = "0"
+      majorLabel.style.transform = "translateX(-50%)"
+      container.appendChild(majorLabel)
+
+      // Add label for the peak
+      const peakLabel = document.createElement("div")
+      peakLabel.className = "absolute text-xs bg-purple-500 text-white px-1 rounded"
+      peakLabel.textContent = "Peak"
+      peakLabel.style.left = `${peakX}px`
+      peakLabel.style.bottom = "0"
+      peakLabel.style.transform = "translateX(-50%)"
+      container.appendChild(peakLabel)
+
+      // Draw entry marker
+      const entryY = yScale(entryPrice)
+      const entryMarker = document.createElement("div")
+      entryMarker.className = "absolute"
+      entryMarker.style.top = `${entryY}px`
+      entryMarker.style.right = `${padding.right - 10}px`
+      entryMarker.innerHTML = `
+        <div class="flex items-center">
+          <div class="w-4 h-4 rounded-full bg-primary"></div>
+          <span class="ml-1 text-xs text-primary font-medium">${entryLevels.length > 1 ? "Avg Entry" : "Entry"}</span>
+        </div>
+      `
+      container.appendChild(entryMarker)
+
+      // Draw SL marker
+      const slY = yScale(stopLoss)
+      const slMarker = document.createElement("div")
+      slMarker.className = "absolute"
+      slMarker.style.top = `${slY}px`
+      slMarker.style.right = `${padding.right - 10}px`
+      slMarker.innerHTML = `
+        <div class="flex items-center">
+          <div class="w-4 h-4 rounded-full bg-destructive"></div>
+          <span class="ml-1 text-xs text-destructive font-medium">SL</span>
+        </div>
+      `
+      container.appendChild(slMarker)
+
+      // Draw TP marker
+      const tpY = yScale(takeProfit)
+      const tpMarker = document.createElement("div")
+      tpMarker.className = "absolute"
+      tpMarker.style.top = `${tpY}px`
+      tpMarker.style.right = `${padding.right - 10}px`
+      tpMarker.innerHTML = `
+        <div class="flex items-center">
+          <div class="w-4 h-4 rounded-full bg-success"></div>
+          <span class="ml-1 text-xs text-success font-medium">TP</span>
+        </div>
+      `
+      container.appendChild(tpMarker)
+    }
+  }, [historicalCandles, selectedPair, signal])
 
   return (
     <div className="relative h-[400px]">
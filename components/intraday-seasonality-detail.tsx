@@ -0,0 +1,125 @@
+"use client"
+
+import { Progress } from "@/components/ui/progress"
+import { TrendingUp, TrendingDown, Minus } from "lucide-react"
+import { BUCKET_BIAS_THRESHOLD, type SeasonalityBucketStats } from "@/lib/intraday-seasonality"
+
+interface IntradaySeasonalityDetailProps {
+  stats: SeasonalityBucketStats
+  timeframe: string
+}
+
+export function IntradaySeasonalityDetail({ stats, timeframe }: IntradaySeasonalityDetailProps) {
+  const formatReturn = (value: number) => {
+    return `${value > 0 ? "+" : ""}${value.toFixed(2)}%`
+  }
+
+  const isBullish = stats.positiveProb >= BUCKET_BIAS_THRESHOLD && stats.averageReturn > 0
+  const isBearish = stats.positiveProb <= 100 - BUCKET_BIAS_THRESHOLD && stats.averageReturn < 0
+
+  if (stats.count === 0) {
+    return <div className="py-12 text-center text-muted-foreground">No {timeframe} candles stored for this period yet</div>
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Direction indicator */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <div
+            className={`p-4 rounded-full ${
+              isBullish ? "bg-success/20" : isBearish ? "bg-destructive/20" : "bg-yellow-500/20"
+            }`}
+          >
+            {isBullish ? (
+              <TrendingUp className="h-8 w-8 text-success" />
+            ) : isBearish ? (
+              <TrendingDown className="h-8 w-8 text-destructive" />
+            ) : (
+              <Minus className="h-8 w-8 text-yellow-500" />
+            )}
+          </div>
+          <div>
+            <div className="text-xl font-bold">
+              {stats.label} is historically {isBullish ? "Bullish" : isBearish ? "Bearish" : "Neutral"}
+            </div>
+            <div className="text-muted-foreground">
+              {stats.positiveProb.toFixed(0)}% of {stats.count} {timeframe} candles closed higher
+            </div>
+          </div>
+        </div>
+        <div
+          className={`text-3xl font-bold ${
+            stats.averageReturn > 0 ? "text-success" : stats.averageReturn < 0 ? "text-destructive" : "text-muted-foreground"
+          }`}
+        >
+          {formatReturn(stats.averageReturn)}
+        </div>
+      </div>
+
+      {/* Probability of positive returns */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium">Probability of Positive Returns</span>
+          <span className="text-sm font-medium">{stats.positiveProb.toFixed(1)}%</span>
+        </div>
+        <Progress
+          value={stats.positiveProb}
+          className="h-2"
+          indicatorColor={
+            stats.positiveProb >= BUCKET_BIAS_THRESHOLD
+              ? "bg-success"
+              : stats.positiveProb > 100 - BUCKET_BIAS_THRESHOLD
+                ? "bg-yellow-500"
+                : "bg-destructive"
+          }
+        />
+      </div>
+
+      {/* Average and Median Returns */}
+      <div className="grid grid-cols-2 gap-4">
+        <div className="bg-[#121826] p-3 rounded-lg">
+          <div className="text-xs text-muted-foreground">Average Return</div>
+          <div className={`text-xl font-bold ${stats.averageReturn > 0 ? "text-success" : "text-destructive"}`}>
+            {formatReturn(stats.averageReturn)}
+          </div>
+        </div>
+        <div className="bg-[#121826] p-3 rounded-lg">
+          <div className="text-xs text-muted-foreground">Median Return</div>
+          <div className={`text-xl font-bold ${stats.medianReturn > 0 ? "text-success" : "text-destructive"}`}>
+            {formatReturn(stats.medianReturn)}
+          </div>
+        </div>
+      </div>
+
+      {/* Best and Worst Candles */}
+      <div className="grid grid-cols-2 gap-4">
+        <div className="bg-[#121826] p-3 rounded-lg">
+          <div className="text-xs text-muted-foreground">Best Candle</div>
+          <div className="text-success font-bold">{formatReturn(stats.bestReturn)}</div>
+        </div>
+        <div className="bg-[#121826] p-3 rounded-lg">
+          <div className="text-xs text-muted-foreground">Worst Candle</div>
+          <div className="text-destructive font-bold">{formatReturn(stats.worstReturn)}</div>
+        </div>
+      </div>
+
+      {/* Average return per calendar month */}
+      <div className="bg-[#121826] p-3 rounded-lg">
+        <div className="text-sm font-medium mb-2">Average Return by Month</div>
+        <div className="max-h-[200px] overflow-y-auto space-y-1">
+          {stats.byMonth.map((monthData) => (
+            <div key={monthData.month} className="flex justify-between text-xs">
+              <span>
+                {monthData.month} <span className="text-muted-foreground">({monthData.count})</span>
+              </span>
+              <span className={monthData.averageReturn > 0 ? "text-success" : "text-destructive"}>
+                {formatReturn(monthData.averageReturn)}
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
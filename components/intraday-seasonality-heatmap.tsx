@@ -0,0 +1,104 @@
+"use client"
+
+import { useState } from "react"
+import { Card } from "@/components/ui/card"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Skeleton } from "@/components/ui/skeleton"
+import { IntradaySeasonalityDetail } from "./intraday-seasonality-detail"
+import { getBucketCount, getBucketLabel, type SeasonalityDimension } from "@/lib/intraday-seasonality"
+import { useSeasonalityProfile } from "@/hooks/use-seasonality-data"
+
+interface IntradaySeasonalityHeatmapProps {
+  dimension: SeasonalityDimension
+  pair?: string
+}
+
+const GRID_COLUMNS: Record<SeasonalityDimension, string> = {
+  hour: "grid-cols-4 md:grid-cols-8 lg:grid-cols-12",
+  weekday: "grid-cols-4 md:grid-cols-7",
+  weekOfMonth: "grid-cols-3 md:grid-cols-5",
+}
+
+export function IntradaySeasonalityHeatmap({ dimension, pair }: IntradaySeasonalityHeatmapProps) {
+  const [selectedBucket, setSelectedBucket] = useState<number | null>(null)
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+
+  const { profile, loading } = useSeasonalityProfile(dimension, pair)
+
+  // Hourly and daily candles move far less than months, so the color scale is finer
+  const getReturnColor = (average: number) => {
+    const scale = dimension === "hour" ? 0.05 : 0.25
+    if (average >= 4 * scale) return "bg-green-600"
+    if (average >= 2 * scale) return "bg-green-500"
+    if (average >= scale) return "bg-green-400"
+    if (average > 0) return "bg-green-300"
+    if (average === 0) return "bg-gray-500"
+    if (average >= -scale) return "bg-red-300"
+    if (average >= -2 * scale) return "bg-red-400"
+    if (average >= -4 * scale) return "bg-red-500"
+    return "bg-red-600"
+  }
+
+  const handleBucketClick = (bucket: number) => {
+    setSelectedBucket(bucket)
+    setIsDialogOpen(true)
+  }
+
+  const selectedStats = selectedBucket !== null ? profile?.buckets[selectedBucket] : undefined
+
+  return (
+    <>
+      <div className={`grid gap-3 ${GRID_COLUMNS[dimension]}`}>
+        {Array.from({ length: getBucketCount(dimension) }).map((_, bucket) => {
+          const stats = profile?.buckets[bucket]
+
+          return (
+            <Card
+              key={bucket}
+              className={`p-3 cursor-pointer transition-all hover:shadow-md hover:border-primary/50 ${
+                loading || !stats ? "bg-gray-700" : getReturnColor(stats.averageReturn)
+              }`}
+              onClick={() => handleBucketClick(bucket)}
+            >
+              <div className="text-center">
+                <div className="text-sm font-bold text-white">
+                  {dimension === "weekday" ? getBucketLabel(dimension, bucket).slice(0, 3) : getBucketLabel(dimension, bucket)}
+                </div>
+                {loading || !stats ? (
+                  <>
+                    <Skeleton className="h-5 w-12 mx-auto my-1 bg-gray-600" />
+                    <Skeleton className="h-3 w-10 mx-auto bg-gray-600" />
+                  </>
+                ) : (
+                  <>
+                    <div className="font-bold text-white">
+                      {stats.averageReturn > 0 ? "+" : ""}
+                      {stats.averageReturn.toFixed(2)}%
+                    </div>
+                    <div className="text-xs text-white/80">{stats.positiveProb.toFixed(0)}% up</div>
+                  </>
+                )}
+              </div>
+            </Card>
+          )
+        })}
+      </div>
+
+      {profile && profile.to > 0 && (
+        <p className="text-xs text-muted-foreground mt-3">
+          Based on {profile.timeframe} candles from {new Date(profile.from).toLocaleDateString()} to{" "}
+          {new Date(profile.to).toLocaleDateString()} (UTC)
+        </p>
+      )}
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{selectedStats?.label} Performance History</DialogTitle>
+          </DialogHeader>
+          {selectedStats && profile && <IntradaySeasonalityDetail stats={selectedStats} timeframe={profile.timeframe} />}
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -0,0 +1,117 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Bar, BarChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts"
+import { Button } from "@/components/ui/button"
+import { RESAMPLING_METHODS, simulateMonteCarlo, type ResamplingMethod } from "@/lib/monte-carlo"
+import { getEquityTrades, type PnlBasis, type TradingSignal } from "@/lib/signals-service"
+
+interface MonteCarloPanelProps {
+  signals: TradingSignal[]
+  pnlBasis: PnlBasis
+  // Share of equity risked per trade (%)
+  riskPercent: number
+}
+
+// Function to format a signed return
+function formatReturn(value: number) {
+  return `${value > 0 ? "+" : ""}${value.toFixed(2)}%`
+}
+
+export function MonteCarloPanel({ signals, pnlBasis, riskPercent }: MonteCarloPanelProps) {
+  const [method, setMethod] = useState<ResamplingMethod>("replacement")
+
+  const result = useMemo(
+    () => simulateMonteCarlo(getEquityTrades(signals, pnlBasis), { method, riskPercent }),
+    [signals, pnlBasis, method, riskPercent],
+  )
+
+  if (result.simulations === 0) {
+    return (
+      <div className="text-center py-8">
+        <p className="text-muted-foreground">No filled signals to resample</p>
+      </div>
+    )
+  }
+
+  const data = result.finalReturnHistogram.map((bucket) => ({
+    return: (bucket.from + bucket.to) / 2,
+    count: bucket.count,
+  }))
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="text-xs text-muted-foreground">
+          {result.simulations} runs of {result.tradesPerRun} trades at {result.riskPercent}% risk
+          {method === "block" ? `, blocks of ${result.blockSize} trades` : ""}
+        </div>
+        <div className="flex rounded-md border border-border p-0.5">
+          {(Object.keys(RESAMPLING_METHODS) as ResamplingMethod[]).map((option) => (
+            <Button
+              key={option}
+              variant={method === option ? "secondary" : "ghost"}
+              size="sm"
+              className="h-7"
+              onClick={() => setMethod(option)}
+            >
+              {RESAMPLING_METHODS[option]}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="h-[240px]">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={data} margin={{ top: 8, right: 8, bottom: 0, left: 0 }}>
+            <CartesianGrid stroke="#374151" strokeDasharray="3 3" />
+            <XAxis
+              dataKey="return"
+              stroke="#6b7280"
+              tick={{ fill: "#6b7280", fontSize: 12 }}
+              tickFormatter={(value: number) => `${value.toFixed(0)}%`}
+            />
+            <YAxis allowDecimals={false} stroke="#6b7280" tick={{ fill: "#6b7280", fontSize: 12 }} />
+            <Tooltip
+              labelFormatter={(value: number) => `Final return ~${value.toFixed(1)}%`}
+              formatter={(value: number) => [value, "Runs"]}
+              contentStyle={{ backgroundColor: "#121826", border: "1px solid #374151" }}
+            />
+            <Bar dataKey="count" fill="#3b82f6" />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="bg-[#121826] p-3 rounded-lg">
+          <div className="text-xs text-muted-foreground">Median Return</div>
+          <div className={`text-xl font-bold ${result.finalReturn.p50 > 0 ? "text-success" : "text-destructive"}`}>
+            {formatReturn(result.finalReturn.p50)}
+          </div>
+          <div className="text-xs text-muted-foreground">
+            5th-95th {formatReturn(result.finalReturn.p5)} to {formatReturn(result.finalReturn.p95)}
+          </div>
+        </div>
+        <div className="bg-[#121826] p-3 rounded-lg">
+          <div className="text-xs text-muted-foreground">Max Drawdown</div>
+          <div className="text-xl font-bold text-destructive">{result.maxDrawdown.p50.toFixed(2)}%</div>
+          <div className="text-xs text-muted-foreground">
+            median, {result.maxDrawdown.p95.toFixed(2)}% in the worst 5%
+          </div>
+        </div>
+        <div className="bg-[#121826] p-3 rounded-lg">
+          <div className="text-xs text-muted-foreground">Probability of Loss</div>
+          <div className="text-xl font-bold">{result.probabilityOfLoss.toFixed(1)}%</div>
+          <div className="text-xs text-muted-foreground">runs ending below the start</div>
+        </div>
+        <div className="bg-[#121826] p-3 rounded-lg">
+          <div className="text-xs text-muted-foreground">Risk of Ruin</div>
+          <div className={`text-xl font-bold ${result.riskOfRuin > 0 ? "text-destructive" : ""}`}>
+            {result.riskOfRuin.toFixed(1)}%
+          </div>
+          <div className="text-xs text-muted-foreground">runs losing {result.ruinPercent}% of the account</div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -5,12 +5,16 @@ import { Progress } from "@/components/ui/progress"
 import { TrendingUp, TrendingDown, Minus, Loader2 } from 'lucide-react'
 import { monthNames } from "@/lib/seasonality-data"
 import { useMonthlyStats } from "@/hooks/use-seasonality-data"
+import { Badge } from "@/components/ui/badge"
+import type { ConditionalSeasonalityStats } from "@/lib/asset-seasonality"
+import { SEASONALITY_SIGNIFICANCE_LEVEL } from "@/lib/seasonality-statistics"
 
 interface MonthlySeasonalityDetailProps {
   month?: number // Optional - if not provided, use current month
+  pair?: string // Optional - defaults to BTCUSDT
 }
 
-export function MonthlySeasonalityDetail({ month }: MonthlySeasonalityDetailProps) {
+export function MonthlySeasonalityDetail({ month, pair }: MonthlySeasonalityDetailProps) {
   const [currentMonth, setCurrentMonth] = useState<number>(0)
   
   useEffect(() => {
@@ -20,12 +24,16 @@ export function MonthlySeasonalityDetail({ month }: MonthlySeasonalityDetailProp
   }, [month])
   
   // Use Redis-cached stats
-  const { stats: monthStats, loading } = useMonthlyStats(currentMonth)
+  const { stats: monthStats, loading } = useMonthlyStats(currentMonth, pair)
 
   const formatReturn = (value: number) => {
     return `${value > 0 ? "+" : ""}${value.toFixed(1)}%`
   }
 
+  const formatInterval = (interval?: [number, number]) => {
+    return interval ? `95% CI ${formatReturn(interval[0])} to ${formatReturn(interval[1])}` : null
+  }
+
   if (loading || !monthStats) {
     return (
       <div className="flex items-center justify-center py-12">
@@ -65,6 +73,14 @@ export function MonthlySeasonalityDetail({ month }: MonthlySeasonalityDetailProp
             <div className="text-muted-foreground">
               {monthStats.positiveProb.toFixed(0)}% of years have positive returns
             </div>
+            {monthStats.pValue !== undefined && (
+              <Badge
+                variant="outline"
+                className={`mt-1 ${monthStats.isSignificant ? "bg-success/10 text-success" : "text-muted-foreground"}`}
+              >
+                {monthStats.isSignificant ? "Significant" : "Not significant"} (p = {monthStats.pValue.toFixed(2)})
+              </Badge>
+            )}
           </div>
         </div>
         <div
@@ -99,6 +115,11 @@ export function MonthlySeasonalityDetail({ month }: MonthlySeasonalityDetailProp
         />
         <div className="flex justify-between text-xs text-muted-foreground">
           <span>{monthStats.positiveYears} positive years</span>
+          {monthStats.positiveProbInterval && (
+            <span>
+              95% CI {monthStats.positiveProbInterval[0].toFixed(0)}% to {monthStats.positiveProbInterval[1].toFixed(0)}%
+            </span>
+          )}
           <span>{monthStats.negativeYears} negative years</span>
         </div>
       </div>
@@ -110,12 +131,14 @@ export function MonthlySeasonalityDetail({ month }: MonthlySeasonalityDetailProp
           <div className={`text-xl font-bold ${monthStats.averageReturn > 0 ? "text-success" : "text-destructive"}`}>
             {formatReturn(monthStats.averageReturn)}
           </div>
+          <div className="text-xs text-muted-foreground">{formatInterval(monthStats.averageReturnInterval)}</div>
         </div>
         <div className="bg-[#121826] p-3 rounded-lg">
           <div className="text-xs text-muted-foreground">Median Return</div>
           <div className={`text-xl font-bold ${monthStats.medianReturn > 0 ? "text-success" : "text-destructive"}`}>
             {formatReturn(monthStats.medianReturn)}
           </div>
+          <div className="text-xs text-muted-foreground">{formatInterval(monthStats.medianReturnInterval)}</div>
         </div>
       </div>
 
@@ -133,6 +156,55 @@ export function MonthlySeasonalityDetail({ month }: MonthlySeasonalityDetailProp
         </div>
       </div>
 
+      {/* Distribution of yearly returns */}
+      {monthStats.histogram && monthStats.histogram.length > 0 && (
+        <div className="bg-[#121826] p-3 rounded-lg">
+          <div className="text-sm font-medium mb-2">Return Distribution</div>
+          <div className="flex items-end gap-1 h-24">
+            {monthStats.histogram.map((bin: { from: number; to: number; count: number }) => (
+              <div
+                key={bin.from}
+                className={`flex-1 rounded-t ${bin.to <= 0 ? "bg-destructive/70" : bin.from >= 0 ? "bg-success/70" : "bg-yellow-500/70"}`}
+                style={{ height: `${(bin.count / Math.max(...monthStats.histogram.map((b: { count: number }) => b.count))) * 100}%` }}
+                title={`${formatReturn(bin.from)} to ${formatReturn(bin.to)}: ${bin.count} years`}
+              />
+            ))}
+          </div>
+          <div className="flex justify-between text-xs text-muted-foreground mt-1">
+            <span>{formatReturn(monthStats.histogram[0].from)}</span>
+            <span>{formatReturn(monthStats.histogram[monthStats.histogram.length - 1].to)}</span>
+          </div>
+        </div>
+      )}
+
+      {/* Conditional stats */}
+      {monthStats.conditional && (
+        <div className="bg-[#121826] p-3 rounded-lg">
+          <div className="text-sm font-medium mb-2">Conditional Returns</div>
+          <div className="space-y-1">
+            {[
+              monthStats.conditional.priorMonthNegative,
+              monthStats.conditional.priorMonthPositive,
+              ...monthStats.conditional.halvingCycle,
+            ].map((conditional: ConditionalSeasonalityStats) => (
+              <div key={conditional.condition} className="grid grid-cols-4 gap-2 text-xs">
+                <span className="col-span-2">
+                  {conditional.condition} <span className="text-muted-foreground">({conditional.samples})</span>
+                </span>
+                <span className={conditional.averageReturn > 0 ? "text-success" : "text-destructive"}>
+                  {conditional.samples > 0 ? formatReturn(conditional.averageReturn) : "-"}
+                </span>
+                <span className={conditional.isSignificant ? "text-success" : "text-muted-foreground"}>
+                  {conditional.samples > 0 ? `${conditional.positiveProb.toFixed(0)}% positive` : "-"}
+                  {conditional.isSignificant && " *"}
+                </span>
+              </div>
+            ))}
+          </div>
+          <div className="text-xs text-muted-foreground mt-2">* significant at p &lt; {SEASONALITY_SIGNIFICANCE_LEVEL}</div>
+        </div>
+      )}
+
       {/* Historical Returns Table */}
       <div className="bg-[#121826] p-3 rounded-lg">
         <div className="text-sm font-medium mb-2">Historical Returns</div>
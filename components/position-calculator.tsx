@@ -11,6 +11,15 @@ import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { Calculator, TrendingUp, TrendingDown, Percent, DollarSign, AlertCircle } from "lucide-react"
 import { Alert, AlertDescription } from "@/components/ui/alert"
+import { parseTargetLadder, type TakeProfitTarget } from "@/lib/take-profit-targets"
+import { RiskSimulation } from "@/components/risk-simulation"
+
+// Function to read the take-profit ladder from the URL, normalizing the weights
+function getLadderParam(value: string | null): TakeProfitTarget[] {
+  const ladder = parseTargetLadder(value)
+  const totalWeight = ladder.reduce((sum, target) => sum + target.weight, 0)
+  return ladder.map((target) => ({ ...target, weight: target.weight / totalWeight }))
+}
 
 export function PositionCalculator() {
   const searchParams = useSearchParams()
@@ -28,6 +37,7 @@ export function PositionCalculator() {
   const entryParam = searchParams.get("entry") ? Number.parseFloat(searchParams.get("entry") || "0") : defaultEntry
   const slParam = searchParams.get("sl") ? Number.parseFloat(searchParams.get("sl") || "0") : defaultStopLoss
   const tpParam = searchParams.get("tp") ? Number.parseFloat(searchParams.get("tp") || "0") : defaultTakeProfit
+  const ladderParam = getLadderParam(searchParams.get("targets"))
 
   // State for form values
   const [positionType, setPositionType] = useState<"buy" | "sell">(typeParam === "sell" ? "sell" : "buy")
@@ -35,7 +45,9 @@ export function PositionCalculator() {
   const [riskPercent, setRiskPercent] = useState<number>(1)
   const [entryPrice, setEntryPrice] = useState<number>(entryParam || priceParam || 0)
   const [stopLoss, setStopLoss] = useState<number>(slParam || 0)
-  const [takeProfit, setTakeProfit] = useState<number>(tpParam || 0)
+  const [takeProfit, setTakeProfit] = useState<number>(tpParam || ladderParam[ladderParam.length - 1]?.price || 0)
+  // Targets closing a share of the position each, the last one is takeProfit
+  const [targets, setTargets] = useState<TakeProfitTarget[]>(ladderParam)
   const [positionSize, setPositionSize] = useState<number>(0)
   const [riskAmount, setRiskAmount] = useState<number>(0)
   const [potentialProfit, setPotentialProfit] = useState<number>(0)
@@ -82,9 +94,14 @@ export function PositionCalculator() {
     // Calculate margin required with leverage (position size / leverage)
     const calculatedMargin = calculatedPositionSize / safetyLeverage
 
-    // Calculate potential profit
+    // Calculate potential profit, averaged over the ladder when the position scales out
     let profitDifference = 0
-    if (positionType === "buy") {
+    if (targets.length > 0) {
+      profitDifference = targets.reduce(
+        (sum, target) => sum + (Math.abs(target.price - entryPrice) / entryPrice) * target.weight,
+        0,
+      )
+    } else if (positionType === "buy") {
       profitDifference = Math.abs(takeProfit - entryPrice) / entryPrice
     } else {
       profitDifference = Math.abs(entryPrice - takeProfit) / entryPrice
@@ -110,7 +127,7 @@ export function PositionCalculator() {
     setPotentialProfit(calculatedProfit)
     setRiskRewardRatio(calculatedRiskReward)
     setLiquidationPrice(calculatedLiquidationPrice)
-  }, [accountBalance, riskPercent, entryPrice, stopLoss, takeProfit, positionType, leverage])
+  }, [accountBalance, riskPercent, entryPrice, stopLoss, takeProfit, targets, positionType, leverage])
 
   // Format currency
   const formatCurrency = (value: number) => {
@@ -134,6 +151,7 @@ export function PositionCalculator() {
     setEntryPrice(0)
     setStopLoss(0)
     setTakeProfit(0)
+    setTargets([])
     setLeverage(1)
   }
 
@@ -146,9 +164,11 @@ export function PositionCalculator() {
       if (value === "buy" && stopLoss > entryPrice) {
         setStopLoss(entryPrice * 0.97)
         setTakeProfit(entryPrice * 1.05)
+        setTargets([])
       } else if (value === "sell" && stopLoss < entryPrice) {
         setStopLoss(entryPrice * 1.03)
         setTakeProfit(entryPrice * 0.95)
+        setTargets([])
       }
     }
   }
@@ -229,6 +249,11 @@ export function PositionCalculator() {
                       <span>2%</span>
                       <span>5%</span>
                     </div>
+                    <RiskSimulation
+                      riskPercent={riskPercent}
+                      onRiskPercentChange={setRiskPercent}
+                      timeframe={searchParams.get("timeframe") || undefined}
+                    />
                   </div>
                 </div>
               </div>
@@ -283,10 +308,30 @@ export function PositionCalculator() {
                             : "border-red-500 focus-visible:ring-red-500"
                         }`}
                         value={takeProfit || ""}
-                        onChange={(e) => setTakeProfit(Number.parseFloat(e.target.value) || 0)}
+                        onChange={(e) => {
+                          // A single target typed in replaces the ladder
+                          setTargets([])
+                          setTakeProfit(Number.parseFloat(e.target.value) || 0)
+                        }}
                       />
                     </div>
                   </div>
+                  {targets.length > 0 && (
+                    <div className="space-y-1 rounded-md bg-muted/50 p-3 text-sm">
+                      <div className="text-muted-foreground">Take-profit ladder</div>
+                      {targets.map((target, index) => (
+                        <div key={index} className="flex justify-between">
+                          <span>
+                            {target.label} at {formatCurrency(target.price)}
+                          </span>
+                          <span className="font-medium">
+                            {formatPercent(target.weight * 100)} of size ·{" "}
+                            {formatCurrency(((positionSize * Math.abs(target.price - entryPrice)) / entryPrice) * target.weight)}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
                 </div>
               </div>
 
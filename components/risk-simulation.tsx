@@ -0,0 +1,89 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import type { EquityTrade } from "@/lib/equity-curve"
+import { compareRiskLevels } from "@/lib/monte-carlo"
+import { getCompletedSignals, getEquityTrades } from "@/lib/signals-service"
+
+interface RiskSimulationProps {
+  // Risk per trade currently chosen in the calculator (%)
+  riskPercent: number
+  onRiskPercentChange: (riskPercent: number) => void
+  timeframe?: string
+}
+
+// Risk levels always compared, next to the chosen one (%)
+const RISK_LEVELS = [0.5, 1, 2, 3, 5]
+
+export function RiskSimulation({ riskPercent, onRiskPercentChange, timeframe }: RiskSimulationProps) {
+  const [trades, setTrades] = useState<EquityTrade[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    let cancelled = false
+
+    getCompletedSignals(1000, 0, timeframe ? { timeframe } : {})
+      .then((signals) => {
+        if (!cancelled) setTrades(getEquityTrades(signals))
+      })
+      .catch((error) => console.error("Error loading signal history for the risk simulation:", error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [timeframe])
+
+  const results = useMemo(() => {
+    const levels = [...new Set([...RISK_LEVELS, riskPercent])].filter((level) => level > 0).sort((a, b) => a - b)
+    return compareRiskLevels(trades, levels)
+  }, [trades, riskPercent])
+
+  if (isLoading) {
+    return <div className="text-xs text-muted-foreground">Simulating signal history...</div>
+  }
+
+  if (trades.length === 0) {
+    return <div className="text-xs text-muted-foreground">No completed signals to simulate the risk with yet</div>
+  }
+
+  return (
+    <div className="space-y-2 rounded-md bg-muted/50 p-3 text-sm">
+      <div className="text-muted-foreground">
+        Monte Carlo of {trades.length} completed {timeframe ? `${timeframe} ` : ""}signals
+      </div>
+      <table className="w-full">
+        <thead>
+          <tr className="text-xs text-muted-foreground">
+            <th className="text-left font-normal">Risk</th>
+            <th className="text-right font-normal">Median return</th>
+            <th className="text-right font-normal">Drawdown (95th)</th>
+            <th className="text-right font-normal">Risk of ruin</th>
+          </tr>
+        </thead>
+        <tbody>
+          {results.map((result) => (
+            <tr
+              key={result.riskPercent}
+              className={`cursor-pointer hover:bg-muted ${result.riskPercent === riskPercent ? "font-medium text-primary" : ""}`}
+              onClick={() => onRiskPercentChange(result.riskPercent)}
+            >
+              <td>{result.riskPercent}%</td>
+              <td className={`text-right ${result.finalReturn.p50 >= 0 ? "text-green-500" : "text-red-500"}`}>
+                {result.finalReturn.p50 > 0 ? "+" : ""}
+                {result.finalReturn.p50.toFixed(1)}%
+              </td>
+              <td className="text-right">{result.maxDrawdown.p95.toFixed(1)}%</td>
+              <td className={`text-right ${result.riskOfRuin > 0 ? "text-red-500" : ""}`}>{result.riskOfRuin.toFixed(1)}%</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="text-xs text-muted-foreground">
+        Ruin is losing {results[0]?.ruinPercent}% of the account. Click a row to use its risk.
+      </div>
+    </div>
+  )
+}
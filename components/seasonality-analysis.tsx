@@ -0,0 +1,86 @@
+"use client"
+
+import { useState } from "react"
+import { AlertCircle } from "lucide-react"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { SeasonalityHeatmap } from "@/components/seasonality-heatmap"
+import { IntradaySeasonalityHeatmap } from "@/components/intraday-seasonality-heatmap"
+import { MonthlySeasonalityDetail } from "@/components/monthly-seasonality-detail"
+import { useSeasonalitySource } from "@/hooks/use-seasonality-data"
+
+const PAIRS = ["BTCUSDT", "ETHUSDT", "XRPUSDT", "BNBUSDT", "SOLUSDT", "DOGEUSDT", "ADAUSDT", "LINKUSDT"]
+
+export function SeasonalityAnalysis() {
+  const [pair, setPair] = useState("BTCUSDT")
+  const source = useSeasonalitySource(pair)
+
+  return (
+    <div className="grid gap-6">
+      <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+        <div className="w-full sm:w-48">
+          <Select value={pair} onValueChange={setPair}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select pair" />
+            </SelectTrigger>
+            <SelectContent>
+              {PAIRS.map((p) => (
+                <SelectItem key={p} value={p}>
+                  {p.replace("USDT", "")}/USDT
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {source && source !== pair && (
+          <Alert className="flex-1 py-2">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              Not enough {pair.replace("USDT", "")} history yet, showing {source.replace("USDT", "")} seasonality instead
+            </AlertDescription>
+          </Alert>
+        )}
+      </div>
+
+      {/* Current month detail */}
+      <div className="bg-[#1e2538] rounded-lg p-6">
+        <h2 className="text-xl font-bold mb-4">Current Month Performance</h2>
+        <MonthlySeasonalityDetail pair={pair} />
+      </div>
+
+      {/* Heatmap for all months */}
+      <div className="bg-[#1e2538] rounded-lg p-6">
+        <h2 className="text-xl font-bold mb-4">Annual Seasonality Heatmap</h2>
+        <p className="text-sm text-muted-foreground mb-4">
+          Click on any month to view detailed historical performance
+        </p>
+        <SeasonalityHeatmap pair={pair} />
+      </div>
+
+      {/* Hour-of-day, day-of-week and week-of-month profiles */}
+      <div className="bg-[#1e2538] rounded-lg p-6">
+        <h2 className="text-xl font-bold mb-4">Intraday & Weekly Seasonality</h2>
+        <p className="text-sm text-muted-foreground mb-4">
+          Average candle return per UTC hour, weekday and week of the month for {pair.replace("USDT", "")}
+        </p>
+        <Tabs defaultValue="hour">
+          <TabsList className="mb-4">
+            <TabsTrigger value="hour">Hour of Day</TabsTrigger>
+            <TabsTrigger value="weekday">Day of Week</TabsTrigger>
+            <TabsTrigger value="weekOfMonth">Week of Month</TabsTrigger>
+          </TabsList>
+          <TabsContent value="hour">
+            <IntradaySeasonalityHeatmap dimension="hour" pair={pair} />
+          </TabsContent>
+          <TabsContent value="weekday">
+            <IntradaySeasonalityHeatmap dimension="weekday" pair={pair} />
+          </TabsContent>
+          <TabsContent value="weekOfMonth">
+            <IntradaySeasonalityHeatmap dimension="weekOfMonth" pair={pair} />
+          </TabsContent>
+        </Tabs>
+      </div>
+    </div>
+  )
+}
@@ -5,16 +5,21 @@ import { Card } from "@/components/ui/card"
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
 import { MonthlySeasonalityDetail } from "./monthly-seasonality-detail"
 import { monthNames } from "@/lib/seasonality-data"
-import { useMonthlyAverages, useMonthlyProbabilities } from "@/hooks/use-seasonality-data"
+import { useInProgressMonth, useMonthlyAverages, useMonthlyProbabilities } from "@/hooks/use-seasonality-data"
 import { Skeleton } from "@/components/ui/skeleton"
 
-export function SeasonalityHeatmap() {
+interface SeasonalityHeatmapProps {
+  pair?: string
+}
+
+export function SeasonalityHeatmap({ pair }: SeasonalityHeatmapProps) {
   const [selectedMonth, setSelectedMonth] = useState<number | null>(null)
   const [isDialogOpen, setIsDialogOpen] = useState(false)
   
   // Use Redis-cached data
-  const { averages: monthlyAverages, loading: loadingAverages } = useMonthlyAverages()
-  const { probabilities: monthlyProbabilities, loading: loadingProbabilities } = useMonthlyProbabilities()
+  const { averages: monthlyAverages, loading: loadingAverages } = useMonthlyAverages(pair)
+  const { probabilities: monthlyProbabilities, loading: loadingProbabilities } = useMonthlyProbabilities(pair)
+  const inProgress = useInProgressMonth(pair)
   
   const isLoading = loadingAverages || loadingProbabilities
 
@@ -61,6 +66,12 @@ export function SeasonalityHeatmap() {
                     {(monthlyAverages[month] || 0).toFixed(1)}%
                   </div>
                   <div className="text-xs text-white/80">{(monthlyProbabilities[month] || 0).toFixed(0)}% positive</div>
+                  {inProgress?.month === month && (
+                    <div className="mt-1 rounded bg-black/30 px-1 text-xs text-white" title="Current month, not yet part of the averages">
+                      In progress: {inProgress.returnPercent > 0 ? "+" : ""}
+                      {inProgress.returnPercent.toFixed(1)}%
+                    </div>
+                  )}
                 </>
               )}
             </div>
@@ -73,7 +84,7 @@ export function SeasonalityHeatmap() {
           <DialogHeader>
             <DialogTitle>{selectedMonth !== null ? monthNames[selectedMonth] : ""} Performance History</DialogTitle>
           </DialogHeader>
-          {selectedMonth !== null && <MonthlySeasonalityDetail month={selectedMonth} />}
+          {selectedMonth !== null && <MonthlySeasonalityDetail month={selectedMonth} pair={pair} />}
         </DialogContent>
       </Dialog>
     </>
@@ -94,6 +94,11 @@ export function SeasonalityPanel() {
                     Seasonality
                   </div>
                   <div className="text-sm text-muted-foreground">positive years</div>
+                  {monthlyStats.isSignificant === false && (
+                    <div className="text-xs text-muted-foreground mt-1">
+                      Not statistically significant ({monthlyStats.positiveYears + monthlyStats.negativeYears} years)
+                    </div>
+                  )}
                 </div>
               </div>
             </>
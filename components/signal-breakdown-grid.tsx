@@ -0,0 +1,143 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { BREAKDOWN_DIMENSIONS, type BreakdownCell, type BreakdownDimension } from "@/lib/signal-breakdown"
+import type { PnlBasis } from "@/lib/signals-service"
+
+interface SignalBreakdownGridProps {
+  pnlBasis: PnlBasis
+  // Filters of the signal history
+  pair?: string
+  timeframe?: string
+  signalType?: string
+  dateFrom?: Date
+  dateTo?: Date
+}
+
+// More dimensions split the signals into cells too small to read
+const MAX_DIMENSIONS = 3
+
+export function SignalBreakdownGrid({ pnlBasis, pair, timeframe, signalType, dateFrom, dateTo }: SignalBreakdownGridProps) {
+  const [dimensions, setDimensions] = useState<BreakdownDimension[]>(["timeframe", "signal_type"])
+  const [cells, setCells] = useState<BreakdownCell[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    async function loadBreakdown() {
+      setIsLoading(true)
+      setError(null)
+
+      try {
+        const params = new URLSearchParams({ groupBy: dimensions.join(","), basis: pnlBasis })
+        if (pair) params.append("pair", pair)
+        if (timeframe) params.append("timeframe", timeframe)
+        if (signalType) params.append("signalType", signalType)
+        if (dateFrom) params.append("dateFrom", dateFrom.toISOString())
+        if (dateTo) params.append("dateTo", dateTo.toISOString())
+
+        const response = await fetch(`/api/signals/stats?${params.toString()}`)
+        const data = await response.json()
+
+        if (!response.ok) {
+          throw new Error(data.error || `Breakdown failed: ${response.status}`)
+        }
+
+        if (!cancelled) setCells(data.cells)
+      } catch (err) {
+        console.error("Error loading signal breakdown:", err)
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : "Unknown error")
+          setCells([])
+        }
+      } finally {
+        if (!cancelled) setIsLoading(false)
+      }
+    }
+
+    loadBreakdown()
+    return () => {
+      cancelled = true
+    }
+  }, [dimensions, pnlBasis, pair, timeframe, signalType, dateFrom, dateTo])
+
+  // Add or remove a dimension, keeping at least one
+  const toggleDimension = (dimension: BreakdownDimension) => {
+    if (dimensions.includes(dimension)) {
+      if (dimensions.length > 1) setDimensions(dimensions.filter((selected) => selected !== dimension))
+    } else if (dimensions.length < MAX_DIMENSIONS) {
+      setDimensions([...dimensions, dimension])
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        {(Object.keys(BREAKDOWN_DIMENSIONS) as BreakdownDimension[]).map((dimension) => (
+          <Button
+            key={dimension}
+            variant={dimensions.includes(dimension) ? "secondary" : "outline"}
+            size="sm"
+            className="h-7"
+            onClick={() => toggleDimension(dimension)}
+          >
+            {BREAKDOWN_DIMENSIONS[dimension]}
+          </Button>
+        ))}
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin h-8 w-8 border-4 border-primary border-t-transparent rounded-full"></div>
+        </div>
+      ) : error ? (
+        <div className="text-center py-8">
+          <p className="text-destructive">{error}</p>
+        </div>
+      ) : cells.length === 0 ? (
+        <div className="text-center py-8">
+          <p className="text-muted-foreground">No completed signals to break down</p>
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              {dimensions.map((dimension) => (
+                <TableHead key={dimension}>{BREAKDOWN_DIMENSIONS[dimension]}</TableHead>
+              ))}
+              <TableHead className="text-right">Signals</TableHead>
+              <TableHead className="text-right">Win Rate</TableHead>
+              <TableHead className="text-right">Expectancy</TableHead>
+              <TableHead className="text-right">Total R</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {cells.map((cell) => (
+              <TableRow key={dimensions.map((dimension) => cell.values[dimension]).join("|")}>
+                {dimensions.map((dimension) => (
+                  <TableCell key={dimension} className="capitalize">
+                    {cell.values[dimension]}
+                  </TableCell>
+                ))}
+                <TableCell className="text-right">{cell.count}</TableCell>
+                <TableCell className="text-right">{cell.winRate.toFixed(1)}%</TableCell>
+                <TableCell className={`text-right ${cell.expectancyR > 0 ? "text-success" : "text-destructive"}`}>
+                  {cell.expectancyR > 0 ? "+" : ""}
+                  {cell.expectancyR.toFixed(2)}R
+                </TableCell>
+                <TableCell className={`text-right font-medium ${cell.totalR > 0 ? "text-success" : "text-destructive"}`}>
+                  {cell.totalR > 0 ? "+" : ""}
+                  {cell.totalR.toFixed(2)}R
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  )
+}
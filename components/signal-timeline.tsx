@@ -0,0 +1,130 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Ban, CheckCircle2, Clock, LogIn, MoveVertical, Pencil, PlusCircle, XCircle } from "lucide-react"
+import { getSignalEvents, type SignalEvent, type SignalEventType } from "@/lib/signal-events"
+import { INVALIDATION_REASON_LABELS, type InvalidationReason } from "@/lib/signal-invalidation"
+
+interface SignalTimelineProps {
+  signalId: string
+}
+
+const EVENT_LABELS: Record<SignalEventType, string> = {
+  created: "Signal created",
+  entry_hit: "Entry filled",
+  partial_take_profit: "Partial take profit",
+  take_profit: "Take profit hit",
+  stop_loss: "Stop loss hit",
+  trailing_stop: "Trailing stop hit",
+  stop_moved: "Stop moved",
+  time_stop: "Closed by time stop",
+  expired: "Expired",
+  invalidated: "Invalidated",
+  superseded: "Superseded by a newer setup",
+  manual_close: "Closed manually",
+  updated: "Updated",
+}
+
+// Function to pick the icon of an event
+function EventIcon({ type }: { type: SignalEventType }) {
+  switch (type) {
+    case "created":
+      return <PlusCircle className="h-4 w-4 text-primary" />
+    case "entry_hit":
+      return <LogIn className="h-4 w-4 text-primary" />
+    case "take_profit":
+    case "partial_take_profit":
+      return <CheckCircle2 className="h-4 w-4 text-success" />
+    case "stop_loss":
+    case "trailing_stop":
+      return <XCircle className="h-4 w-4 text-destructive" />
+    case "stop_moved":
+      return <MoveVertical className="h-4 w-4 text-primary" />
+    case "expired":
+    case "time_stop":
+      return <Clock className="h-4 w-4 text-muted-foreground" />
+    case "invalidated":
+    case "superseded":
+      return <Ban className="h-4 w-4 text-muted-foreground" />
+    default:
+      return <Pencil className="h-4 w-4 text-muted-foreground" />
+  }
+}
+
+export function SignalTimeline({ signalId }: SignalTimelineProps) {
+  const [events, setEvents] = useState<SignalEvent[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    let cancelled = false
+
+    async function loadEvents() {
+      setLoading(true)
+      const signalEvents = await getSignalEvents(signalId)
+      if (!cancelled) {
+        setEvents(signalEvents)
+        setLoading(false)
+      }
+    }
+
+    loadEvents()
+    return () => {
+      cancelled = true
+    }
+  }, [signalId])
+
+  if (loading) {
+    return <div className="text-xs text-muted-foreground py-2">Loading timeline...</div>
+  }
+
+  if (events.length === 0) {
+    return <div className="text-xs text-muted-foreground py-2">No events recorded for this signal</div>
+  }
+
+  return (
+    <ol className="relative ml-2 border-l border-border">
+      {events.map((event, index) => (
+        <li key={event.id ?? index} className="mb-3 ml-4 last:mb-0">
+          <span className="absolute -left-2 flex h-4 w-4 items-center justify-center rounded-full bg-background">
+            <EventIcon type={event.event_type} />
+          </span>
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm font-medium">{EVENT_LABELS[event.event_type] ?? event.event_type}</span>
+            <Badge variant="outline" className="text-xs">
+              {event.source}
+            </Badge>
+            {event.from_status && event.to_status && event.from_status !== event.to_status && (
+              <span className="text-xs text-muted-foreground">
+                {event.from_status} → {event.to_status}
+              </span>
+            )}
+          </div>
+          <div className="text-xs text-muted-foreground">
+            {new Date(event.occurred_at).toLocaleString()}
+            {event.trigger_price !== null && <> · @ ${Number(event.trigger_price).toLocaleString()}</>}
+            {event.payload?.resolution_method && <> · via {event.payload.resolution_method}</>}
+            {event.payload?.rule && <> · {event.payload.rule}</>}
+            {event.payload?.reason && (
+              <> · {INVALIDATION_REASON_LABELS[event.payload.reason as InvalidationReason] ?? event.payload.reason}</>
+            )}
+            {event.payload?.target && (
+              <>
+                {" "}
+                · TP{event.payload.target} ({(Number(event.payload.weight) * 100).toFixed(0)}% of size)
+              </>
+            )}
+            {event.payload?.superseded_by && <> · by {String(event.payload.superseded_by).slice(0, 8)}</>}
+            {event.payload?.supersedes && <> · replaces {String(event.payload.supersedes).slice(0, 8)}</>}
+            {event.payload?.seasonality && (
+              <>
+                {" "}
+                · seasonality {event.payload.seasonality} ({Number(event.payload.positive_probability).toFixed(0)}%)
+              </>
+            )}
+          </div>
+        </li>
+      ))}
+    </ol>
+  )
+}
@@ -4,14 +4,40 @@ import { useEffect, useState } from "react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
-import { ArrowDown, ArrowUp, ArrowLeft, BarChart2, Calendar } from "lucide-react"
+import { ArrowDown, ArrowUp, ArrowLeft, BarChart2, Calendar, Download, History } from "lucide-react"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Progress } from "@/components/ui/progress"
 import { Separator } from "@/components/ui/separator"
-import { getCompletedSignals, calculateSignalStats, type TradingSignal, type SignalStats } from "@/lib/signals-service"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import {
+  getCompletedSignals,
+  calculateSignalStats,
+  getSignalPnl,
+  type PnlBasis,
+  type TradingSignal,
+  type SignalStats,
+} from "@/lib/signals-service"
 import Link from "next/link"
 import { DatePicker } from "@/components/ui/date-picker"
+import { SignalTimeline } from "@/components/signal-timeline"
+import { ExcursionScatter } from "@/components/excursion-scatter"
+import { EquityCurveChart } from "@/components/equity-curve-chart"
+import { SignalBreakdownGrid } from "@/components/signal-breakdown-grid"
+import { CalibrationDiagram } from "@/components/calibration-diagram"
+import { MonteCarloPanel } from "@/components/monte-carlo-panel"
+import { DEFAULT_RISK_PERCENT } from "@/lib/equity-curve"
+import { EXPORT_FORMATS, type ExportFormat } from "@/lib/signal-export"
+
+// Risk per trade the equity curve can be compounded at (%)
+const RISK_PERCENT_OPTIONS = [0.5, 1, 2, 3]
 
 export function SignalsHistory() {
   const [signals, setSignals] = useState<TradingSignal[]>([])
@@ -25,6 +51,9 @@ export function SignalsHistory() {
   const [dateTo, setDateTo] = useState<Date | undefined>(undefined)
   const [availablePairs, setAvailablePairs] = useState<string[]>([])
   const [availableTimeframes, setAvailableTimeframes] = useState<string[]>([])
+  const [pnlBasis, setPnlBasis] = useState<PnlBasis>("net")
+  const [timelineSignalId, setTimelineSignalId] = useState<string | null>(null)
+  const [riskPercent, setRiskPercent] = useState(DEFAULT_RISK_PERCENT)
 
   // Load signals and stats
   useEffect(() => {
@@ -72,7 +101,7 @@ export function SignalsHistory() {
         setAvailableTimeframes(Array.from(timeframes))
 
         // Calculate stats
-        const signalStats = await calculateSignalStats(filters)
+        const signalStats = await calculateSignalStats(filters, pnlBasis, riskPercent)
         setStats(signalStats)
       } catch (error) {
         console.error("Error loading signals data:", error)
@@ -82,7 +111,7 @@ export function SignalsHistory() {
     }
 
     loadData()
-  }, [pairFilter, timeframeFilter, typeFilter, dateFrom, dateTo])
+  }, [pairFilter, timeframeFilter, typeFilter, dateFrom, dateTo, pnlBasis, riskPercent])
 
   // Format price with appropriate precision
   const formatPrice = (price: number) => {
@@ -95,6 +124,10 @@ export function SignalsHistory() {
     }
   }
 
+  // Check whether a signal made money on the selected basis
+  const isWin = (signal: TradingSignal) =>
+    signal.exitType !== "expired" && (getSignalPnl(signal, pnlBasis).profitLoss ?? 0) > 0
+
   // Format percentage
   const formatPercent = (value: number) => {
     return `${value.toFixed(2)}%`
@@ -109,6 +142,17 @@ export function SignalsHistory() {
     setDateTo(undefined)
   }
 
+  // Build the export link for the current filters
+  const getExportHref = (format: ExportFormat, table: "completed" | "generated") => {
+    const params = new URLSearchParams({ format, table })
+    if (pairFilter !== "all") params.append("pair", pairFilter)
+    if (timeframeFilter !== "all") params.append("timeframe", timeframeFilter)
+    if (typeFilter !== "all") params.append("signalType", typeFilter)
+    if (dateFrom) params.append("dateFrom", dateFrom.toISOString())
+    if (dateTo) params.append("dateTo", dateTo.toISOString())
+    return `/api/signals/export?${params.toString()}`
+  }
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -121,6 +165,11 @@ export function SignalsHistory() {
           </Link>
           <h1 className="text-2xl font-bold">Signal History & Statistics</h1>
         </div>
+        <Link href="/backtest">
+          <Button variant="outline" size="sm">
+            Backtest Strategies
+          </Button>
+        </Link>
       </div>
 
       <Tabs value={activeTab} onValueChange={setActiveTab}>
@@ -140,9 +189,56 @@ export function SignalsHistory() {
           <CardHeader className="pb-2">
             <div className="flex items-center justify-between">
               <CardTitle className="text-base">Filters</CardTitle>
-              <Button variant="ghost" size="sm" onClick={resetFilters}>
-                Reset
-              </Button>
+              <div className="flex items-center gap-2">
+                <div className="flex rounded-md border border-border p-0.5">
+                  <Button
+                    variant={pnlBasis === "net" ? "secondary" : "ghost"}
+                    size="sm"
+                    className="h-7"
+                    onClick={() => setPnlBasis("net")}
+                  >
+                    Net
+                  </Button>
+                  <Button
+                    variant={pnlBasis === "gross" ? "secondary" : "ghost"}
+                    size="sm"
+                    className="h-7"
+                    onClick={() => setPnlBasis("gross")}
+                  >
+                    Gross
+                  </Button>
+                </div>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="outline" size="sm" className="gap-1">
+                      <Download className="h-4 w-4" />
+                      Export
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuLabel>Completed signals</DropdownMenuLabel>
+                    {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((format) => (
+                      <DropdownMenuItem key={`completed-${format}`} asChild>
+                        <a href={getExportHref(format, "completed")} download>
+                          {EXPORT_FORMATS[format].label}
+                        </a>
+                      </DropdownMenuItem>
+                    ))}
+                    <DropdownMenuSeparator />
+                    <DropdownMenuLabel>All generated signals</DropdownMenuLabel>
+                    {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((format) => (
+                      <DropdownMenuItem key={`generated-${format}`} asChild>
+                        <a href={getExportHref(format, "generated")} download>
+                          {EXPORT_FORMATS[format].label}
+                        </a>
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+                <Button variant="ghost" size="sm" onClick={resetFilters}>
+                  Reset
+                </Button>
+              </div>
             </div>
           </CardHeader>
           <CardContent>
@@ -219,65 +315,109 @@ export function SignalsHistory() {
                 </div>
               ) : signals.length > 0 ? (
                 <div className="space-y-4">
-                  {signals.map((signal) => (
-                    <div key={signal.id} className="rounded-lg border border-border p-3">
-                      <div className="flex items-center justify-between">
-                        <div className="flex items-center gap-2">
-                          {signal.type === "long" ? (
-                            <Badge variant="outline" className="bg-success/10 text-success">
-                              <ArrowUp className="mr-1 h-3 w-3" /> LONG
-                            </Badge>
-                          ) : (
-                            <Badge variant="outline" className="bg-destructive/10 text-destructive">
-                              <ArrowDown className="mr-1 h-3 w-3" /> SHORT
-                            </Badge>
-                          )}
-                          <span className="font-medium">{signal.pair}</span>
-                          <Badge variant="secondary">{signal.timeframe}</Badge>
-                          <Badge variant="outline">{signal.source}</Badge>
+                  {signals.map((signal) => {
+                    const { profitLoss, profitLossPercent } = getSignalPnl(signal, pnlBasis)
+                    const costs = signal.costs ? signal.costs.fees + signal.costs.slippage + signal.costs.funding : 0
+
+                    return (
+                      <div key={signal.id} className="rounded-lg border border-border p-3">
+                        <div className="flex items-center justify-between">
+                          <div className="flex items-center gap-2">
+                            {signal.type === "long" ? (
+                              <Badge variant="outline" className="bg-success/10 text-success">
+                                <ArrowUp className="mr-1 h-3 w-3" /> LONG
+                              </Badge>
+                            ) : (
+                              <Badge variant="outline" className="bg-destructive/10 text-destructive">
+                                <ArrowDown className="mr-1 h-3 w-3" /> SHORT
+                              </Badge>
+                            )}
+                            <span className="font-medium">{signal.pair}</span>
+                            <Badge variant="secondary">{signal.timeframe}</Badge>
+                            <Badge variant="outline">{signal.source}</Badge>
+                          </div>
+                          <Badge variant={profitLoss && profitLoss > 0 ? "success" : "destructive"}>
+                            {profitLossPercent && profitLossPercent > 0 ? "+" : ""}
+                            {profitLossPercent?.toFixed(2)}%
+                          </Badge>
                         </div>
-                        <Badge variant={signal.profitLoss && signal.profitLoss > 0 ? "success" : "destructive"}>
-                          {signal.profitLossPercent && signal.profitLossPercent > 0 ? "+" : ""}
-                          {signal.profitLossPercent?.toFixed(2)}%
-                        </Badge>
-                      </div>
 
-                      <div className="mt-3 grid grid-cols-3 gap-2">
-                        <div className="rounded bg-background/50 p-2">
-                          <div className="text-xs text-muted-foreground">Entry</div>
-                          <div className="font-medium">${formatPrice(signal.entry)}</div>
-                        </div>
-                        <div className="rounded bg-background/50 p-2">
-                          <div className="text-xs text-muted-foreground">Exit</div>
-                          <div className="font-medium">${formatPrice(signal.exitPrice || 0)}</div>
-                        </div>
-                        <div className="rounded bg-background/50 p-2">
-                          <div className="text-xs text-muted-foreground">Exit Type</div>
-                          <div className="font-medium capitalize">
-                            {signal.exitType === "tp"
-                              ? "Take Profit"
-                              : signal.exitType === "sl"
-                                ? "Stop Loss"
-                                : "Manual"}
+                        <div className="mt-3 grid grid-cols-3 gap-2">
+                          <div className="rounded bg-background/50 p-2">
+                            <div className="text-xs text-muted-foreground">Entry</div>
+                            <div className="font-medium">${formatPrice(signal.entry)}</div>
+                          </div>
+                          <div className="rounded bg-background/50 p-2">
+                            <div className="text-xs text-muted-foreground">
+                              {signal.targetFills && signal.targetFills.length > 0 ? "Blended Exit" : "Exit"}
+                            </div>
+                            <div className="font-medium">${formatPrice(signal.exitPrice || 0)}</div>
+                            {signal.maeR !== undefined && signal.mfeR !== undefined && (
+                              <div className="text-xs text-muted-foreground">
+                                MAE {signal.maeR.toFixed(2)}R · MFE {signal.mfeR.toFixed(2)}R
+                              </div>
+                            )}
+                          </div>
+                          <div className="rounded bg-background/50 p-2">
+                            <div className="text-xs text-muted-foreground">Exit Type</div>
+                            <div className="font-medium capitalize">
+                              {signal.exitType === "tp"
+                                ? "Take Profit"
+                                : signal.exitType === "sl"
+                                  ? "Stop Loss"
+                                  : signal.exitType === "trailing_sl"
+                                    ? "Trailing Stop"
+                                    : signal.exitType === "time_stop"
+                                      ? "Time Stop"
+                                      : signal.exitType === "expired"
+                                        ? "Expired Before Entry"
+                                        : "Manual"}
+                            </div>
+                            {signal.resolutionMethod && (
+                              <div className="text-xs text-muted-foreground">via {signal.resolutionMethod}</div>
+                            )}
+                            {signal.takeProfitLevels && signal.takeProfitLevels.length > 1 && (
+                              <div className="text-xs text-muted-foreground">
+                                {signal.targetFills?.length ?? 0}/{signal.takeProfitLevels.length} targets hit
+                              </div>
+                            )}
                           </div>
                         </div>
-                      </div>
 
-                      <div className="mt-3 flex items-center justify-between">
-                        <div className="text-xs text-muted-foreground">
-                          {signal.entryTime.toLocaleDateString()} - {signal.exitTime?.toLocaleDateString()}
-                        </div>
-                        <div className="text-sm">
-                          P&L:{" "}
-                          <span
-                            className={signal.profitLoss && signal.profitLoss > 0 ? "text-success" : "text-destructive"}
-                          >
-                            {signal.profitLoss && signal.profitLoss > 0 ? "+" : ""}${signal.profitLoss?.toFixed(2)}
-                          </span>
+                        <div className="mt-3 flex items-center justify-between">
+                          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                            {signal.entryTime.toLocaleDateString()} - {signal.exitTime?.toLocaleDateString()}
+                            {signal.id && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="h-6 px-2 text-xs"
+                                onClick={() => setTimelineSignalId(timelineSignalId === signal.id ? null : signal.id!)}
+                              >
+                                <History className="mr-1 h-3 w-3" />
+                                Timeline
+                              </Button>
+                            )}
+                          </div>
+                          <div className="text-sm">
+                            {pnlBasis === "net" && costs !== 0 && (
+                              <span className="mr-2 text-xs text-muted-foreground">Costs: ${costs.toFixed(2)}</span>
+                            )}
+                            {pnlBasis === "net" ? "Net" : "Gross"} P&L:{" "}
+                            <span className={profitLoss && profitLoss > 0 ? "text-success" : "text-destructive"}>
+                              {profitLoss && profitLoss > 0 ? "+" : ""}${profitLoss?.toFixed(2)}
+                            </span>
+                          </div>
                         </div>
+
+                        {timelineSignalId === signal.id && (
+                          <div className="mt-3 rounded bg-background/50 p-3">
+                            <SignalTimeline signalId={signal.id} />
+                          </div>
+                        )}
                       </div>
-                    </div>
-                  ))}
+                    )
+                  })}
                 </div>
               ) : (
                 <div className="text-center py-8">
@@ -293,7 +433,7 @@ export function SignalsHistory() {
             <Card>
               <CardHeader>
                 <CardTitle>Performance Overview</CardTitle>
-                <CardDescription>Summary of your trading performance</CardDescription>
+                <CardDescription>Summary of your trading performance ({pnlBasis === "net" ? "after fees, slippage and funding" : "before costs"})</CardDescription>
               </CardHeader>
               <CardContent>
                 {isLoading ? (
@@ -358,7 +498,15 @@ export function SignalsHistory() {
                       <div className="space-y-2">
                         <div className="flex justify-between">
                           <span className="text-sm">Total Trades</span>
-                          <span className="text-sm font-medium">{stats.totalSignals}</span>
+                          <span className="text-sm font-medium">{stats.totalSignals - stats.expiredSignals}</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-sm">Expired Before Entry</span>
+                          <span className="text-sm font-medium">{stats.expiredSignals}</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-sm">Time Stops</span>
+                          <span className="text-sm font-medium">{stats.timeStopExits}</span>
                         </div>
                         <div className="flex justify-between">
                           <span className="text-sm">Average Win</span>
@@ -422,7 +570,7 @@ export function SignalsHistory() {
                     {/* Exit Type Breakdown */}
                     <div className="space-y-2">
                       <h3 className="text-sm font-medium">Exit Types</h3>
-                      <div className="grid grid-cols-3 gap-2">
+                      <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
                         <div className="bg-[#121826] p-3 rounded-lg text-center">
                           <div className="text-xs text-muted-foreground">Take Profit</div>
                           <div className="text-lg font-bold text-success">
@@ -441,6 +589,39 @@ export function SignalsHistory() {
                             {formatPercent((signals.filter((s) => s.exitType === "sl").length / signals.length) * 100)}
                           </div>
                         </div>
+                        <div className="bg-[#121826] p-3 rounded-lg text-center">
+                          <div className="text-xs text-muted-foreground">Trailing Stop</div>
+                          <div className="text-lg font-bold">
+                            {signals.filter((s) => s.exitType === "trailing_sl").length}
+                          </div>
+                          <div className="text-xs text-muted-foreground">
+                            {formatPercent(
+                              (signals.filter((s) => s.exitType === "trailing_sl").length / signals.length) * 100,
+                            )}
+                          </div>
+                        </div>
+                        <div className="bg-[#121826] p-3 rounded-lg text-center">
+                          <div className="text-xs text-muted-foreground">Time Stop</div>
+                          <div className="text-lg font-bold">
+                            {signals.filter((s) => s.exitType === "time_stop").length}
+                          </div>
+                          <div className="text-xs text-muted-foreground">
+                            {formatPercent(
+                              (signals.filter((s) => s.exitType === "time_stop").length / signals.length) * 100,
+                            )}
+                          </div>
+                        </div>
+                        <div className="bg-[#121826] p-3 rounded-lg text-center">
+                          <div className="text-xs text-muted-foreground">Expired Before Entry</div>
+                          <div className="text-lg font-bold text-muted-foreground">
+                            {signals.filter((s) => s.exitType === "expired").length}
+                          </div>
+                          <div className="text-xs text-muted-foreground">
+                            {formatPercent(
+                              (signals.filter((s) => s.exitType === "expired").length / signals.length) * 100,
+                            )}
+                          </div>
+                        </div>
                         <div className="bg-[#121826] p-3 rounded-lg text-center">
                           <div className="text-xs text-muted-foreground">Manual</div>
                           <div className="text-lg font-bold">
@@ -453,6 +634,12 @@ export function SignalsHistory() {
                           </div>
                         </div>
                       </div>
+                      {stats.partialTargetExits > 0 && (
+                        <div className="text-xs text-muted-foreground">
+                          {stats.partialTargetExits} stopped out after partial take profits, {stats.partialWins} of them
+                          still in profit and counted as wins
+                        </div>
+                      )}
                     </div>
 
                     {/* Signal Type Breakdown */}
@@ -470,7 +657,7 @@ export function SignalsHistory() {
                           <div className="text-xs text-muted-foreground mt-1">
                             Win Rate:{" "}
                             {formatPercent(
-                              (signals.filter((s) => s.type === "long" && s.profitLoss && s.profitLoss > 0).length /
+                              (signals.filter((s) => s.type === "long" && isWin(s)).length /
                                 Math.max(1, signals.filter((s) => s.type === "long").length)) *
                                 100,
                             )}
@@ -489,7 +676,7 @@ export function SignalsHistory() {
                           <div className="text-xs text-muted-foreground mt-1">
                             Win Rate:{" "}
                             {formatPercent(
-                              (signals.filter((s) => s.type === "short" && s.profitLoss && s.profitLoss > 0).length /
+                              (signals.filter((s) => s.type === "short" && isWin(s)).length /
                                 Math.max(1, signals.filter((s) => s.type === "short").length)) *
                                 100,
                             )}
@@ -505,7 +692,7 @@ export function SignalsHistory() {
                         <div className="space-y-1">
                           {availableTimeframes.map((tf) => {
                             const tfSignals = signals.filter((s) => s.timeframe === tf)
-                            const winCount = tfSignals.filter((s) => s.profitLoss && s.profitLoss > 0).length
+                            const winCount = tfSignals.filter(isWin).length
                             const winRate = (winCount / Math.max(1, tfSignals.length)) * 100
 
                             return (
@@ -532,6 +719,116 @@ export function SignalsHistory() {
                 )}
               </CardContent>
             </Card>
+
+            <Card className="md:col-span-2">
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <CardTitle>Equity Curve</CardTitle>
+                    <CardDescription>Account growth and drawdown over time, in the order signals closed</CardDescription>
+                  </div>
+                  <Select value={String(riskPercent)} onValueChange={(value) => setRiskPercent(Number(value))}>
+                    <SelectTrigger className="w-[140px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {RISK_PERCENT_OPTIONS.map((option) => (
+                        <SelectItem key={option} value={String(option)}>
+                          {option}% risk
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </CardHeader>
+              <CardContent>
+                {isLoading ? (
+                  <div className="flex justify-center py-8">
+                    <div className="animate-spin h-8 w-8 border-4 border-primary border-t-transparent rounded-full"></div>
+                  </div>
+                ) : stats ? (
+                  <EquityCurveChart metrics={stats} />
+                ) : (
+                  <div className="text-center py-8">
+                    <p className="text-muted-foreground">No statistics available</p>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card className="md:col-span-2">
+              <CardHeader>
+                <CardTitle>Monte Carlo Simulation</CardTitle>
+                <CardDescription>
+                  Final equity and drawdown over resampled orderings of the same trades, at the risk of the equity curve
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {isLoading ? (
+                  <div className="flex justify-center py-8">
+                    <div className="animate-spin h-8 w-8 border-4 border-primary border-t-transparent rounded-full"></div>
+                  </div>
+                ) : (
+                  <MonteCarloPanel signals={signals} pnlBasis={pnlBasis} riskPercent={riskPercent} />
+                )}
+              </CardContent>
+            </Card>
+
+            <Card className="md:col-span-2">
+              <CardHeader>
+                <CardTitle>Performance Breakdown by Dimension</CardTitle>
+                <CardDescription>
+                  Completed signals grouped by the selected dimensions, outcomes in R multiples of the initial risk
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <SignalBreakdownGrid
+                  pnlBasis={pnlBasis}
+                  pair={pairFilter !== "all" ? pairFilter : undefined}
+                  timeframe={timeframeFilter !== "all" ? timeframeFilter : undefined}
+                  signalType={typeFilter !== "all" ? typeFilter : undefined}
+                  dateFrom={dateFrom}
+                  dateTo={dateTo}
+                />
+              </CardContent>
+            </Card>
+
+            <Card className="md:col-span-2">
+              <CardHeader>
+                <CardTitle>Probability Calibration</CardTitle>
+                <CardDescription>
+                  Seasonality probability stored on each signal against how often signals in its range won
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <CalibrationDiagram
+                  pnlBasis={pnlBasis}
+                  pair={pairFilter !== "all" ? pairFilter : undefined}
+                  timeframe={timeframeFilter !== "all" ? timeframeFilter : undefined}
+                  signalType={typeFilter !== "all" ? typeFilter : undefined}
+                  dateFrom={dateFrom}
+                  dateTo={dateTo}
+                />
+              </CardContent>
+            </Card>
+
+            <Card className="md:col-span-2">
+              <CardHeader>
+                <CardTitle>Excursion Analysis</CardTitle>
+                <CardDescription>
+                  Maximum adverse (MAE) and favorable (MFE) excursion against the final outcome, in R multiples
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {isLoading ? (
+                  <div className="flex justify-center py-8">
+                    <div className="animate-spin h-8 w-8 border-4 border-primary border-t-transparent rounded-full"></div>
+                  </div>
+                ) : (
+                  <ExcursionScatter signals={signals} pnlBasis={pnlBasis} />
+                )}
+              </CardContent>
+            </Card>
           </div>
         </TabsContent>
       </Tabs>
@@ -3,11 +3,15 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { useLiquidation } from "@/context/liquidation-context"
-import { ArrowDown, ArrowUp, AlertTriangle, Target, CheckCircle2, Clock, Activity, RefreshCw } from "lucide-react"
+import { ArrowDown, ArrowUp, AlertTriangle, Ban, Target, CheckCircle2, Clock, Activity, RefreshCw } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
-import { useEffect, useState } from "react"
+import { useEffect, useMemo, useState } from "react"
 import Link from "next/link"
+import { formatTargetLadder, type TakeProfitTarget, type TargetFill } from "@/lib/take-profit-targets"
+import type { SignalConfluence } from "@/lib/signal-confluence"
+import { INVALIDATION_REASON_LABELS, type InvalidationReason } from "@/lib/signal-invalidation"
+import { FibonacciVisualization, type FibonacciSignalLevels } from "@/components/fibonacci-visualization"
 
 interface FibSignal {
   signal_id: string
@@ -15,6 +19,9 @@ interface FibSignal {
   entry_price: number
   stop_loss: number
   take_profit: number
+  // Take-profit ladder (take_profit is its last target) and the targets already reached
+  take_profit_levels?: TakeProfitTarget[] | null
+  take_profit_fills?: TargetFill[] | null
   pair: string
   timeframe: string
   signal_source: string
@@ -22,25 +29,79 @@ interface FibSignal {
   peak_price?: number
   peak_time?: Date | string
   fib_levels?: any
+  entry_retracement?: number
+  confluence?: SignalConfluence
   risk_reward_ratio: number
   seasonality: "bullish" | "bearish" | "neutral"
   positive_probability: number
-  status: "waiting" | "active" | "completed" | "expired"
+  status: "waiting" | "active" | "completed" | "expired" | "invalidated"
   entry_hit: boolean
   entry_hit_time?: Date | string
   exit_price?: number
   exit_time?: Date | string
-  exit_type?: "tp" | "sl" | "manual" | "expired"
+  exit_type?: "tp" | "sl" | "trailing_sl" | "time_stop" | "manual" | "expired"
+  // Stop moved by breakeven or trailing rules, stop_loss stays the original
+  current_stop_loss?: number | null
+  stop_rule?: string | null
+  // Why and when a waiting signal was voided by a structure break
+  invalidation_reason?: InvalidationReason | null
+  invalidated_at?: Date | string | null
   created_at: Date | string
   updated_at: Date | string
 }
 
+// Function to check whether a Fibonacci level was used for the signal's entry
+function isEntryLevel(signal: FibSignal, level: number) {
+  return signal.entry_retracement === level
+}
+
+// Function to build the calculator link with the levels the signal actually used
+function getCalculatorHref(signal: FibSignal) {
+  const params = new URLSearchParams({
+    entry: String(signal.entry_price),
+    tp: String(signal.take_profit),
+    sl: String(signal.stop_loss),
+    signal: "Fibonacci",
+    type: signal.signal_type,
+    timeframe: signal.timeframe,
+  })
+
+  if (signal.major_level) params.append("major", String(signal.major_level))
+  if (signal.peak_price) params.append("peak", String(signal.peak_price))
+  if (signal.entry_retracement !== undefined && signal.entry_retracement !== null) {
+    params.append("fib", String(signal.entry_retracement))
+  }
+  if (signal.take_profit_levels && signal.take_profit_levels.length > 0) {
+    params.append("targets", formatTargetLadder(signal.take_profit_levels))
+  }
+
+  return `/calculator?${params.toString()}`
+}
+
 export function SignalsPanel() {
   const { selectedPair, timeframe, currentPrice } = useLiquidation()
   const [fibSignal, setFibSignal] = useState<FibSignal | null>(null)
   const [isLoading, setIsLoading] = useState<boolean>(false)
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null)
 
+  // Levels the signal actually used, for the chart
+  const chartLevels = useMemo<FibonacciSignalLevels | null>(() => {
+    if (!fibSignal?.major_level || !fibSignal.peak_price) return null
+    return {
+      signalType: fibSignal.signal_type,
+      majorLevel: fibSignal.major_level,
+      peakPrice: fibSignal.peak_price,
+      peakTime: fibSignal.peak_time ? new Date(fibSignal.peak_time).getTime() / 1000 : undefined,
+      entryPrice: fibSignal.entry_price,
+      stopLoss: fibSignal.stop_loss,
+      takeProfit: fibSignal.take_profit,
+      entryLevels:
+        fibSignal.entry_retracement !== undefined && fibSignal.entry_retracement !== null
+          ? [fibSignal.entry_retracement]
+          : [],
+    }
+  }, [fibSignal])
+
   // Function to fetch signals from API
   const fetchSignals = async () => {
     try {
@@ -58,7 +119,10 @@ export function SignalsPanel() {
         // Use the newest signal
         setFibSignal(data.data[0])
       } else {
-        setFibSignal(null)
+        // Keep showing the newest signal if the checker invalidated it, so the reason stays visible
+        const latestResponse = await fetch(`/api/signals?pair=${selectedPair}&timeframe=${timeframe}&status=all&limit=1`)
+        const latest = latestResponse.ok ? await latestResponse.json() : null
+        setFibSignal(latest?.data?.[0]?.status === "invalidated" ? latest.data[0] : null)
       }
 
       setLastUpdated(new Date())
@@ -126,7 +190,18 @@ export function SignalsPanel() {
             }`}
           >
             <CheckCircle2 className="h-3 w-3" />
-            <span>{fibSignal.exit_type === "tp" ? "Take Profit Hit" : "Stop Loss Hit"}</span>
+            <span>
+              {fibSignal.exit_type === "tp"
+                ? "Take Profit Hit"
+                : fibSignal.exit_type === "trailing_sl"
+                  ? "Trailing Stop Hit"
+                  : fibSignal.exit_type === "time_stop"
+                    ? "Closed by Time Stop"
+                    : "Stop Loss Hit"}
+              {fibSignal.exit_type !== "tp" && fibSignal.take_profit_fills && fibSignal.take_profit_fills.length > 0
+                ? ` after ${fibSignal.take_profit_fills.length} target${fibSignal.take_profit_fills.length > 1 ? "s" : ""}`
+                : ""}
+            </span>
           </Badge>
         )
       case "expired":
@@ -136,6 +211,13 @@ export function SignalsPanel() {
             <span>Signal Expired</span>
           </Badge>
         )
+      case "invalidated":
+        return (
+          <Badge variant="outline" className="bg-destructive/10 text-destructive flex items-center gap-1">
+            <Ban className="h-3 w-3" />
+            <span>Invalidated</span>
+          </Badge>
+        )
       default:
         return null
     }
@@ -225,9 +307,24 @@ export function SignalsPanel() {
                 </Badge>
               </div>
 
+              {fibSignal.status === "invalidated" && (
+                <div className="mt-3 rounded bg-destructive/10 p-2 text-xs text-destructive">
+                  {fibSignal.invalidation_reason
+                    ? INVALIDATION_REASON_LABELS[fibSignal.invalidation_reason] ?? fibSignal.invalidation_reason
+                    : "Structure broke"}{" "}
+                  before the entry filled
+                  {fibSignal.invalidated_at && ` (${new Date(fibSignal.invalidated_at).toLocaleString()})`}
+                </div>
+              )}
+
               <div className="mt-3 grid grid-cols-2 gap-2">
                 <div className={`rounded p-2 ${fibSignal.status === "waiting" ? "bg-primary/10" : "bg-background/50"}`}>
-                  <div className="text-xs text-muted-foreground">Entry (61.8%)</div>
+                  <div className="text-xs text-muted-foreground">
+                    Entry
+                    {fibSignal.entry_retracement !== undefined && fibSignal.entry_retracement !== null
+                      ? ` (${fibSignal.entry_retracement}%)`
+                      : ""}
+                  </div>
                   <div className="font-medium">${formatPrice(fibSignal.entry_price)}</div>
                   {fibSignal.status === "waiting" && (
                     <div className="text-xs text-primary mt-1">Waiting for price to hit this level</div>
@@ -241,14 +338,36 @@ export function SignalsPanel() {
                 <div className="rounded bg-background/50 p-2">
                   <div className="text-xs text-muted-foreground">Stop Loss</div>
                   <div className="font-medium text-destructive">${formatPrice(fibSignal.stop_loss)}</div>
+                  {fibSignal.current_stop_loss != null && fibSignal.current_stop_loss !== fibSignal.stop_loss && (
+                    <div className="text-xs text-muted-foreground mt-1">
+                      Now ${formatPrice(fibSignal.current_stop_loss)}
+                      {fibSignal.stop_rule ? ` (${fibSignal.stop_rule})` : ""}
+                    </div>
+                  )}
                 </div>
                 <div className="rounded bg-background/50 p-2">
                   <div className="text-xs text-muted-foreground">Take Profit</div>
-                  <div className="font-medium text-success">${formatPrice(fibSignal.take_profit)}</div>
+                  {fibSignal.take_profit_levels && fibSignal.take_profit_levels.length > 0 ? (
+                    fibSignal.take_profit_levels.map((target, index) => {
+                      const filled = fibSignal.take_profit_fills?.some((fill) => fill.index === index)
+                      return (
+                        <div key={index} className="flex justify-between gap-2 text-sm">
+                          <span className={`font-medium text-success ${filled ? "line-through opacity-60" : ""}`}>
+                            ${formatPrice(target.price)}
+                          </span>
+                          <span className="text-xs text-muted-foreground">
+                            {target.label} · {(target.weight * 100).toFixed(0)}%
+                          </span>
+                        </div>
+                      )
+                    })
+                  ) : (
+                    <div className="font-medium text-success">${formatPrice(fibSignal.take_profit)}</div>
+                  )}
                 </div>
                 <div className="rounded bg-background/50 p-2">
                   <div className="text-xs text-muted-foreground">Risk/Reward</div>
-                  <div className="font-medium">1:{fibSignal.risk_reward_ratio}</div>
+                  <div className="font-medium">1:{Number(fibSignal.risk_reward_ratio.toFixed(2))}</div>
                 </div>
               </div>
 
@@ -260,7 +379,7 @@ export function SignalsPanel() {
                       fibSignal.fib_levels.map((level: any) => (
                         <div
                           key={level.level}
-                          className={`p-1 rounded ${level.level === 61.8 ? "bg-primary/20 font-medium" : "bg-background/30"}`}
+                          className={`p-1 rounded ${isEntryLevel(fibSignal, level.level) ? "bg-primary/20 font-medium" : "bg-background/30"}`}
                         >
                           {level.level}%: ${formatPrice(level.price)}
                         </div>
@@ -272,6 +391,41 @@ export function SignalsPanel() {
                 </div>
               )}
 
+              {chartLevels && (
+                <div className="mt-3 overflow-hidden rounded">
+                  <FibonacciVisualization signal={chartLevels} />
+                </div>
+              )}
+
+              {fibSignal.confluence && (
+                <div className="mt-3">
+                  <div className="flex items-center justify-between mb-1">
+                    <div className="text-xs text-muted-foreground">Higher Timeframe Confluence</div>
+                    <Badge
+                      variant={
+                        fibSignal.confluence.verdict === "confirmed"
+                          ? "outline"
+                          : fibSignal.confluence.verdict === "rejected"
+                            ? "destructive"
+                            : "secondary"
+                      }
+                      className={fibSignal.confluence.verdict === "confirmed" ? "bg-success/10 text-success" : undefined}
+                    >
+                      {fibSignal.confluence.verdict.charAt(0).toUpperCase() + fibSignal.confluence.verdict.slice(1)}
+                    </Badge>
+                  </div>
+                  <div className="grid grid-cols-2 gap-1 text-xs">
+                    {fibSignal.confluence.timeframes.map((tf) => (
+                      <div key={tf.timeframe} className={`p-1 rounded ${tf.agrees ? "bg-success/10" : "bg-destructive/10"}`}>
+                        {tf.timeframe}: {tf.bias}
+                        {tf.blockingLevels.length > 0 &&
+                          ` - ${tf.blockingLevels.map((level) => `${level.type} $${formatPrice(level.price)}`).join(", ")} before TP`}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               <div className="mt-3 flex items-center justify-between">
                 <div className="flex items-center gap-1 text-xs text-muted-foreground">
                   <AlertTriangle className="h-3 w-3 text-yellow-500" />
@@ -280,9 +434,7 @@ export function SignalsPanel() {
                     {formatPrice(fibSignal.major_level || 0)}
                   </span>
                 </div>
-                <Link
-                  href={`/calculator?entry=${fibSignal.entry_price}&tp=${fibSignal.take_profit}&sl=${fibSignal.stop_loss}&signal=Fibonacci&type=${fibSignal.signal_type}`}
-                >
+                <Link href={getCalculatorHref(fibSignal)}>
                   <Button variant="outline" size="sm">
                     Open in Calculator
                   </Button>
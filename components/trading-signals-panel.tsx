@@ -6,6 +6,7 @@ import { Badge } from "@/components/ui/badge"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { useToast } from "@/hooks/use-toast"
 import { Loader2 } from "lucide-react"
+import { INVALIDATION_REASON_LABELS, type InvalidationReason } from "@/lib/signal-invalidation"
 
 interface Signal {
   signal_id: string
@@ -22,6 +23,8 @@ interface Signal {
   positive_probability?: number
   entry_hit?: boolean
   entry_hit_time?: string
+  status?: string
+  invalidation_reason?: InvalidationReason | null
 }
 
 export function TradingSignalsPanel({ pair, timeframe }: { pair: string; timeframe: string }) {
@@ -40,7 +43,12 @@ export function TradingSignalsPanel({ pair, timeframe }: { pair: string; timefra
         }
 
         const data = await response.json()
-        setSignals(data.signals || [])
+
+        // Recently invalidated setups are listed after the open ones with their reason
+        const invalidatedResponse = await fetch(`/api/signals?pair=${pair}&timeframe=${timeframe}&status=invalidated&limit=3`)
+        const invalidated = invalidatedResponse.ok ? await invalidatedResponse.json() : null
+
+        setSignals([...(data.signals || []), ...(invalidated?.data || [])])
       } catch (error) {
         console.error("Error fetching signals:", error)
         toast({
@@ -172,6 +180,12 @@ function SignalCard({ signal }: { signal: Signal }) {
           </span>
         )}
         {signal.entry_hit && <Badge variant="secondary">Entry Hit</Badge>}
+        {signal.status === "invalidated" && (
+          <Badge variant="destructive">
+            Invalidated
+            {signal.invalidation_reason && `: ${INVALIDATION_REASON_LABELS[signal.invalidation_reason] ?? signal.invalidation_reason}`}
+          </Badge>
+        )}
       </div>
     </div>
   )
@@ -1,10 +1,18 @@
 "use client"
 
 import { useState, useEffect } from "react"
-import { getMonthlyAverages, getMonthlyPositiveProb, getMonthlyStats } from "@/lib/seasonality-cache"
+import {
+  getMonthlyAverages,
+  getMonthlyPositiveProb,
+  getMonthlyStats,
+  getPairMonthlyReturns,
+  getSeasonalityProfile,
+} from "@/lib/seasonality-cache"
+import { SEASONALITY_FALLBACK_PAIR, getInProgressMonthlyReturn } from "@/lib/asset-seasonality"
+import type { SeasonalityDimension, SeasonalityProfile } from "@/lib/intraday-seasonality"
 
 // Hook for monthly averages
-export function useMonthlyAverages() {
+export function useMonthlyAverages(pair?: string) {
   const [averages, setAverages] = useState<Record<number, number>>({})
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<Error | null>(null)
@@ -12,7 +20,8 @@ export function useMonthlyAverages() {
   useEffect(() => {
     async function fetchData() {
       try {
-        const data = await getMonthlyAverages()
+        setLoading(true)
+        const data = await getMonthlyAverages(pair)
         setAverages(data)
         setError(null)
       } catch (err) {
@@ -24,13 +33,13 @@ export function useMonthlyAverages() {
     }
 
     fetchData()
-  }, [])
+  }, [pair])
 
   return { averages, loading, error }
 }
 
 // Hook for monthly probabilities
-export function useMonthlyProbabilities() {
+export function useMonthlyProbabilities(pair?: string) {
   const [probabilities, setProbabilities] = useState<Record<number, number>>({})
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<Error | null>(null)
@@ -38,7 +47,8 @@ export function useMonthlyProbabilities() {
   useEffect(() => {
     async function fetchData() {
       try {
-        const data = await getMonthlyPositiveProb()
+        setLoading(true)
+        const data = await getMonthlyPositiveProb(pair)
         setProbabilities(data)
         setError(null)
       } catch (err) {
@@ -50,13 +60,13 @@ export function useMonthlyProbabilities() {
     }
 
     fetchData()
-  }, [])
+  }, [pair])
 
   return { probabilities, loading, error }
 }
 
 // Hook for monthly stats
-export function useMonthlyStats(month: number) {
+export function useMonthlyStats(month: number, pair?: string) {
   const [stats, setStats] = useState<any>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<Error | null>(null)
@@ -64,7 +74,8 @@ export function useMonthlyStats(month: number) {
   useEffect(() => {
     async function fetchData() {
       try {
-        const data = await getMonthlyStats(month)
+        setLoading(true)
+        const data = await getMonthlyStats(month, pair)
         setStats(data)
         setError(null)
       } catch (err) {
@@ -76,7 +87,75 @@ export function useMonthlyStats(month: number) {
     }
 
     fetchData()
-  }, [month])
+  }, [month, pair])
 
   return { stats, loading, error }
 }
+
+// Hook for hour-of-day, day-of-week or week-of-month profiles
+export function useSeasonalityProfile(dimension: SeasonalityDimension, pair?: string) {
+  const [profile, setProfile] = useState<SeasonalityProfile | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<Error | null>(null)
+
+  useEffect(() => {
+    async function fetchData() {
+      try {
+        setLoading(true)
+        const data = await getSeasonalityProfile(dimension, pair)
+        setProfile(data)
+        setError(null)
+      } catch (err) {
+        console.error(`Error fetching ${dimension} seasonality profile:`, err)
+        setError(err instanceof Error ? err : new Error("Unknown error"))
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchData()
+  }, [dimension, pair])
+
+  return { profile, loading, error }
+}
+
+// Hook for the pair whose history the seasonality is based on (differs from the pair on fallback)
+export function useSeasonalitySource(pair: string) {
+  const [source, setSource] = useState<string | null>(null)
+
+  useEffect(() => {
+    async function fetchData() {
+      try {
+        const data = await getPairMonthlyReturns(pair)
+        setSource(data.source)
+      } catch (err) {
+        console.error(`Error fetching seasonality source for ${pair}:`, err)
+        setSource(null)
+      }
+    }
+
+    fetchData()
+  }, [pair])
+
+  return source
+}
+
+// Hook for the return of the running month so far (not cached, it changes until the month closes)
+export function useInProgressMonth(pair: string = SEASONALITY_FALLBACK_PAIR) {
+  const [inProgress, setInProgress] = useState<{ year: number; month: number; returnPercent: number } | null>(null)
+
+  useEffect(() => {
+    async function fetchData() {
+      try {
+        setInProgress(await getInProgressMonthlyReturn(pair))
+      } catch (err) {
+        console.error(`Error fetching in-progress month for ${pair}:`, err)
+        setInProgress(null)
+      }
+    }
+
+    fetchData()
+  }, [pair])
+
+  return inProgress
+}
@@ -0,0 +1,411 @@
+// Per-pair monthly seasonality derived from stored daily candles
+
+import type { CandleData } from "./binance-api";
+import { getCandlesInRange } from "./candle-store";
+import { historicalMonthlyReturns } from "./seasonality-data";
+import { supabase } from "./supabase-client";
+import {
+  SEASONALITY_SIGNIFICANCE_LEVEL,
+  binomialPValue,
+  bootstrapInterval,
+  buildHistogram,
+  isSignificantProbability,
+  median,
+} from "./seasonality-statistics";
+
+// Pair whose series is used when another pair has too little history
+export const SEASONALITY_FALLBACK_PAIR = "BTCUSDT";
+
+// Completed years every calendar month needs before a pair gets its own seasonality
+export const MIN_SEASONALITY_YEARS = 2;
+
+// Candle timeframe monthly returns are derived from
+export const SEASONALITY_TIMEFRAME = "1d";
+
+// First halving year of the 4-year cycle (2012, 2016, 2020, 2024, ...)
+const FIRST_HALVING_YEAR = 2012;
+
+export const HALVING_CYCLE_LABELS = ["Halving year", "Post-halving year", "Mid-cycle year", "Pre-halving year"];
+
+// Earliest year loaded from the candle store (Binance spot history starts in 2017)
+const FIRST_CANDLE_YEAR = 2017;
+
+// Monthly returns in percent by month (0-11) and year
+export type MonthlyReturns = Record<number, Record<number, number>>;
+
+/**
+ * Monthly returns of a pair and where they came from
+ */
+export interface PairMonthlyReturns {
+  pair: string;
+  // Pair the returns were actually computed for (differs when falling back)
+  source: string;
+  returns: MonthlyReturns;
+}
+
+/**
+ * Stats of a month restricted to the years matching a condition
+ */
+export interface ConditionalSeasonalityStats {
+  condition: string;
+  samples: number;
+  averageReturn: number;
+  positiveProb: number;
+  isSignificant: boolean;
+}
+
+/**
+ * Detailed stats for one calendar month
+ */
+export interface MonthlySeasonalityStats {
+  positiveYears: number;
+  negativeYears: number;
+  averageReturn: number;
+  medianReturn: number;
+  bestYear: { year: number; return: number };
+  worstYear: { year: number; return: number };
+  returns: { year: number; return: number }[];
+  positiveProb: number;
+  // Bootstrap confidence intervals
+  averageReturnInterval: [number, number];
+  medianReturnInterval: [number, number];
+  positiveProbInterval: [number, number];
+  // Binomial test of the positive share against 50%
+  pValue: number;
+  isSignificant: boolean;
+  histogram: { from: number; to: number; count: number }[];
+  conditional: {
+    priorMonthNegative: ConditionalSeasonalityStats;
+    priorMonthPositive: ConditionalSeasonalityStats;
+    // Indexed by position in the halving cycle (see HALVING_CYCLE_LABELS)
+    halvingCycle: ConditionalSeasonalityStats[];
+  };
+}
+
+/**
+ * One calendar month aggregated from candles
+ */
+export interface MonthlyCandle {
+  year: number;
+  month: number; // 0-11
+  open: number;
+  close: number;
+  returnPercent: number;
+  // False for the month that is still running
+  isComplete: boolean;
+}
+
+/**
+ * Aggregate candles of any timeframe up to 1M (first open to last close per UTC month)
+ * @param candles Candles oldest first
+ * @param now Current time, the month containing it is marked incomplete
+ */
+export function aggregateMonthlyCandles(candles: CandleData[], now: Date = new Date()): MonthlyCandle[] {
+  const byMonth = new Map<string, { year: number; month: number; open: number; close: number }>();
+
+  for (const candle of candles) {
+    const date = new Date(candle.time * 1000);
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth();
+    const key = `${year}-${month}`;
+
+    const entry = byMonth.get(key);
+    if (entry) {
+      entry.close = candle.close;
+    } else {
+      byMonth.set(key, { year, month, open: candle.open, close: candle.close });
+    }
+  }
+
+  const currentYear = now.getUTCFullYear();
+  const currentMonth = now.getUTCMonth();
+
+  return Array.from(byMonth.values())
+    .filter(({ open }) => open > 0)
+    .map(({ year, month, open, close }) => ({
+      year,
+      month,
+      open,
+      close,
+      returnPercent: Number((((close - open) / open) * 100).toFixed(2)),
+      isComplete: year < currentYear || (year === currentYear && month < currentMonth),
+    }));
+}
+
+/**
+ * Derive monthly returns (first open to last close) from candles.
+ * The month that is still running is left out.
+ * @param candles Candles oldest first
+ * @param now Current time, months starting after it count as in progress
+ */
+export function calculateMonthlyReturnsFromCandles(candles: CandleData[], now: Date = new Date()): MonthlyReturns {
+  const returns: MonthlyReturns = {};
+
+  for (const { year, month, returnPercent, isComplete } of aggregateMonthlyCandles(candles, now)) {
+    if (!isComplete) continue;
+
+    returns[month] = returns[month] || {};
+    returns[month][year] = returnPercent;
+  }
+
+  return returns;
+}
+
+// Function to check that every calendar month has enough completed years
+export function hasEnoughSeasonalityHistory(returns: MonthlyReturns, minYears: number = MIN_SEASONALITY_YEARS): boolean {
+  for (let month = 0; month < 12; month++) {
+    if (!returns[month] || Object.keys(returns[month]).length < minYears) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Read the completed monthly returns of a pair from the monthly_returns table
+ * @param pair Trading pair symbol
+ */
+export async function getStoredMonthlyReturns(pair: string): Promise<MonthlyReturns> {
+  const returns: MonthlyReturns = {};
+  if (!supabase) return returns;
+
+  const { data, error } = await supabase
+    .from("monthly_returns")
+    .select("year, month, return_percent")
+    .eq("pair", pair)
+    .eq("is_complete", true);
+
+  if (error) {
+    console.error(`Error fetching monthly returns for ${pair}:`, error);
+    return returns;
+  }
+
+  for (const row of data || []) {
+    returns[row.month] = returns[row.month] || {};
+    returns[row.month][row.year] = Number(row.return_percent);
+  }
+
+  return returns;
+}
+
+/**
+ * Read the return of the month that is still running, if the refresh job has stored it
+ * @param pair Trading pair symbol
+ */
+export async function getInProgressMonthlyReturn(
+  pair: string
+): Promise<{ year: number; month: number; returnPercent: number } | null> {
+  if (!supabase) return null;
+
+  const now = new Date();
+  const { data, error } = await supabase
+    .from("monthly_returns")
+    .select("year, month, return_percent")
+    .eq("pair", pair)
+    .eq("year", now.getUTCFullYear())
+    .eq("month", now.getUTCMonth())
+    .eq("is_complete", false)
+    .maybeSingle();
+
+  if (error || !data) return null;
+
+  return { year: data.year, month: data.month, returnPercent: Number(data.return_percent) };
+}
+
+// Function to load daily candles for a pair, one year per query to stay under the row limit
+export async function loadDailyCandles(pair: string): Promise<CandleData[]> {
+  const candles: CandleData[] = [];
+  const currentYear = new Date().getUTCFullYear();
+
+  for (let year = FIRST_CANDLE_YEAR; year <= currentYear; year++) {
+    const yearCandles = await getCandlesInRange(
+      pair,
+      SEASONALITY_TIMEFRAME,
+      Date.UTC(year, 0, 1),
+      Date.UTC(year + 1, 0, 1) - 1
+    );
+    candles.push(...yearCandles);
+  }
+
+  return candles;
+}
+
+// Function to fill the months the candles don't cover with the bundled BTC returns, candle values win
+function mergeBundledReturns(returns: MonthlyReturns): MonthlyReturns {
+  const merged: MonthlyReturns = {};
+
+  for (let month = 0; month < 12; month++) {
+    merged[month] = { ...(historicalMonthlyReturns[month as keyof typeof historicalMonthlyReturns] || {}), ...(returns[month] || {}) };
+  }
+
+  return merged;
+}
+
+/**
+ * Compute monthly returns for a pair from stored candles, falling back to the
+ * BTC series when the pair does not have enough history yet.
+ * @param pair Trading pair symbol
+ */
+export async function loadPairMonthlyReturns(pair: string): Promise<PairMonthlyReturns> {
+  try {
+    // Returns maintained by the monthly refresh job
+    const storedReturns = await getStoredMonthlyReturns(pair);
+    if (hasEnoughSeasonalityHistory(storedReturns)) {
+      return { pair, source: pair, returns: storedReturns };
+    }
+
+    // Derive them directly from daily candles if the job hasn't run yet
+    const candles = await loadDailyCandles(pair);
+    const candleReturns = calculateMonthlyReturnsFromCandles(candles);
+    // The candle store only reaches back a few years, keep the bundled BTC history like the refresh job seeds it
+    const returns = pair === SEASONALITY_FALLBACK_PAIR ? mergeBundledReturns(candleReturns) : candleReturns;
+
+    if (hasEnoughSeasonalityHistory(returns)) {
+      return { pair, source: pair, returns };
+    }
+
+    console.log(`Not enough ${SEASONALITY_TIMEFRAME} history for ${pair} seasonality, falling back to ${SEASONALITY_FALLBACK_PAIR}`);
+
+    if (pair !== SEASONALITY_FALLBACK_PAIR) {
+      const fallbackReturns = await getStoredMonthlyReturns(SEASONALITY_FALLBACK_PAIR);
+      if (hasEnoughSeasonalityHistory(fallbackReturns)) {
+        return { pair, source: SEASONALITY_FALLBACK_PAIR, returns: fallbackReturns };
+      }
+    }
+  } catch (error) {
+    console.error(`Error computing seasonality for ${pair}:`, error);
+  }
+
+  // The bundled series covers BTC from 2011 to 2024
+  return { pair, source: SEASONALITY_FALLBACK_PAIR, returns: historicalMonthlyReturns };
+}
+
+// Function to calculate the average return of every month
+export function calculateAveragesFromReturns(returns: MonthlyReturns): Record<number, number> {
+  const averages: Record<number, number> = {};
+
+  for (let month = 0; month < 12; month++) {
+    const values = Object.values(returns[month] || {});
+    if (values.length === 0) continue;
+    averages[month] = values.reduce((sum, ret) => sum + ret, 0) / values.length;
+  }
+
+  return averages;
+}
+
+// Function to calculate the share of positive years of every month
+export function calculatePositiveProbFromReturns(returns: MonthlyReturns): Record<number, number> {
+  const probabilities: Record<number, number> = {};
+
+  for (let month = 0; month < 12; month++) {
+    const values = Object.values(returns[month] || {});
+    if (values.length === 0) continue;
+    probabilities[month] = (values.filter((ret) => ret > 0).length / values.length) * 100;
+  }
+
+  return probabilities;
+}
+
+// Function to get the position of a year in the 4-year halving cycle (0 = halving year)
+export function getHalvingCycleYear(year: number): number {
+  return (((year - FIRST_HALVING_YEAR) % 4) + 4) % 4;
+}
+
+// Function to get the return of the month before, crossing into the previous year for January
+export function getPriorMonthReturn(returns: MonthlyReturns, month: number, year: number): number | undefined {
+  return month === 0 ? returns[11]?.[year - 1] : returns[month - 1]?.[year];
+}
+
+// Function to summarize the years of a month that match a condition
+function calculateConditionalStats(condition: string, values: number[]): ConditionalSeasonalityStats {
+  const positive = values.filter((ret) => ret > 0).length;
+
+  return {
+    condition,
+    samples: values.length,
+    averageReturn: values.length > 0 ? values.reduce((sum, ret) => sum + ret, 0) / values.length : 0,
+    positiveProb: values.length > 0 ? (positive / values.length) * 100 : 0,
+    isSignificant: isSignificantProbability(positive, values.length),
+  };
+}
+
+// Function to calculate the detailed stats of one month
+export function calculateMonthlyStatsFromReturns(returns: MonthlyReturns, month: number): MonthlySeasonalityStats {
+  const yearly = Object.entries(returns[month] || {}).map(([year, ret]) => ({
+    year: Number.parseInt(year),
+    return: ret,
+  }));
+
+  if (yearly.length === 0) {
+    return {
+      positiveYears: 0,
+      negativeYears: 0,
+      averageReturn: 0,
+      medianReturn: 0,
+      bestYear: { year: 0, return: 0 },
+      worstYear: { year: 0, return: 0 },
+      returns: [],
+      positiveProb: 0,
+      averageReturnInterval: [0, 0],
+      medianReturnInterval: [0, 0],
+      positiveProbInterval: [0, 0],
+      pValue: 1,
+      isSignificant: false,
+      histogram: [],
+      conditional: {
+        priorMonthNegative: calculateConditionalStats("Prior month negative", []),
+        priorMonthPositive: calculateConditionalStats("Prior month positive", []),
+        halvingCycle: HALVING_CYCLE_LABELS.map((label) => calculateConditionalStats(label, [])),
+      },
+    };
+  }
+
+  // Sort returns for median calculation
+  const sortedReturns = [...yearly].sort((a, b) => a.return - b.return);
+  const values = yearly.map((r) => r.return);
+  const positiveYears = yearly.filter((r) => r.return > 0).length;
+
+  // Seed per month so the cached intervals don't change between recalculations
+  const seed = month + 1;
+  const mean = (sample: number[]) => sample.reduce((sum, ret) => sum + ret, 0) / sample.length;
+  const positiveShare = (sample: number[]) => (sample.filter((ret) => ret > 0).length / sample.length) * 100;
+
+  const withPriorMonth = yearly
+    .map((r) => ({ ...r, prior: getPriorMonthReturn(returns, month, r.year) }))
+    .filter((r) => r.prior !== undefined);
+
+  const pValue = binomialPValue(positiveYears, yearly.length);
+
+  return {
+    positiveYears,
+    negativeYears: yearly.length - positiveYears,
+    averageReturn: mean(values),
+    medianReturn: median(values),
+    bestYear: sortedReturns[sortedReturns.length - 1],
+    worstYear: sortedReturns[0],
+    returns: [...sortedReturns].reverse(), // Highest returns first
+    positiveProb: (positiveYears / yearly.length) * 100,
+    averageReturnInterval: bootstrapInterval(values, mean, seed),
+    medianReturnInterval: bootstrapInterval(values, median, seed),
+    positiveProbInterval: bootstrapInterval(values, positiveShare, seed),
+    pValue,
+    isSignificant: pValue < SEASONALITY_SIGNIFICANCE_LEVEL,
+    histogram: buildHistogram(values),
+    conditional: {
+      priorMonthNegative: calculateConditionalStats(
+        "Prior month negative",
+        withPriorMonth.filter((r) => (r.prior as number) < 0).map((r) => r.return)
+      ),
+      priorMonthPositive: calculateConditionalStats(
+        "Prior month positive",
+        withPriorMonth.filter((r) => (r.prior as number) >= 0).map((r) => r.return)
+      ),
+      halvingCycle: HALVING_CYCLE_LABELS.map((label, cycleYear) =>
+        calculateConditionalStats(
+          label,
+          yearly.filter((r) => getHalvingCycleYear(r.year) === cycleYear).map((r) => r.return)
+        )
+      ),
+    },
+  };
+}
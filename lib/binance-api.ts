@@ -854,15 +854,17 @@ export function createTickerWebSocket(
 }
 
 // Create a WebSocket connection for real-time kline updates
+// onConnect receives every socket opened, including reconnects, closing one with code 1000 stops the stream
 export function createKlineWebSocket(
   timeframe: string,
-  onMessage: (data: CandleData) => void,
+  onMessage: (data: CandleData, kline: { closed: boolean; eventTime: number }) => void,
   onError?: (error: Event) => void,
   symbol = "BTC",
+  onConnect?: (socket: WebSocket) => void,
 ): WebSocket | null {
-  // Check if we're in a browser environment
-  if (!isBrowser) {
-    console.log("WebSocket not created - not in browser environment");
+  // Check if WebSockets are available (browsers, or the signal monitor in Node.js)
+  if (!isBrowser && typeof WebSocket === "undefined") {
+    console.log("WebSocket not created - not available in this environment");
     return null;
   }
 
@@ -884,6 +886,7 @@ export function createKlineWebSocket(
       }
 
       socket = new WebSocket(`wss://fstream.binance.com/ws/${symbolPair}@kline_${interval}`);
+      onConnect?.(socket);
 
       socket.onopen = () => {
         console.log(`Kline WebSocket connected for ${symbol} ${interval} timeframe`);
@@ -903,7 +906,7 @@ export function createKlineWebSocket(
               close: Number.parseFloat(kline.c),
               volume: Number.parseFloat(kline.v),
             };
-            onMessage(candle);
+            onMessage(candle, { closed: Boolean(kline.x), eventTime: data.E });
           }
         } catch (error) {
           console.error("Error processing WebSocket message:", error);
@@ -929,6 +932,9 @@ export function createKlineWebSocket(
       socket.onclose = (event) => {
         console.log(`Kline WebSocket closed. Code: ${event.code}, Reason: ${event.reason}`);
 
+        // Closed on purpose
+        if (event.code === 1000) return;
+
         if (reconnectAttempts < maxReconnectAttempts) {
           reconnectAttempts++;
           const delay = Math.min(1000 * Math.pow(2, reconnectAttempts), 30000);
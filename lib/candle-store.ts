@@ -157,6 +157,36 @@ export async function getCandlesInRange(
   }));
 }
 
+// Most rows a single Supabase select returns
+const QUERY_ROW_LIMIT = 1000;
+
+/**
+ * Retrieves every candle in a date range, split into queries of at most
+ * QUERY_ROW_LIMIT candles so long ranges are not cut off at the row limit
+ * @param pair Trading pair symbol
+ * @param timeframe Timeframe to retrieve
+ * @param startTime Start time in milliseconds
+ * @param endTime End time in milliseconds
+ * @param candleMs Duration of one candle in milliseconds
+ */
+export async function getAllCandlesInRange(
+  pair: string,
+  timeframe: string,
+  startTime: number,
+  endTime: number,
+  candleMs: number
+): Promise<CandleData[]> {
+  const candles: CandleData[] = [];
+  const chunkMs = QUERY_ROW_LIMIT * candleMs;
+
+  for (let start = startTime; start <= endTime; start += chunkMs) {
+    const chunk = await getCandlesInRange(pair, timeframe, start, Math.min(start + chunkMs - 1, endTime));
+    candles.push(...chunk);
+  }
+
+  return candles;
+}
+
 /**
  * Gets most recent candle for a pair and timeframe
  */
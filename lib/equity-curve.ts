@@ -0,0 +1,183 @@
+// Equity curve of closed trades in time order, with drawdown, risk-adjusted returns and streaks
+
+/**
+ * A closed trade on the curve, its outcome in R multiples of the initial risk
+ */
+export interface EquityTrade {
+  time: number; // ms, exit of the trade
+  rMultiple: number;
+}
+
+/**
+ * The account after a trade, compounded at a fixed fraction of equity (fixed-fractional)
+ * and as plain R multiples (fixed-R)
+ */
+export interface EquityPoint {
+  time: number;
+  rMultiple: number;
+  // Return of the account so far (%) and the distance below its peak (%)
+  equityPercent: number;
+  drawdownPercent: number;
+  // Sum of R multiples so far and the distance below its peak (R)
+  equityR: number;
+  drawdownR: number;
+}
+
+export interface EquityMetrics {
+  // Share of equity risked per trade by the fixed-fractional curve (%)
+  riskPercent: number;
+  equityCurve: EquityPoint[];
+  totalReturnPercent: number;
+  totalR: number;
+  maxDrawdownPercent: number;
+  maxDrawdownR: number;
+  // Longest time (ms) the fixed-fractional equity spent below a previous peak, an open drawdown until the last trade
+  maxDrawdownDurationMs: number;
+  // Annualized, on daily returns of the fixed-fractional curve
+  sharpeRatio: number;
+  sortinoRatio: number;
+  longestWinStreak: number;
+  longestLossStreak: number;
+  // Total return over the maximum drawdown
+  recoveryFactor: number;
+}
+
+// Share of equity risked per trade when none is given (%)
+export const DEFAULT_RISK_PERCENT = 1;
+
+// Crypto trades every day of the year
+const PERIODS_PER_YEAR = 365;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Function to calculate the mean of a list of numbers
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+// Function to get the daily returns of a compounded curve, days without trades returning 0
+function getDailyReturns(curve: { time: number; equity: number }[]): number[] {
+  if (curve.length === 0) return [];
+
+  const firstDay = Math.floor(curve[0].time / DAY_MS);
+  const lastDay = Math.floor(curve[curve.length - 1].time / DAY_MS);
+  const closes = new Map<number, number>();
+  for (const point of curve) {
+    closes.set(Math.floor(point.time / DAY_MS), point.equity);
+  }
+
+  const returns: number[] = [];
+  let previous = 1;
+  for (let day = firstDay; day <= lastDay; day++) {
+    const close = closes.get(day) ?? previous;
+    returns.push(close / previous - 1);
+    previous = close;
+  }
+  return returns;
+}
+
+// Function to count the longest run of trades matching a condition
+function longestStreak(trades: EquityTrade[], matches: (trade: EquityTrade) => boolean): number {
+  let longest = 0;
+  let current = 0;
+  for (const trade of trades) {
+    current = matches(trade) ? current + 1 : 0;
+    longest = Math.max(longest, current);
+  }
+  return longest;
+}
+
+/**
+ * Build the equity curve of closed trades and the metrics read from it.
+ * The fixed-fractional curve risks riskPercent of the current equity on every
+ * trade, so a trade of r R changes equity by r * riskPercent %; the fixed-R curve
+ * adds up the R multiples. Sharpe and Sortino use daily returns of the
+ * fixed-fractional curve, annualized over 365 days, without a risk-free rate.
+ * @param trades Closed trades, in any order
+ * @param riskPercent Share of equity risked per trade (%)
+ */
+export function calculateEquityMetrics(trades: EquityTrade[], riskPercent = DEFAULT_RISK_PERCENT): EquityMetrics {
+  const ordered = [...trades].sort((a, b) => a.time - b.time);
+  const equityCurve: EquityPoint[] = [];
+  const compounded: { time: number; equity: number }[] = [];
+
+  let equity = 1;
+  let peak = 1;
+  let peakTime = ordered.length > 0 ? ordered[0].time : 0;
+  let equityR = 0;
+  let peakR = 0;
+  let maxDrawdownPercent = 0;
+  let maxDrawdownR = 0;
+  let maxDrawdownDurationMs = 0;
+
+  for (const trade of ordered) {
+    equity *= Math.max(0, 1 + (trade.rMultiple * riskPercent) / 100);
+    equityR += trade.rMultiple;
+
+    if (equity >= peak) {
+      maxDrawdownDurationMs = Math.max(maxDrawdownDurationMs, trade.time - peakTime);
+      peak = equity;
+      peakTime = trade.time;
+    }
+    peakR = Math.max(peakR, equityR);
+
+    const drawdownPercent = peak > 0 ? ((peak - equity) / peak) * 100 : 0;
+    const drawdownR = peakR - equityR;
+    maxDrawdownPercent = Math.max(maxDrawdownPercent, drawdownPercent);
+    maxDrawdownR = Math.max(maxDrawdownR, drawdownR);
+
+    equityCurve.push({
+      time: trade.time,
+      rMultiple: trade.rMultiple,
+      equityPercent: (equity - 1) * 100,
+      drawdownPercent,
+      equityR,
+      drawdownR,
+    });
+    compounded.push({ time: trade.time, equity });
+  }
+
+  // A drawdown still open at the last trade
+  if (ordered.length > 0 && equity < peak) {
+    maxDrawdownDurationMs = Math.max(maxDrawdownDurationMs, ordered[ordered.length - 1].time - peakTime);
+  }
+
+  const dailyReturns = getDailyReturns(compounded);
+  const averageReturn = mean(dailyReturns);
+  const deviation = Math.sqrt(
+    dailyReturns.reduce((sum, value) => sum + (value - averageReturn) ** 2, 0) / Math.max(1, dailyReturns.length - 1)
+  );
+  const downsideDeviation = Math.sqrt(mean(dailyReturns.map((value) => Math.min(0, value) ** 2)));
+  const annualize = Math.sqrt(PERIODS_PER_YEAR);
+
+  const sharpeRatio = dailyReturns.length > 1 && deviation > 0 ? (averageReturn / deviation) * annualize : 0;
+  const sortinoRatio =
+    downsideDeviation > 0
+      ? (averageReturn / downsideDeviation) * annualize
+      : averageReturn > 0
+        ? Number.POSITIVE_INFINITY
+        : 0;
+
+  const totalReturnPercent = (equity - 1) * 100;
+  const recoveryFactor =
+    maxDrawdownPercent > 0
+      ? totalReturnPercent / maxDrawdownPercent
+      : totalReturnPercent > 0
+        ? Number.POSITIVE_INFINITY
+        : 0;
+
+  return {
+    riskPercent,
+    equityCurve,
+    totalReturnPercent,
+    totalR: equityR,
+    maxDrawdownPercent,
+    maxDrawdownR,
+    maxDrawdownDurationMs,
+    sharpeRatio,
+    sortinoRatio,
+    longestWinStreak: longestStreak(ordered, (trade) => trade.rMultiple > 0),
+    longestLossStreak: longestStreak(ordered, (trade) => trade.rMultiple < 0),
+    recoveryFactor,
+  };
+}
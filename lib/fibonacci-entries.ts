@@ -0,0 +1,38 @@
+// Fibonacci retracement helpers shared by the signal strategies, the calculator and the chart.
+// Retracements are measured from the peak (0%) back to the major liquidity level (100%).
+
+// Convention of the levels stored in fib_levels, rows of version 1 counted from the major level
+export const FIB_LEVELS_VERSION = 2;
+
+export const FIB_RETRACEMENTS = [0, 23.6, 38.2, 50, 61.8, 78.6, 100];
+
+export interface FibLevel {
+  level: number;
+  price: number;
+}
+
+// Function to get the price at a retracement (may be beyond 100% for stops)
+export function fibRetracementPrice(
+  signalType: "long" | "short",
+  majorLevel: number,
+  peakPrice: number,
+  retracement: number
+): number {
+  const priceDiff = Math.abs(peakPrice - majorLevel);
+  return signalType === "long"
+    ? peakPrice - (priceDiff * retracement) / 100
+    : peakPrice + (priceDiff * retracement) / 100;
+}
+
+// Function to build the standard retracement levels between the peak and the major level
+export function buildFibLevels(
+  signalType: "long" | "short",
+  majorLevel: number,
+  peakPrice: number,
+  levels: number[] = FIB_RETRACEMENTS
+): FibLevel[] {
+  return levels.map((level) => ({
+    level,
+    price: fibRetracementPrice(signalType, majorLevel, peakPrice, level),
+  }));
+}
@@ -0,0 +1,265 @@
+// Hour-of-day, day-of-week and week-of-month return profiles derived from stored candles
+
+import type { CandleData } from "./binance-api";
+import { loadDailyCandles } from "./asset-seasonality";
+import { getCandlesInRange } from "./candle-store";
+import { median } from "./seasonality-statistics";
+
+// Calendar buckets a profile can be grouped by (all in UTC)
+export type SeasonalityDimension = "hour" | "weekday" | "weekOfMonth";
+
+export const SEASONALITY_DIMENSIONS: SeasonalityDimension[] = ["hour", "weekday", "weekOfMonth"];
+
+// Candle timeframe each dimension is built from
+export const PROFILE_TIMEFRAMES: Record<SeasonalityDimension, string> = {
+  hour: "1h",
+  weekday: "1d",
+  weekOfMonth: "1d",
+};
+
+// Hourly candles loaded for the hour-of-day profile
+export const HOURLY_PROFILE_LOOKBACK_DAYS = 365;
+const HOURLY_PROFILE_LOOKBACK_MS = HOURLY_PROFILE_LOOKBACK_DAYS * 24 * 60 * 60 * 1000;
+
+// Share of positive candles a bucket needs before it counts as bullish (or below 100 minus it as bearish)
+export const BUCKET_BIAS_THRESHOLD = 55;
+
+// Hourly candles per range query, stays below the database row limit
+const HOURLY_QUERY_CHUNK = 1000;
+
+export const WEEKDAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+/**
+ * Return stats of one bucket (an hour, weekday or week of the month)
+ */
+export interface SeasonalityBucketStats {
+  bucket: number;
+  label: string;
+  count: number;
+  averageReturn: number;
+  medianReturn: number;
+  positiveProb: number;
+  bestReturn: number;
+  worstReturn: number;
+  // Average return of the bucket in each calendar month, newest first (used for the drill-down)
+  byMonth: { month: string; averageReturn: number; count: number }[];
+}
+
+/**
+ * Return profile of a pair along one dimension
+ */
+export interface SeasonalityProfile {
+  pair: string;
+  dimension: SeasonalityDimension;
+  timeframe: string;
+  // Time range of the candles the profile was built from (ms)
+  from: number;
+  to: number;
+  buckets: SeasonalityBucketStats[];
+}
+
+/**
+ * Bias of the buckets a date falls into, used by the generator next to monthly seasonality
+ */
+export interface IntradayBias {
+  bias: "bullish" | "bearish" | "neutral";
+  buckets: Partial<Record<SeasonalityDimension, { label: string; positiveProb: number; averageReturn: number }>>;
+}
+
+// Function to get the bucket a timestamp (ms) falls into
+export function getBucket(dimension: SeasonalityDimension, time: number): number {
+  const date = new Date(time);
+  switch (dimension) {
+    case "hour":
+      return date.getUTCHours();
+    case "weekday":
+      return date.getUTCDay();
+    case "weekOfMonth":
+      return Math.floor((date.getUTCDate() - 1) / 7);
+  }
+}
+
+// Function to get the number of buckets of a dimension
+export function getBucketCount(dimension: SeasonalityDimension): number {
+  switch (dimension) {
+    case "hour":
+      return 24;
+    case "weekday":
+      return 7;
+    case "weekOfMonth":
+      return 5; // Days 29-31 form a short fifth week
+  }
+}
+
+// Function to get the display label of a bucket
+export function getBucketLabel(dimension: SeasonalityDimension, bucket: number): string {
+  switch (dimension) {
+    case "hour":
+      return `${String(bucket).padStart(2, "0")}:00`;
+    case "weekday":
+      return WEEKDAY_NAMES[bucket];
+    case "weekOfMonth":
+      return `Week ${bucket + 1}`;
+  }
+}
+
+/**
+ * Group candle returns (open to close, in percent) into calendar buckets
+ * @param candles Candles oldest first
+ * @param dimension Bucket to group by
+ */
+export function calculateBucketStats(candles: CandleData[], dimension: SeasonalityDimension): SeasonalityBucketStats[] {
+  const returnsByBucket: { time: number; ret: number }[][] = Array.from({ length: getBucketCount(dimension) }, () => []);
+
+  for (const candle of candles) {
+    if (candle.open <= 0) continue;
+    const time = candle.time * 1000;
+    returnsByBucket[getBucket(dimension, time)].push({ time, ret: ((candle.close - candle.open) / candle.open) * 100 });
+  }
+
+  return returnsByBucket.map((entries, bucket) => {
+    const label = getBucketLabel(dimension, bucket);
+    if (entries.length === 0) {
+      return { bucket, label, count: 0, averageReturn: 0, medianReturn: 0, positiveProb: 0, bestReturn: 0, worstReturn: 0, byMonth: [] };
+    }
+
+    const returns = entries.map((entry) => entry.ret);
+
+    // Break the bucket down by calendar month for the drill-down
+    const months = new Map<string, number[]>();
+    for (const { time, ret } of entries) {
+      const key = new Date(time).toISOString().slice(0, 7);
+      months.set(key, [...(months.get(key) || []), ret]);
+    }
+
+    return {
+      bucket,
+      label,
+      count: returns.length,
+      averageReturn: returns.reduce((sum, ret) => sum + ret, 0) / returns.length,
+      medianReturn: median(returns),
+      positiveProb: (returns.filter((ret) => ret > 0).length / returns.length) * 100,
+      bestReturn: Math.max(...returns),
+      worstReturn: Math.min(...returns),
+      byMonth: Array.from(months.entries())
+        .sort(([a], [b]) => b.localeCompare(a))
+        .map(([month, values]) => ({
+          month,
+          averageReturn: values.reduce((sum, ret) => sum + ret, 0) / values.length,
+          count: values.length,
+        })),
+    };
+  });
+}
+
+// Function to load hourly candles between two times in chunks
+async function loadHourlyCandles(pair: string, startTime: number, endTime: number): Promise<CandleData[]> {
+  const candles: CandleData[] = [];
+  const chunkMs = HOURLY_QUERY_CHUNK * 60 * 60 * 1000;
+
+  for (let start = startTime; start < endTime; start += chunkMs) {
+    const chunk = await getCandlesInRange(pair, PROFILE_TIMEFRAMES.hour, start, Math.min(start + chunkMs, endTime) - 1);
+    candles.push(...chunk);
+  }
+
+  return candles;
+}
+
+/**
+ * Load the stored candles the profiles of a dimension are built from
+ * @param pair Trading pair symbol
+ * @param dimension Bucket to group by
+ * @param from Earliest time (ms) a profile will be built for, hourly candles start a lookback before it
+ * @param to Latest time (ms) a profile will be built for
+ */
+export async function loadProfileCandles(
+  pair: string,
+  dimension: SeasonalityDimension,
+  from: number,
+  to: number
+): Promise<CandleData[]> {
+  return dimension === "hour"
+    ? loadHourlyCandles(pair, from - HOURLY_PROFILE_LOOKBACK_MS, to)
+    : loadDailyCandles(pair);
+}
+
+/**
+ * Build the return profile of a pair as it was at a point in time
+ * @param pair Trading pair symbol
+ * @param dimension Bucket to group by
+ * @param loaded Candles from loadProfileCandles, oldest first
+ * @param now Only candles that closed before this time (hourly ones within the lookback) are used
+ */
+export function buildSeasonalityProfile(
+  pair: string,
+  dimension: SeasonalityDimension,
+  loaded: CandleData[],
+  now: Date
+): SeasonalityProfile {
+  const timeframe = PROFILE_TIMEFRAMES[dimension];
+  const candleMs = timeframe === "1h" ? 60 * 60 * 1000 : 24 * 60 * 60 * 1000;
+  const start = dimension === "hour" ? now.getTime() - HOURLY_PROFILE_LOOKBACK_MS : 0;
+
+  const candles = loaded.filter(
+    (candle) => candle.time * 1000 >= start && candle.time * 1000 + candleMs <= now.getTime()
+  );
+
+  return {
+    pair,
+    dimension,
+    timeframe,
+    from: candles.length > 0 ? candles[0].time * 1000 : 0,
+    to: candles.length > 0 ? candles[candles.length - 1].time * 1000 + candleMs : 0,
+    buckets: calculateBucketStats(candles, dimension),
+  };
+}
+
+/**
+ * Build the return profile of a pair from stored ohlc_candles
+ * @param pair Trading pair symbol
+ * @param dimension Bucket to group by
+ * @param now Only candles that closed before this time are used
+ */
+export async function loadSeasonalityProfile(
+  pair: string,
+  dimension: SeasonalityDimension,
+  now: Date = new Date()
+): Promise<SeasonalityProfile> {
+  const candles = await loadProfileCandles(pair, dimension, now.getTime(), now.getTime());
+  return buildSeasonalityProfile(pair, dimension, candles, now);
+}
+
+/**
+ * Combine the buckets a date falls into across profiles. Each bucket votes
+ * bullish or bearish when its share of positive candles clears
+ * BUCKET_BIAS_THRESHOLD in the direction of its average return; the bias
+ * follows the majority of votes. Profiles built from candles after the date
+ * are ignored so backtests don't see the future.
+ * @param profiles Profiles to combine
+ * @param date Time being evaluated
+ */
+export function getIntradayBias(profiles: SeasonalityProfile[], date: Date = new Date()): IntradayBias {
+  const buckets: IntradayBias["buckets"] = {};
+  let votes = 0;
+
+  for (const profile of profiles) {
+    if (profile.to > date.getTime()) continue;
+
+    const stats = profile.buckets[getBucket(profile.dimension, date.getTime())];
+    if (!stats || stats.count === 0) continue;
+
+    buckets[profile.dimension] = {
+      label: stats.label,
+      positiveProb: stats.positiveProb,
+      averageReturn: stats.averageReturn,
+    };
+
+    if (stats.positiveProb >= BUCKET_BIAS_THRESHOLD && stats.averageReturn > 0) votes++;
+    if (stats.positiveProb <= 100 - BUCKET_BIAS_THRESHOLD && stats.averageReturn < 0) votes--;
+  }
+
+  return {
+    bias: votes > 0 ? "bullish" : votes < 0 ? "bearish" : "neutral",
+    buckets,
+  };
+}
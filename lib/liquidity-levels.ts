@@ -57,6 +57,22 @@ function getSwingStrength(timeframe: string): number {
   }
 }
 
+// Check whether a candle's body went through a level
+// BSL (resistance levels above price): bullish candles by the close, bearish candles by the open
+// SSL (support levels below price): bullish candles by the open, bearish candles by the close
+export function isCandleBodyThroughLevel(candle: CandleData, level: Pick<LiquidityLevel, "price" | "type">): boolean {
+  if (level.type === "BSL") {
+    return (
+      (candle.close >= candle.open && candle.close > level.price) ||
+      (candle.close < candle.open && candle.open > level.price)
+    )
+  }
+  return (
+    (candle.close >= candle.open && candle.open < level.price) ||
+    (candle.close < candle.open && candle.close < level.price)
+  )
+}
+
 // Update the calculateLiquidityLevels function to match the TradingView indicator more precisely
 export function calculateLiquidityLevels(
   candles: CandleData[],
@@ -208,40 +224,13 @@ export function calculateLiquidityLevels(
       for (let i = level.candleIndex + 1; i < candles.length; i++) {
         const candle = candles[i]
 
-        // For BSL (resistance levels above price)
-        if (isBSL) {
-          // Check if price went above the level (traded)
-          if (candle.high > level.price) {
-            isTraded = true
-
-            // Check if candle body went above the level (traded by body)
-            // For bullish candles: check if close went above
-            // For bearish candles: check if open went above
-            if (
-              (candle.close >= candle.open && candle.close > level.price) ||
-              (candle.close < candle.open && candle.open > level.price)
-            ) {
-              isTradedByBody = true
-              break // Once we confirm it's traded by body, we can stop checking
-            }
-          }
-        }
-        // For SSL (support levels below price)
-        else {
-          // Check if price went below the level (traded)
-          if (candle.low < level.price) {
-            isTraded = true
-
-            // Check if candle body went below the level (traded by body)
-            // For bullish candles: check if open went below
-            // For bearish candles: check if close went below
-            if (
-              (candle.close >= candle.open && candle.open < level.price) ||
-              (candle.close < candle.open && candle.close < level.price)
-            ) {
-              isTradedByBody = true
-              break // Once we confirm it's traded by body, we can stop checking
-            }
+        // Check if price went through the level (traded)
+        if (isBSL ? candle.high > level.price : candle.low < level.price) {
+          isTraded = true
+
+          if (isCandleBodyThroughLevel(candle, level)) {
+            isTradedByBody = true
+            break // Once we confirm it's traded by body, we can stop checking
           }
         }
       }
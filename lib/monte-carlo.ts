@@ -0,0 +1,186 @@
+// Monte Carlo simulation of the sequence risk of closed trades, resampling their R multiples
+
+import { DEFAULT_RISK_PERCENT, type EquityTrade } from "./equity-curve";
+import { buildHistogram, createSeededRandom, percentile } from "./seasonality-statistics";
+
+/**
+ * How a simulated run draws its trades from the history:
+ * - replacement: every trade drawn independently, outcomes can repeat
+ * - permutation: the same trades shuffled, only their order changes
+ * - block: runs of consecutive trades drawn with replacement, keeping streaks together
+ */
+export type ResamplingMethod = "replacement" | "permutation" | "block";
+
+export const RESAMPLING_METHODS: Record<ResamplingMethod, string> = {
+  replacement: "With replacement",
+  permutation: "Without replacement",
+  block: "Block bootstrap",
+};
+
+export interface MonteCarloOptions {
+  // Share of equity risked per trade (%)
+  riskPercent?: number;
+  method?: ResamplingMethod;
+  simulations?: number;
+  // Trades in a run, the length of the history when not given (always so for permutation)
+  tradesPerRun?: number;
+  // Consecutive trades per block, about the square root of the history when not given
+  blockSize?: number;
+  // Drawdown from the starting equity counted as ruin (%)
+  ruinPercent?: number;
+  seed?: number;
+}
+
+/**
+ * Percentiles of a simulated quantity
+ */
+export interface DistributionSummary {
+  mean: number;
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+}
+
+export interface MonteCarloResult {
+  method: ResamplingMethod;
+  riskPercent: number;
+  simulations: number;
+  tradesPerRun: number;
+  blockSize: number;
+  ruinPercent: number;
+  // Return of the account at the end of a run (%)
+  finalReturn: DistributionSummary;
+  // Deepest fall below a previous peak during a run (%)
+  maxDrawdown: DistributionSummary;
+  // Share of runs ending below the starting equity (%)
+  probabilityOfLoss: number;
+  // Share of runs that fell ruinPercent below the starting equity at any point (%)
+  riskOfRuin: number;
+  finalReturnHistogram: { from: number; to: number; count: number }[];
+}
+
+export const MONTE_CARLO_SIMULATIONS = 1000;
+
+export const DEFAULT_RUIN_PERCENT = 50;
+
+// Function to summarize a list of simulated values
+function summarize(values: number[]): DistributionSummary {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    mean: values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0,
+    p5: percentile(sorted, 5),
+    p25: percentile(sorted, 25),
+    p50: percentile(sorted, 50),
+    p75: percentile(sorted, 75),
+    p95: percentile(sorted, 95),
+  };
+}
+
+// Function to draw the R multiples of one run
+function drawRun(
+  rMultiples: number[],
+  method: ResamplingMethod,
+  length: number,
+  blockSize: number,
+  random: () => number
+): number[] {
+  if (method === "permutation") {
+    // Fisher-Yates shuffle
+    const shuffled = [...rMultiples];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+  }
+
+  const run: number[] = [];
+  while (run.length < length) {
+    const start = Math.floor(random() * rMultiples.length);
+    // A block past the last trade wraps around to the first
+    const size = method === "block" ? blockSize : 1;
+    for (let i = 0; i < size && run.length < length; i++) {
+      run.push(rMultiples[(start + i) % rMultiples.length]);
+    }
+  }
+  return run;
+}
+
+/**
+ * Simulate many alternative orderings of the closed trades to see how much of the
+ * historical result was down to their sequence. Every run compounds riskPercent of
+ * the current equity per trade like the fixed-fractional equity curve. Runs are
+ * seeded, so the same history and options always give the same result.
+ * @param trades Closed trades, in any order (block bootstrap follows their exit order)
+ * @param options Resampling and risk settings
+ */
+export function simulateMonteCarlo(trades: EquityTrade[], options: MonteCarloOptions = {}): MonteCarloResult {
+  const rMultiples = [...trades].sort((a, b) => a.time - b.time).map((trade) => trade.rMultiple);
+  const method = options.method ?? "replacement";
+  const riskPercent = options.riskPercent ?? DEFAULT_RISK_PERCENT;
+  const simulations = options.simulations ?? MONTE_CARLO_SIMULATIONS;
+  const ruinPercent = options.ruinPercent ?? DEFAULT_RUIN_PERCENT;
+  const tradesPerRun = method === "permutation" ? rMultiples.length : options.tradesPerRun ?? rMultiples.length;
+  const blockSize = Math.max(1, Math.min(rMultiples.length, options.blockSize ?? Math.round(Math.sqrt(rMultiples.length))));
+
+  const finalReturns: number[] = [];
+  const maxDrawdowns: number[] = [];
+  let losses = 0;
+  let ruins = 0;
+
+  if (rMultiples.length > 0 && tradesPerRun > 0) {
+    const random = createSeededRandom(options.seed ?? 1);
+    const ruinEquity = 1 - ruinPercent / 100;
+
+    for (let simulation = 0; simulation < simulations; simulation++) {
+      let equity = 1;
+      let peak = 1;
+      let maxDrawdown = 0;
+      let ruined = false;
+
+      for (const rMultiple of drawRun(rMultiples, method, tradesPerRun, blockSize, random)) {
+        equity *= Math.max(0, 1 + (rMultiple * riskPercent) / 100);
+        peak = Math.max(peak, equity);
+        maxDrawdown = Math.max(maxDrawdown, peak > 0 ? ((peak - equity) / peak) * 100 : 0);
+        if (equity <= ruinEquity) ruined = true;
+      }
+
+      finalReturns.push((equity - 1) * 100);
+      maxDrawdowns.push(maxDrawdown);
+      if (equity < 1) losses++;
+      if (ruined) ruins++;
+    }
+  }
+
+  const runs = finalReturns.length;
+  return {
+    method,
+    riskPercent,
+    simulations: runs,
+    tradesPerRun: runs > 0 ? tradesPerRun : 0,
+    blockSize,
+    ruinPercent,
+    finalReturn: summarize(finalReturns),
+    maxDrawdown: summarize(maxDrawdowns),
+    probabilityOfLoss: runs > 0 ? (losses / runs) * 100 : 0,
+    riskOfRuin: runs > 0 ? (ruins / runs) * 100 : 0,
+    finalReturnHistogram: buildHistogram(finalReturns, 20),
+  };
+}
+
+/**
+ * Simulate the same history at several risk levels. Every level reuses the seed,
+ * so they are compared on the same resampled sequences.
+ * @param trades Closed trades
+ * @param riskPercents Shares of equity risked per trade (%)
+ * @param options Resampling settings shared by every level
+ */
+export function compareRiskLevels(
+  trades: EquityTrade[],
+  riskPercents: number[],
+  options: Omit<MonteCarloOptions, "riskPercent"> = {}
+): MonteCarloResult[] {
+  return riskPercents.map((riskPercent) => simulateMonteCarlo(trades, { ...options, riskPercent }));
+}
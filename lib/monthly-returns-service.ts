@@ -0,0 +1,251 @@
+// Refresh job that keeps the monthly_returns table in sync with candle history
+
+import { fetchBinanceCandles, type CandleData } from "./binance-api";
+import {
+  SEASONALITY_FALLBACK_PAIR,
+  aggregateMonthlyCandles,
+  loadDailyCandles,
+  type MonthlyCandle,
+} from "./asset-seasonality";
+import { getCandlesInRange, storeCandles } from "./candle-store";
+import { invalidateSeasonalityCache } from "./seasonality-cache";
+import { historicalMonthlyReturns } from "./seasonality-data";
+import { supabase } from "./supabase-client";
+
+// Timeframe of the monthly klines stored in ohlc_candles
+export const MONTHLY_TIMEFRAME = "1M";
+
+// Binance returns at most 1000 klines per request, which covers the whole monthly history
+const MONTHLY_KLINE_LIMIT = 1000;
+
+/**
+ * A row of the monthly_returns table
+ */
+export interface MonthlyReturnRow {
+  pair: string;
+  year: number;
+  month: number; // 0-11
+  open_price: number | null;
+  close_price: number | null;
+  return_percent: number;
+  is_complete: boolean;
+  source: "1M" | "1d" | "seed";
+  updated_at: string;
+}
+
+/**
+ * Outcome of refreshing one pair
+ */
+export interface MonthlyReturnsRefreshResult {
+  pair: string;
+  source: MonthlyReturnRow["source"] | null;
+  rows: number;
+  // Months that closed since the previous refresh
+  closedMonths: string[];
+  inProgress: { year: number; month: number; returnPercent: number } | null;
+  error?: string;
+}
+
+// Function to load monthly candles, backfilling them from Binance klines when possible
+async function loadMonthlyCandles(pair: string): Promise<CandleData[]> {
+  try {
+    const klines = await fetchBinanceCandles(pair, MONTHLY_TIMEFRAME, MONTHLY_KLINE_LIMIT);
+    if (klines.length > 0) {
+      await storeCandles(pair, MONTHLY_TIMEFRAME, klines);
+      return klines;
+    }
+  } catch (error) {
+    console.error(`Error fetching ${MONTHLY_TIMEFRAME} klines for ${pair}, using stored candles:`, error);
+  }
+
+  return getCandlesInRange(pair, MONTHLY_TIMEFRAME, 0, Date.now());
+}
+
+// Function to turn aggregated months into table rows
+function toMonthlyReturnRows(
+  pair: string,
+  months: MonthlyCandle[],
+  source: MonthlyReturnRow["source"]
+): MonthlyReturnRow[] {
+  const updatedAt = new Date().toISOString();
+
+  return months.map((month) => ({
+    pair,
+    year: month.year,
+    month: month.month,
+    open_price: month.open,
+    close_price: month.close,
+    return_percent: month.returnPercent,
+    is_complete: month.isComplete,
+    source,
+    updated_at: updatedAt,
+  }));
+}
+
+// Function to build rows for the bundled BTC years the candles don't cover
+function buildSeedRows(pair: string, covered: Set<string>): MonthlyReturnRow[] {
+  const rows: MonthlyReturnRow[] = [];
+  const updatedAt = new Date().toISOString();
+
+  for (const [month, years] of Object.entries(historicalMonthlyReturns)) {
+    for (const [year, ret] of Object.entries(years)) {
+      if (covered.has(`${year}-${month}`)) continue;
+
+      rows.push({
+        pair,
+        year: Number.parseInt(year),
+        month: Number.parseInt(month),
+        open_price: null,
+        close_price: null,
+        return_percent: ret,
+        is_complete: true,
+        source: "seed",
+        updated_at: updatedAt,
+      });
+    }
+  }
+
+  return rows;
+}
+
+// Function to read the months already stored as complete for a pair
+async function getCompleteMonthKeys(pair: string): Promise<Set<string>> {
+  const keys = new Set<string>();
+  if (!supabase) return keys;
+
+  const { data, error } = await supabase
+    .from("monthly_returns")
+    .select("year, month")
+    .eq("pair", pair)
+    .eq("is_complete", true);
+
+  if (error) {
+    console.error(`Error fetching stored months for ${pair}:`, error);
+    return keys;
+  }
+
+  for (const row of data || []) {
+    keys.add(`${row.year}-${row.month}`);
+  }
+
+  return keys;
+}
+
+/**
+ * Derive monthly returns for a pair from 1M klines (falling back to stored
+ * 1d candles) and upsert them into monthly_returns. The running month is
+ * stored as incomplete so it can be shown as in progress.
+ * @param pair Trading pair symbol
+ * @param now Current time, decides which month is still in progress
+ */
+export async function refreshPairMonthlyReturns(
+  pair: string,
+  now: Date = new Date()
+): Promise<MonthlyReturnsRefreshResult> {
+  const result: MonthlyReturnsRefreshResult = { pair, source: null, rows: 0, closedMonths: [], inProgress: null };
+
+  if (!supabase) {
+    return { ...result, error: "Supabase client not available" };
+  }
+
+  try {
+    let source: MonthlyReturnRow["source"] = "1M";
+    let months = aggregateMonthlyCandles(await loadMonthlyCandles(pair), now);
+
+    if (months.length === 0) {
+      source = "1d";
+      months = aggregateMonthlyCandles(await loadDailyCandles(pair), now);
+    }
+
+    if (months.length === 0) {
+      return { ...result, error: `No ${MONTHLY_TIMEFRAME} or 1d candles available for ${pair}` };
+    }
+
+    const previouslyComplete = await getCompleteMonthKeys(pair);
+    const rows = toMonthlyReturnRows(pair, months, source);
+
+    const { error } = await supabase.from("monthly_returns").upsert(rows, { onConflict: "pair,year,month" });
+    if (error) {
+      return { ...result, source, error: error.message };
+    }
+
+    // Binance history starts in 2017, keep the earlier BTC years from the bundled series
+    if (pair === SEASONALITY_FALLBACK_PAIR) {
+      const covered = new Set(months.map((month) => `${month.year}-${month.month}`));
+      const seedRows = buildSeedRows(pair, covered);
+
+      if (seedRows.length > 0) {
+        const { error: seedError } = await supabase
+          .from("monthly_returns")
+          .upsert(seedRows, { onConflict: "pair,year,month", ignoreDuplicates: true });
+
+        if (seedError) {
+          console.error(`Error seeding monthly returns for ${pair}:`, seedError);
+        }
+      }
+    }
+
+    const running = months.find((month) => !month.isComplete);
+
+    return {
+      pair,
+      source,
+      rows: rows.length,
+      closedMonths: months
+        .filter((month) => month.isComplete && !previouslyComplete.has(`${month.year}-${month.month}`))
+        .map((month) => `${month.year}-${String(month.month + 1).padStart(2, "0")}`),
+      inProgress: running
+        ? { year: running.year, month: running.month, returnPercent: running.returnPercent }
+        : null,
+    };
+  } catch (error) {
+    console.error(`Error refreshing monthly returns for ${pair}:`, error);
+    return { ...result, error: error instanceof Error ? error.message : "Unknown error" };
+  }
+}
+
+// Function to clear the BTC-wide seasonality_temp table so the generator re-primes it
+async function clearSeasonalityTemp(): Promise<void> {
+  if (!supabase) return;
+
+  const { error } = await supabase.from("seasonality_temp").delete().gte("month", 0);
+  if (error) {
+    console.error("Error clearing seasonality_temp:", error);
+  }
+}
+
+/**
+ * Refresh the monthly returns of several pairs. Seasonality caches and
+ * seasonality_temp are invalidated whenever a month closed since the last
+ * run (or always when forced), so the job can run daily and only changes
+ * the seasonality at each month close.
+ * @param pairs Trading pair symbols
+ * @param force Invalidate the caches even if no month closed
+ */
+export async function refreshMonthlyReturns(
+  pairs: string[],
+  force = false
+): Promise<{ results: MonthlyReturnsRefreshResult[]; invalidated: boolean }> {
+  const results: MonthlyReturnsRefreshResult[] = [];
+
+  for (const pair of pairs) {
+    results.push(await refreshPairMonthlyReturns(pair));
+  }
+
+  const monthClosed = results.some((result) => result.closedMonths.length > 0);
+  if (!force && !monthClosed) {
+    return { results, invalidated: false };
+  }
+
+  // Pairs without enough history fall back to BTC, so a BTC change affects every pair
+  if (pairs.includes(SEASONALITY_FALLBACK_PAIR)) {
+    await invalidateSeasonalityCache();
+  } else {
+    for (const pair of pairs) {
+      await invalidateSeasonalityCache(pair);
+    }
+  }
+  await clearSeasonalityTemp();
+
+  return { results, invalidated: true };
+}
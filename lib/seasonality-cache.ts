@@ -1,150 +1,216 @@
-import { calculateMonthlyAverages, calculateMonthlyPositiveProb } from "./seasonality-data";
+import {
+  SEASONALITY_FALLBACK_PAIR,
+  calculateAveragesFromReturns,
+  calculateMonthlyStatsFromReturns,
+  calculatePositiveProbFromReturns,
+  loadPairMonthlyReturns,
+  type PairMonthlyReturns,
+} from "./asset-seasonality";
+import type { CandleData } from "./binance-api";
+import {
+  buildSeasonalityProfile,
+  loadProfileCandles,
+  loadSeasonalityProfile,
+  type SeasonalityDimension,
+  type SeasonalityProfile,
+} from "./intraday-seasonality";
+import { historicalMonthlyReturns } from "./seasonality-data";
 import { supabase } from "./supabase-client";
 
-// Get monthly average returns from cache or calculate
-export async function getMonthlyAverages(): Promise<Record<number, number>> {
+// Keep resolved returns in memory so the generator and backtester don't hit the database every bar
+const MEMORY_CACHE_TTL = 60 * 60 * 1000; // 1 hour
+const memoryCache = new Map<string, { data: PairMonthlyReturns; cachedAt: number }>();
+const profileMemoryCache = new Map<string, { data: SeasonalityProfile; cachedAt: number }>();
+
+// Candles behind past profiles of a pair and dimension, with the profiles built from them by UTC day
+const DAY_MS = 24 * 60 * 60 * 1000;
+const profileHistoryCache = new Map<
+  string,
+  { candles: CandleData[]; from: number; to: number; profiles: Map<number, SeasonalityProfile> }
+>();
+
+// Function to build a pair-scoped cache key (keys start with "monthly_" or "profile_" so they can be invalidated together)
+function cacheKey(name: string, pair: string): string {
+  return `${name}:${pair}`;
+}
+
+// Function to read a cached value, computing and storing it on a miss
+async function getCachedValue<T>(key: string, calculate: () => Promise<T>): Promise<T> {
+  if (!supabase) {
+    console.warn("Supabase client not available, using direct calculation");
+    return calculate();
+  }
+
+  // Try to get from cache first
+  const { data, error } = await supabase
+    .from("seasonality_cache")
+    .select("value")
+    .eq("key", key)
+    .single();
+
+  if (!error && data) {
+    return data.value as T;
+  }
+
+  console.log(`Cache miss for ${key}, calculating fresh data`);
+  const value = await calculate();
+
+  // Store in cache for future use
   try {
-    if (!supabase) {
-      console.warn("Supabase client not available, using direct calculation");
-      return calculateMonthlyAverages();
-    }
+    await supabase.from("seasonality_cache").upsert({
+      key,
+      value,
+      updated_at: new Date().toISOString()
+    }, { onConflict: "key" });
+  } catch (cacheError) {
+    console.error(`Error caching ${key}:`, cacheError);
+  }
 
-    // Try to get from cache first
-    const { data, error } = await supabase
-      .from("seasonality_cache")
-      .select("value")
-      .eq("key", "monthly_averages")
-      .single();
-
-    if (error || !data) {
-      console.log("Cache miss for monthly_averages, calculating fresh data");
-      const averages = calculateMonthlyAverages();
-      
-      // Store in cache for future use
-      try {
-        await supabase.from("seasonality_cache").upsert({
-          key: "monthly_averages",
-          value: averages,
-          updated_at: new Date().toISOString()
-        });
-      } catch (cacheError) {
-        console.error("Error caching monthly averages:", cacheError);
-      }
-      
-      return averages;
-    }
+  return value;
+}
+
+// Get the monthly returns of a pair (or the BTC fallback) from cache or calculate
+export async function getPairMonthlyReturns(pair: string = SEASONALITY_FALLBACK_PAIR): Promise<PairMonthlyReturns> {
+  const cached = memoryCache.get(pair);
+  if (cached && Date.now() - cached.cachedAt < MEMORY_CACHE_TTL) {
+    return cached.data;
+  }
 
-    return data.value;
+  try {
+    const data = await getCachedValue(cacheKey("monthly_returns", pair), () => loadPairMonthlyReturns(pair));
+    memoryCache.set(pair, { data, cachedAt: Date.now() });
+    return data;
   } catch (error) {
-    console.error("Error getting monthly averages:", error);
+    console.error(`Error getting monthly returns for ${pair}:`, error);
+    // Fallback to the bundled BTC series
+    return { pair, source: SEASONALITY_FALLBACK_PAIR, returns: historicalMonthlyReturns };
+  }
+}
+
+// Get monthly average returns from cache or calculate
+export async function getMonthlyAverages(pair: string = SEASONALITY_FALLBACK_PAIR): Promise<Record<number, number>> {
+  try {
+    return await getCachedValue(cacheKey("monthly_averages", pair), async () => {
+      const { returns } = await getPairMonthlyReturns(pair);
+      return calculateAveragesFromReturns(returns);
+    });
+  } catch (error) {
+    console.error(`Error getting monthly averages for ${pair}:`, error);
     // Fallback to direct calculation
-    return calculateMonthlyAverages();
+    return calculateAveragesFromReturns(historicalMonthlyReturns);
   }
 }
 
 // Get monthly positive probability from cache or calculate
-export async function getMonthlyPositiveProb(): Promise<Record<number, number>> {
+export async function getMonthlyPositiveProb(pair: string = SEASONALITY_FALLBACK_PAIR): Promise<Record<number, number>> {
   try {
-    if (!supabase) {
-      console.warn("Supabase client not available, using direct calculation");
-      return calculateMonthlyPositiveProb();
-    }
-
-    // Try to get from cache first
-    const { data, error } = await supabase
-      .from("seasonality_cache")
-      .select("value")
-      .eq("key", "monthly_positive_prob")
-      .single();
-
-    if (error || !data) {
-      console.log("Cache miss for monthly_positive_prob, calculating fresh data");
-      const probabilities = calculateMonthlyPositiveProb();
-      
-      // Store in cache for future use
-      try {
-        await supabase.from("seasonality_cache").upsert({
-          key: "monthly_positive_prob",
-          value: probabilities,
-          updated_at: new Date().toISOString()
-        });
-      } catch (cacheError) {
-        console.error("Error caching monthly probabilities:", cacheError);
-      }
-      
-      return probabilities;
-    }
-
-    return data.value;
+    return await getCachedValue(cacheKey("monthly_positive_prob", pair), async () => {
+      const { returns } = await getPairMonthlyReturns(pair);
+      return calculatePositiveProbFromReturns(returns);
+    });
   } catch (error) {
-    console.error("Error getting monthly probabilities:", error);
+    console.error(`Error getting monthly probabilities for ${pair}:`, error);
     // Fallback to direct calculation
-    return calculateMonthlyPositiveProb();
+    return calculatePositiveProbFromReturns(historicalMonthlyReturns);
   }
 }
 
 // Get detailed stats for a specific month
-export async function getMonthlyStats(month: number): Promise<any> {
+export async function getMonthlyStats(month: number, pair: string = SEASONALITY_FALLBACK_PAIR): Promise<any> {
   try {
-    if (!supabase) {
-      console.warn("Supabase client not available, using direct calculation");
-      // Import dynamically to avoid circular dependencies
-      const { useMonthlyStats } = await import("./seasonality-data");
-      return useMonthlyStats(month);
-    }
+    return await getCachedValue(cacheKey(`monthly_stats_${month}`, pair), async () => {
+      const { returns } = await getPairMonthlyReturns(pair);
+      return calculateMonthlyStatsFromReturns(returns, month);
+    });
+  } catch (error) {
+    console.error(`Error getting monthly stats for month ${month} (${pair}):`, error);
+    // Fallback to direct calculation
+    return calculateMonthlyStatsFromReturns(historicalMonthlyReturns, month);
+  }
+}
 
-    // Try to get from cache first
-    const { data, error } = await supabase
-      .from("seasonality_cache")
-      .select("value")
-      .eq("key", `monthly_stats_${month}`)
-      .single();
-
-    if (error || !data) {
-      console.log(`Cache miss for monthly_stats_${month}, calculating fresh data`);
-      // Import dynamically to avoid circular dependencies
-      const { useMonthlyStats } = await import("./seasonality-data");
-      const stats = useMonthlyStats(month);
-      
-      // Store in cache for future use
-      try {
-        await supabase.from("seasonality_cache").upsert({
-          key: `monthly_stats_${month}`,
-          value: stats,
-          updated_at: new Date().toISOString()
-        });
-      } catch (cacheError) {
-        console.error(`Error caching monthly stats for month ${month}:`, cacheError);
-      }
-      
-      return stats;
-    }
+// Get the hour-of-day, day-of-week or week-of-month profile of a pair from cache or calculate
+export async function getSeasonalityProfile(
+  dimension: SeasonalityDimension,
+  pair: string = SEASONALITY_FALLBACK_PAIR
+): Promise<SeasonalityProfile> {
+  const key = cacheKey(`profile_${dimension}`, pair);
+  const cached = profileMemoryCache.get(key);
+  if (cached && Date.now() - cached.cachedAt < MEMORY_CACHE_TTL) {
+    return cached.data;
+  }
 
-    return data.value;
+  try {
+    const data = await getCachedValue(key, () => loadSeasonalityProfile(pair, dimension));
+    profileMemoryCache.set(key, { data, cachedAt: Date.now() });
+    return data;
   } catch (error) {
-    console.error(`Error getting monthly stats for month ${month}:`, error);
-    // Fallback to direct calculation
-    const { useMonthlyStats } = await import("./seasonality-data");
-    return useMonthlyStats(month);
+    console.error(`Error getting ${dimension} seasonality profile for ${pair}:`, error);
+    return loadSeasonalityProfile(pair, dimension);
+  }
+}
+
+/**
+ * Get a profile of a pair as it was at a past date, for backtests. Built from the
+ * candles that closed before the date's UTC day, which are loaded once per pair.
+ * @param dimension Bucket to group by
+ * @param pair Trading pair symbol
+ * @param date Time being evaluated
+ */
+export async function getSeasonalityProfileAt(
+  dimension: SeasonalityDimension,
+  pair: string,
+  date: Date
+): Promise<SeasonalityProfile> {
+  const key = cacheKey(`profile_${dimension}`, pair);
+  const day = Math.floor(date.getTime() / DAY_MS) * DAY_MS;
+
+  let history = profileHistoryCache.get(key);
+  if (!history || day < history.from || day > history.to) {
+    const to = Date.now();
+    history = { candles: await loadProfileCandles(pair, dimension, day, to), from: day, to, profiles: new Map() };
+    profileHistoryCache.set(key, history);
+  }
+
+  let profile = history.profiles.get(day);
+  if (!profile) {
+    profile = buildSeasonalityProfile(pair, dimension, history.candles, new Date(day));
+    history.profiles.set(day, profile);
   }
+  return profile;
 }
 
-// Invalidate all seasonality caches
-export async function invalidateSeasonalityCache(): Promise<boolean> {
+// Invalidate all seasonality caches, or only those of one pair
+export async function invalidateSeasonalityCache(pair?: string): Promise<boolean> {
   try {
+    if (pair) {
+      memoryCache.delete(pair);
+      for (const cache of [profileMemoryCache, profileHistoryCache]) {
+        for (const key of [...cache.keys()]) {
+          if (key.endsWith(`:${pair}`)) cache.delete(key);
+        }
+      }
+    } else {
+      memoryCache.clear();
+      profileMemoryCache.clear();
+      profileHistoryCache.clear();
+    }
+
     if (!supabase) {
       console.warn("Supabase client not available, cannot invalidate cache");
       return false;
     }
 
-    const { error } = await supabase
-      .from("seasonality_cache")
-      .delete()
-      .like("key", "monthly_%");
+    for (const prefix of ["monthly_", "profile_"]) {
+      const { error } = await supabase
+        .from("seasonality_cache")
+        .delete()
+        .like("key", pair ? `${prefix}%:${pair}` : `${prefix}%`);
 
-    if (error) {
-      console.error("Error invalidating seasonality cache:", error);
-      return false;
+      if (error) {
+        console.error("Error invalidating seasonality cache:", error);
+        return false;
+      }
     }
 
     return true;
@@ -0,0 +1,121 @@
+// Statistical helpers for small seasonality samples (bootstrap intervals, significance, histograms)
+
+// Bootstrap resamples per confidence interval
+export const BOOTSTRAP_RESAMPLES = 2000;
+
+// Two-sided confidence level of the bootstrap intervals (%)
+export const CONFIDENCE_LEVEL = 95;
+
+// Two-sided p-value below which a month's share of positive years counts as a real edge
+export const SEASONALITY_SIGNIFICANCE_LEVEL = 0.1;
+
+// Function to create a small seeded random generator (mulberry32) so cached intervals are reproducible
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Function to calculate the median of a list of numbers
+export function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+// Function to read a percentile (0-100) from sorted values with linear interpolation
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const index = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+}
+
+/**
+ * Percentile bootstrap confidence interval of a statistic
+ * @param values Sample
+ * @param statistic Statistic computed on every resample
+ * @param seed Seed of the resampling, keeps the interval stable between runs
+ * @param level Two-sided confidence level in percent
+ */
+export function bootstrapInterval(
+  values: number[],
+  statistic: (sample: number[]) => number,
+  seed = 1,
+  level = CONFIDENCE_LEVEL
+): [number, number] {
+  if (values.length === 0) return [0, 0];
+
+  const random = createSeededRandom(seed);
+  const estimates: number[] = [];
+
+  for (let i = 0; i < BOOTSTRAP_RESAMPLES; i++) {
+    const sample = Array.from({ length: values.length }, () => values[Math.floor(random() * values.length)]);
+    estimates.push(statistic(sample));
+  }
+
+  estimates.sort((a, b) => a - b);
+  const tail = (100 - level) / 2;
+  return [percentile(estimates, tail), percentile(estimates, 100 - tail)];
+}
+
+/**
+ * Two-sided exact binomial test against a fair coin
+ * @param successes Positive years
+ * @param trials Total years
+ */
+export function binomialPValue(successes: number, trials: number): number {
+  if (trials === 0) return 1;
+
+  // P(X = k) for k = 0..n, built iteratively to avoid large factorials
+  const probabilities: number[] = [Math.pow(0.5, trials)];
+  for (let k = 1; k <= trials; k++) {
+    probabilities.push((probabilities[k - 1] * (trials - k + 1)) / k);
+  }
+
+  const extreme = Math.max(successes, trials - successes);
+  const tail = probabilities.slice(extreme).reduce((sum, p) => sum + p, 0);
+  return Math.min(1, 2 * tail);
+}
+
+// Function to check whether a share of positive years is unlikely to be chance
+export function isSignificantProbability(
+  positive: number,
+  total: number,
+  significanceLevel = SEASONALITY_SIGNIFICANCE_LEVEL
+): boolean {
+  return total > 0 && binomialPValue(positive, total) < significanceLevel;
+}
+
+/**
+ * Bin values into equal-width buckets
+ * @param values Sample
+ * @param bins Number of buckets
+ */
+export function buildHistogram(values: number[], bins = 8): { from: number; to: number; count: number }[] {
+  if (values.length === 0) return [];
+
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const width = (max - min) / bins || 1;
+
+  const histogram = Array.from({ length: bins }, (_, i) => ({
+    from: min + i * width,
+    to: min + (i + 1) * width,
+    count: 0,
+  }));
+
+  for (const value of values) {
+    const index = Math.min(bins - 1, Math.floor((value - min) / width));
+    histogram[index].count++;
+  }
+
+  return histogram;
+}
@@ -0,0 +1,414 @@
+// Historical backtesting of signal strategies over stored ohlc_candles
+
+import type { CandleData } from "./binance-api";
+import { getAllCandlesInRange } from "./candle-store";
+import { getTimeframeMs, TIMEFRAMES } from "./websocket-candle-builder";
+import {
+  applyConfluenceFilter,
+  CONFLUENCE_CANDLE_LIMIT,
+  getHigherTimeframeContextsAt,
+  HIGHER_TIMEFRAMES,
+} from "./signal-confluence";
+import { evaluateStrategies, type GeneratedSignal } from "./signal-generator-service";
+import {
+  DEFAULT_SIGNAL_PARAMETERS,
+  getExpiryPolicy,
+  getSignalStrategies,
+  getSignalStrategy,
+  type SignalParameters,
+} from "./signal-strategies";
+import { summarizeSignalStats, type SignalStats, type TradingSignal } from "./signals-service";
+import {
+  getExcursionColumns,
+  getExpiryWindows,
+  settleCandlesPessimistic,
+  type ResolutionMethod,
+} from "./signal-settlement";
+import { calculateSignalPnl } from "./signal-costs";
+import { createStopManager } from "./trade-management";
+import type { TargetFill } from "./take-profit-targets";
+
+/**
+ * Options for a backtest run
+ */
+export interface BacktestOptions {
+  pair: string;
+  timeframe: string;
+  startTime: number; // ms
+  endTime: number; // ms
+  strategies?: string[];
+  // Allow a new signal while one from the same strategy is still open
+  allowOverlap?: boolean;
+  // Overrides for the default liquidity level / risk settings
+  parameters?: Partial<SignalParameters>;
+  // Candles of the higher timeframes for the confluence filter, oldest first; without them no signal is filtered
+  higherTimeframeCandles?: Record<string, CandleData[]>;
+}
+
+/**
+ * A single simulated trade
+ */
+export interface BacktestTrade {
+  signal: GeneratedSignal;
+  createdAt: number; // ms, close time of the candle the signal was generated on
+  status: "tp" | "sl" | "trailing_sl" | "time_stop" | "expired" | "open";
+  entryTime: number | null;
+  exitTime: number | null;
+  // Blended over the partial take profits and the rest of the position
+  exitPrice: number | null;
+  targetFills: TargetFill[];
+  profitLoss: number | null;
+  profitLossPercent: number | null;
+  // After fees, slippage and funding
+  netProfitLoss: number | null;
+  netProfitLossPercent: number | null;
+  rMultiple: number | null;
+  // Maximum adverse/favorable excursion after the entry, in R multiples
+  maeR: number | null;
+  mfeR: number | null;
+  resolutionMethod: ResolutionMethod | null;
+}
+
+/**
+ * Result of a backtest run
+ */
+export interface BacktestResult {
+  pair: string;
+  timeframe: string;
+  startTime: number;
+  endTime: number;
+  strategies: string[];
+  parameters: SignalParameters;
+  candlesProcessed: number;
+  trades: BacktestTrade[];
+  stats: SignalStats;
+  // Gaps in the stored candles that make the run cover less than the requested window
+  warnings: string[];
+  executionTime: number;
+}
+
+/**
+ * Settle a signal against the candles that formed after it was generated,
+ * with the same candle walk the live checker uses: entry first, then take
+ * profit, stop loss or time stop, and expiry when the entry window passes.
+ * Candles that touch both sides are resolved pessimistically (stop first).
+ * The stop is managed with the breakeven / trailing rules of the signal's strategy.
+ * @param signal Signal to settle
+ * @param createdAt Time the signal was generated (ms)
+ * @param candles Candles after the signal was generated, oldest first
+ * @param series All candles of the run, the history the trailing rules look back on
+ */
+export function settleSignalOnCandles(
+  signal: GeneratedSignal,
+  createdAt: number,
+  candles: CandleData[],
+  series: CandleData[] = candles
+): BacktestTrade {
+  const trade: BacktestTrade = {
+    signal,
+    createdAt,
+    status: "open",
+    entryTime: null,
+    exitTime: null,
+    exitPrice: null,
+    targetFills: [],
+    profitLoss: null,
+    profitLossPercent: null,
+    netProfitLoss: null,
+    netProfitLossPercent: null,
+    rMultiple: null,
+    maeR: null,
+    mfeR: null,
+    resolutionMethod: null,
+  };
+
+  const rules = getSignalStrategy(signal.signal_source)?.management ?? [];
+  const { entryWindowMs, timeStopMs } = getExpiryWindows(
+    signal.timeframe,
+    getExpiryPolicy(signal.signal_source, signal.timeframe)
+  );
+  const settlement = settleCandlesPessimistic(signal, candles, {
+    expiresAt: createdAt + entryWindowMs,
+    timeStopAfter: timeStopMs,
+    adjustStop: createStopManager(signal, rules, series),
+  });
+  trade.entryTime = settlement.entryTime;
+  trade.resolutionMethod = settlement.resolutionMethod;
+  trade.targetFills = settlement.targetFills;
+
+  const excursion = getExcursionColumns(signal, settlement);
+  trade.maeR = excursion?.mae_r ?? null;
+  trade.mfeR = excursion?.mfe_r ?? null;
+
+  if (settlement.exitType === "expired") {
+    trade.status = "expired";
+    trade.exitTime = settlement.exitTime;
+    trade.exitPrice = settlement.exitPrice;
+    return trade;
+  }
+
+  if (settlement.exitType && settlement.exitPrice !== null && settlement.exitTime !== null) {
+    return closeTrade(trade, settlement.exitType, settlement.exitPrice, settlement.exitTime);
+  }
+
+  return trade;
+}
+
+// Function to close a filled trade and calculate its P&L
+function closeTrade(
+  trade: BacktestTrade,
+  status: "tp" | "sl" | "trailing_sl" | "time_stop",
+  exitPrice: number,
+  exitTime: number
+): BacktestTrade {
+  const { signal } = trade;
+  const pnl = calculateSignalPnl({
+    signalType: signal.signal_type,
+    entryPrice: signal.entry_price,
+    exitPrice,
+    exitType: status,
+    entryTime: trade.entryTime,
+    exitTime,
+    targetFills: trade.targetFills,
+  });
+  const risk = Math.abs(signal.entry_price - signal.stop_loss);
+
+  trade.status = status;
+  trade.exitPrice = exitPrice;
+  trade.exitTime = exitTime;
+  trade.profitLoss = pnl.grossProfitLoss;
+  trade.profitLossPercent = pnl.grossProfitLossPercent;
+  trade.netProfitLoss = pnl.netProfitLoss;
+  trade.netProfitLossPercent = pnl.netProfitLossPercent;
+  trade.rMultiple = risk > 0 ? pnl.grossProfitLoss / risk : null;
+  return trade;
+}
+
+// Function to check whether a trade was filled and closed
+export function isClosedTrade(trade: BacktestTrade): boolean {
+  return trade.status === "tp" || trade.status === "sl" || trade.status === "trailing_sl" || trade.status === "time_stop";
+}
+
+// Function to convert a settled trade to the TradingSignal shape used by the stats
+export function backtestTradeToTradingSignal(trade: BacktestTrade): TradingSignal {
+  const { signal } = trade;
+  return {
+    id: signal.signal_id,
+    type: signal.signal_type,
+    entry: signal.entry_price,
+    stopLoss: signal.stop_loss,
+    takeProfit: signal.take_profit,
+    entryTime: new Date(trade.entryTime ?? trade.createdAt),
+    pair: signal.pair,
+    timeframe: signal.timeframe,
+    source: signal.signal_source,
+    strategyVersion: signal.strategy_version,
+    status: "completed",
+    exitPrice: trade.exitPrice ?? undefined,
+    exitTime: trade.exitTime !== null ? new Date(trade.exitTime) : undefined,
+    exitType: trade.status !== "open" ? trade.status : undefined,
+    takeProfitLevels: signal.take_profit_levels,
+    targetFills: trade.targetFills,
+    profitLoss: trade.profitLoss ?? undefined,
+    profitLossPercent: trade.profitLossPercent ?? undefined,
+    netProfitLoss: trade.netProfitLoss ?? undefined,
+    netProfitLossPercent: trade.netProfitLossPercent ?? undefined,
+    maeR: trade.maeR ?? undefined,
+    mfeR: trade.mfeR ?? undefined,
+    riskRewardRatio: signal.risk_reward_ratio,
+  };
+}
+
+// Function to build candles of a longer timeframe from shorter ones, dropping buckets with missing candles
+function aggregateCandles(candles: CandleData[], sourceMs: number, targetMs: number): CandleData[] {
+  const perBucket = targetMs / sourceMs;
+  const buckets = new Map<number, CandleData[]>();
+
+  for (const candle of candles) {
+    const bucketTime = Math.floor((candle.time * 1000) / targetMs) * targetMs;
+    buckets.set(bucketTime, [...(buckets.get(bucketTime) ?? []), candle]);
+  }
+
+  return [...buckets.entries()]
+    .filter(([, bucket]) => bucket.length === perBucket)
+    .sort(([a], [b]) => a - b)
+    .map(([bucketTime, bucket]) => ({
+      time: bucketTime / 1000,
+      open: bucket[0].open,
+      high: Math.max(...bucket.map((candle) => candle.high)),
+      low: Math.min(...bucket.map((candle) => candle.low)),
+      close: bucket[bucket.length - 1].close,
+      volume: bucket.reduce((sum, candle) => sum + candle.volume, 0),
+    }));
+}
+
+/**
+ * Load the higher timeframe candles the confluence filter reads for a signal timeframe,
+ * with enough history before the start for the first bar. Timeframes not kept in
+ * ohlc_candles (4h, 1d) are built from the stored 1h candles.
+ * @param pair Trading pair symbol
+ * @param timeframe Signal timeframe
+ * @param startTime Start of the backtest (ms)
+ * @param endTime End of the backtest (ms)
+ */
+export async function loadHigherTimeframeCandles(
+  pair: string,
+  timeframe: string,
+  startTime: number,
+  endTime: number
+): Promise<Record<string, CandleData[]>> {
+  const candlesByTimeframe: Record<string, CandleData[]> = {};
+  const hourMs = getTimeframeMs("1h");
+
+  for (const higherTimeframe of HIGHER_TIMEFRAMES[timeframe] || []) {
+    const higherMs = getTimeframeMs(higherTimeframe);
+    const from = startTime - CONFLUENCE_CANDLE_LIMIT * higherMs;
+
+    candlesByTimeframe[higherTimeframe] = TIMEFRAMES.includes(higherTimeframe)
+      ? await getAllCandlesInRange(pair, higherTimeframe, from, endTime, higherMs)
+      : aggregateCandles(await getAllCandlesInRange(pair, "1h", from, endTime, hourMs), hourMs, higherMs);
+  }
+
+  return candlesByTimeframe;
+}
+
+/**
+ * Run the signal strategies bar by bar over candles that are already loaded.
+ * At every bar the strategies only see candles up to and including that bar, and the
+ * confluence filter only the higher timeframe candles that had closed by then.
+ * @param pair Trading pair symbol
+ * @param timeframe Timeframe of the candles
+ * @param candles Candles oldest first, including the warm-up history
+ * @param options Backtest options
+ */
+export async function backtestCandles(
+  pair: string,
+  timeframe: string,
+  candles: CandleData[],
+  options: Pick<BacktestOptions, "startTime" | "strategies" | "allowOverlap" | "parameters" | "higherTimeframeCandles">
+): Promise<BacktestTrade[]> {
+  const strategies = getSignalStrategies(options.strategies);
+  const timeframeMs = getTimeframeMs(timeframe);
+  const maxRequired = Math.max(100, ...strategies.map((strategy) => strategy.requiredCandles));
+  const trades: BacktestTrade[] = [];
+
+  // Time (ms) until which each strategy already has an open trade
+  const busyUntil = new Map<string, number>();
+  // Setups already traded, found again on later bars they are the same signal (as the live generator dedupes them)
+  const tradedSignalIds = new Set<string>();
+
+  for (let i = 0; i < candles.length; i++) {
+    const closeTime = candles[i].time * 1000 + timeframeMs;
+
+    // Skip the warm-up period
+    if (candles[i].time * 1000 < options.startTime) continue;
+
+    const runnable = strategies.filter((strategy) => {
+      if (i + 1 < strategy.requiredCandles) return false;
+      return options.allowOverlap || (busyUntil.get(strategy.name) ?? 0) <= closeTime;
+    });
+
+    if (runnable.length === 0) continue;
+
+    // Same window the live generator fetches, ending at the current bar
+    const available = candles.slice(Math.max(0, i + 1 - maxRequired), i + 1);
+    let signals = await evaluateStrategies(
+      pair,
+      timeframe,
+      available,
+      runnable,
+      new Date(closeTime),
+      options.parameters
+    );
+
+    // Same higher-timeframe check as the live generator
+    if (signals.length > 0 && options.higherTimeframeCandles) {
+      signals = applyConfluenceFilter(
+        signals,
+        getHigherTimeframeContextsAt(options.higherTimeframeCandles, closeTime)
+      );
+    }
+    const laterCandles = candles.slice(i + 1);
+
+    for (const signal of signals) {
+      if (tradedSignalIds.has(signal.signal_id)) continue;
+      tradedSignalIds.add(signal.signal_id);
+
+      const trade = settleSignalOnCandles(signal, closeTime, laterCandles, candles);
+      trades.push(trade);
+
+      // Open trades block their strategy until the end of the data
+      busyUntil.set(signal.signal_source, trade.exitTime ?? Number.POSITIVE_INFINITY);
+    }
+  }
+
+  return trades;
+}
+
+/**
+ * Backtest signal strategies over candles stored in ohlc_candles
+ * @param options Backtest options
+ * @returns Trade list and stats summary
+ */
+export async function runBacktest(options: BacktestOptions): Promise<BacktestResult> {
+  const startedAt = Date.now();
+  const strategies = getSignalStrategies(options.strategies);
+  const warmupCandles = Math.max(100, ...strategies.map((strategy) => strategy.requiredCandles));
+  const timeframeMs = getTimeframeMs(options.timeframe);
+
+  // Load the warm-up history before the start of the test window as well
+  const candles = await getAllCandlesInRange(
+    options.pair,
+    options.timeframe,
+    options.startTime - warmupCandles * timeframeMs,
+    options.endTime,
+    timeframeMs
+  );
+
+  console.log(`Backtesting ${options.pair} ${options.timeframe} over ${candles.length} candles`);
+
+  const higherTimeframeCandles =
+    options.higherTimeframeCandles ??
+    (await loadHigherTimeframeCandles(options.pair, options.timeframe, options.startTime, options.endTime));
+
+  const warnings: string[] = [];
+  const lastCandle = candles[candles.length - 1];
+  // The last full candle of the window opens one timeframe before its end
+  if (!lastCandle || lastCandle.time * 1000 + timeframeMs < options.endTime - timeframeMs) {
+    const coveredUntil = lastCandle ? new Date(lastCandle.time * 1000 + timeframeMs).toISOString() : "the start";
+    warnings.push(
+      `Stored ${options.timeframe} candles for ${options.pair} end at ${coveredUntil}, ` +
+        `before the end of the window (${new Date(options.endTime).toISOString()})`
+    );
+    console.warn(warnings[warnings.length - 1]);
+  }
+
+  for (const [higherTimeframe, higherCandles] of Object.entries(higherTimeframeCandles)) {
+    if (higherCandles.length === 0) {
+      warnings.push(`No stored candles for the ${higherTimeframe} confluence check, signals were not filtered on it`);
+      console.warn(warnings[warnings.length - 1]);
+    }
+  }
+
+  const trades = await backtestCandles(options.pair, options.timeframe, candles, {
+    ...options,
+    higherTimeframeCandles,
+  });
+
+  // Filled and closed trades count towards performance, expired ones as their own outcome
+  const settledTrades = trades.filter((trade) => isClosedTrade(trade) || trade.status === "expired");
+
+  return {
+    pair: options.pair,
+    timeframe: options.timeframe,
+    startTime: options.startTime,
+    endTime: options.endTime,
+    strategies: strategies.map((strategy) => strategy.name),
+    parameters: { ...DEFAULT_SIGNAL_PARAMETERS, ...options.parameters },
+    candlesProcessed: candles.length,
+    trades,
+    stats: summarizeSignalStats(settledTrades.map(backtestTradeToTradingSignal)),
+    warnings,
+    executionTime: Date.now() - startedAt,
+  };
+}
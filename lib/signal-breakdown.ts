@@ -0,0 +1,137 @@
+// Performance of completed signals grouped by the columns stored on their rows
+
+/**
+ * What completed signals can be grouped by: a column of generated_signals, or
+ * the UTC hour or weekday the entry filled at
+ */
+export type BreakdownDimension =
+  | "pair"
+  | "timeframe"
+  | "signal_type"
+  | "seasonality"
+  | "signal_source"
+  | "entry_hour"
+  | "entry_weekday";
+
+export const BREAKDOWN_DIMENSIONS: Record<BreakdownDimension, string> = {
+  pair: "Pair",
+  timeframe: "Timeframe",
+  signal_type: "Direction",
+  seasonality: "Seasonality",
+  signal_source: "Strategy",
+  entry_hour: "Entry hour (UTC)",
+  entry_weekday: "Entry weekday (UTC)",
+};
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/**
+ * Columns of a completed generated_signals row the breakdown reads
+ */
+export interface BreakdownRow {
+  pair: string;
+  timeframe: string;
+  signal_type: string;
+  seasonality?: string | null;
+  signal_source?: string | null;
+  entry_price: number;
+  stop_loss: number;
+  entry_hit_time?: string | null;
+  created_at: string;
+  profit_loss?: number | null;
+  net_profit_loss?: number | null;
+}
+
+/**
+ * One group of signals, keyed by its value of every dimension
+ */
+export interface BreakdownCell {
+  values: Record<string, string>;
+  count: number;
+  wins: number;
+  winRate: number;
+  // Average and sum of the R multiples
+  expectancyR: number;
+  totalR: number;
+}
+
+// Columns to select for a breakdown
+export const BREAKDOWN_COLUMNS =
+  "pair, timeframe, signal_type, seasonality, signal_source, entry_price, stop_loss, entry_hit_time, created_at, profit_loss, net_profit_loss";
+
+// Function to check a dimension name from a request
+export function isBreakdownDimension(value: string): value is BreakdownDimension {
+  // Own keys only, "toString" and other inherited names are not dimensions
+  return Object.prototype.hasOwnProperty.call(BREAKDOWN_DIMENSIONS, value);
+}
+
+// Function to read the value of a row in a dimension
+function getDimensionValue(row: BreakdownRow, dimension: BreakdownDimension): string {
+  const entryTime = new Date(row.entry_hit_time || row.created_at);
+
+  switch (dimension) {
+    case "entry_hour":
+      return `${String(entryTime.getUTCHours()).padStart(2, "0")}:00`;
+    case "entry_weekday":
+      return WEEKDAYS[entryTime.getUTCDay()];
+    default:
+      return row[dimension] || "unknown";
+  }
+}
+
+// Function to order values of a dimension, hours and weekdays in time order
+function compareValues(dimension: BreakdownDimension, a: string, b: string): number {
+  if (dimension === "entry_weekday") {
+    // Monday first
+    return ((WEEKDAYS.indexOf(a) + 6) % 7) - ((WEEKDAYS.indexOf(b) + 6) % 7);
+  }
+  return a.localeCompare(b);
+}
+
+/**
+ * Group completed signals and summarize every group. Outcomes are R multiples
+ * of the initial risk, on net P/L unless basis is "gross".
+ * @param rows Completed signals (filled, with an exit)
+ * @param dimensions Dimensions to group by, a cell per combination of values present
+ * @param basis Whether P/L is read after or before trading costs
+ */
+export function buildBreakdown(
+  rows: BreakdownRow[],
+  dimensions: BreakdownDimension[],
+  basis: "net" | "gross" = "net"
+): BreakdownCell[] {
+  const groups = new Map<string, { values: Record<string, string>; outcomes: number[] }>();
+
+  for (const row of rows) {
+    const risk = Math.abs(row.entry_price - row.stop_loss);
+    const profitLoss = basis === "net" && row.net_profit_loss != null ? row.net_profit_loss : row.profit_loss;
+    if (risk <= 0 || profitLoss == null) continue;
+
+    const values = Object.fromEntries(dimensions.map((dimension) => [dimension, getDimensionValue(row, dimension)]));
+    const key = dimensions.map((dimension) => values[dimension]).join("|");
+    const group = groups.get(key) ?? { values, outcomes: [] };
+    group.outcomes.push(profitLoss / risk);
+    groups.set(key, group);
+  }
+
+  const cells = [...groups.values()].map(({ values, outcomes }) => {
+    const wins = outcomes.filter((outcome) => outcome > 0).length;
+    const totalR = outcomes.reduce((sum, outcome) => sum + outcome, 0);
+    return {
+      values,
+      count: outcomes.length,
+      wins,
+      winRate: (wins / outcomes.length) * 100,
+      expectancyR: totalR / outcomes.length,
+      totalR,
+    };
+  });
+
+  return cells.sort((a, b) => {
+    for (const dimension of dimensions) {
+      const order = compareValues(dimension, a.values[dimension], b.values[dimension]);
+      if (order !== 0) return order;
+    }
+    return 0;
+  });
+}
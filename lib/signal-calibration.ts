@@ -0,0 +1,133 @@
+// Calibration of the seasonality probability stored on signals against their realized win rate
+
+/**
+ * Columns of a completed generated_signals row the calibration reads
+ */
+export interface CalibrationRow {
+  signal_type: string;
+  // Share of past years the month closed up (%), as stored by the generator
+  positive_probability?: number | null;
+  profit_loss?: number | null;
+  net_profit_loss?: number | null;
+  signal_source?: string | null;
+  strategy_version?: string | null;
+}
+
+/**
+ * Signals whose predicted win probability fell into one bucket
+ */
+export interface CalibrationBucket {
+  // Bucket bounds and the average prediction inside it (%)
+  from: number;
+  to: number;
+  predicted: number;
+  // Share of the bucket's signals that won (%)
+  realized: number;
+  count: number;
+}
+
+/**
+ * Calibration of one group of signals (all of them, or a strategy version)
+ */
+export interface CalibrationReport {
+  group: string;
+  count: number;
+  // Mean squared error of the predictions (0 is perfect, 0.25 is a coin flip at 50%)
+  brierScore: number;
+  // Brier score of always predicting the group's win rate, a useful prediction scores below it
+  referenceBrierScore: number;
+  // Realized win rate of the group (%)
+  baseRate: number;
+  buckets: CalibrationBucket[];
+}
+
+// Columns to select for a calibration
+export const CALIBRATION_COLUMNS =
+  "signal_type, positive_probability, profit_loss, net_profit_loss, signal_source, strategy_version";
+
+// Width of a probability bucket (%)
+export const CALIBRATION_BUCKET_WIDTH = 10;
+
+export const ALL_STRATEGIES_GROUP = "All strategies";
+
+/**
+ * Predicted win probability (0-1) of a signal. positive_probability is the
+ * chance of an up month, so it predicts longs and its complement predicts shorts.
+ * @param row Completed signal with its stored probability
+ * @returns Probability, null when none was stored
+ */
+export function getPredictedWinProbability(row: Pick<CalibrationRow, "signal_type" | "positive_probability">): number | null {
+  if (row.positive_probability === null || row.positive_probability === undefined) return null;
+  // Complement in percent so a short at 80% lands exactly on 20%
+  const positive = Number(row.positive_probability);
+  return (row.signal_type === "short" ? 100 - positive : positive) / 100;
+}
+
+// Function to calibrate one group of (prediction, outcome) pairs
+function calibrate(group: string, samples: { predicted: number; won: boolean }[]): CalibrationReport {
+  const count = samples.length;
+  const wins = samples.filter((sample) => sample.won).length;
+  const baseRate = count > 0 ? wins / count : 0;
+  const brierScore =
+    count > 0 ? samples.reduce((sum, sample) => sum + (sample.predicted - (sample.won ? 1 : 0)) ** 2, 0) / count : 0;
+
+  const bucketCount = 100 / CALIBRATION_BUCKET_WIDTH;
+  const buckets: CalibrationBucket[] = [];
+  for (let index = 0; index < bucketCount; index++) {
+    const from = index * CALIBRATION_BUCKET_WIDTH;
+    const to = from + CALIBRATION_BUCKET_WIDTH;
+    // The last bucket includes 100%
+    const inBucket = samples.filter((sample) => {
+      const percent = sample.predicted * 100;
+      return percent >= from && (percent < to || (index === bucketCount - 1 && percent <= to));
+    });
+    if (inBucket.length === 0) continue;
+
+    buckets.push({
+      from,
+      to,
+      predicted: (inBucket.reduce((sum, sample) => sum + sample.predicted, 0) / inBucket.length) * 100,
+      realized: (inBucket.filter((sample) => sample.won).length / inBucket.length) * 100,
+      count: inBucket.length,
+    });
+  }
+
+  return {
+    group,
+    count,
+    brierScore,
+    referenceBrierScore: baseRate * (1 - baseRate),
+    baseRate: baseRate * 100,
+    buckets,
+  };
+}
+
+/**
+ * Compare the predicted win probability of completed signals with how often they won,
+ * for all signals and for every strategy version. Signals without a stored
+ * probability are left out; a win is a positive P/L on the chosen basis.
+ * @param rows Completed signals
+ * @param basis Whether P/L is read after or before trading costs
+ */
+export function buildCalibrationReports(rows: CalibrationRow[], basis: "net" | "gross" = "net"): CalibrationReport[] {
+  const groups = new Map<string, { predicted: number; won: boolean }[]>();
+  const all: { predicted: number; won: boolean }[] = [];
+
+  for (const row of rows) {
+    const predicted = getPredictedWinProbability(row);
+    const profitLoss = basis === "net" && row.net_profit_loss != null ? row.net_profit_loss : row.profit_loss;
+    if (predicted === null || profitLoss == null) continue;
+
+    const sample = { predicted, won: Number(profitLoss) > 0 };
+    const group = `${row.signal_source || "unknown"} ${row.strategy_version ? `v${row.strategy_version}` : "(unversioned)"}`;
+    all.push(sample);
+    groups.set(group, [...(groups.get(group) ?? []), sample]);
+  }
+
+  return [
+    calibrate(ALL_STRATEGIES_GROUP, all),
+    ...[...groups.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([group, samples]) => calibrate(group, samples)),
+  ];
+}
@@ -1,8 +1,32 @@
 // A robust service for checking trading signals in the Liquidation Vision platform
 
+import type { SupabaseClient } from '@supabase/supabase-js';
 import { supabase } from './supabase-client';
 import { fetchBinanceTicker } from './binance-api';
 import type { CandleData } from './binance-api';
+import { getTimeframeMs } from './websocket-candle-builder';
+import {
+  getExcursionColumns,
+  getExpiryWindows,
+  loadSettlementCandles,
+  settleCandles,
+  type ResolutionMethod,
+  type SameCandlePolicy,
+  type SettlementResult,
+} from './signal-settlement';
+import { calculateSignalPnl, toPnlColumns } from './signal-costs';
+import { recordSignalTransition } from './signal-events';
+import { getExpiryPolicy, getSignalStrategy } from './signal-strategies';
+import { createStopManager, getManagementLookback } from './trade-management';
+import { getBlendedExitPrice, getRemainingSize, getSignalTargets } from './take-profit-targets';
+import {
+  findStructureBreak,
+  getInvalidationLookback,
+  isInvalidatedBeforeEntry,
+  toInvalidationColumns,
+  type InvalidationReason,
+  type SignalInvalidation,
+} from './signal-invalidation';
 
 /**
  * Interface for signal check result
@@ -18,12 +42,25 @@ export interface SignalCheckResult {
   currentPrice: number;
   entryHit: boolean;
   completed: boolean;
-  exitType: 'tp' | 'sl' | 'expired' | 'manual' | null;
+  exitType: 'tp' | 'sl' | 'trailing_sl' | 'time_stop' | 'expired' | 'manual' | null;
   exitPrice: number | null;
   profitLoss: number | null;
   profitLossPercent: number | null;
   updatedInDb: boolean;
   error: string | null;
+  // When and how the exit was found
+  exitTime?: string | null;
+  resolutionMethod?: ResolutionMethod | null;
+  // Profit/loss after fees, slippage and funding
+  netProfitLoss?: number | null;
+  netProfitLossPercent?: number | null;
+  // Maximum adverse/favorable excursion since the entry, in R multiples
+  maeR?: number | null;
+  mfeR?: number | null;
+  // Targets of the take-profit ladder reached so far
+  targetsHit?: number;
+  // Structure break that voided the signal before its entry
+  invalidationReason?: InvalidationReason | null;
 }
 
 /**
@@ -34,17 +71,327 @@ export interface BatchCheckResult {
   signalsUpdated: number;
   signalsCompleted: number;
   signalsExpired: number;
+  signalsInvalidated: number;
   errors: number;
   results: SignalCheckResult[];
   executionTime: number;
 }
 
+// Statuses a signal never leaves, checks only report them
+export const TERMINAL_SIGNAL_STATUSES = ['completed', 'expired', 'invalidated', 'superseded'];
+
+/**
+ * Get the time (ms) candle checks resume from: the last check, the entry or the creation of the signal
+ * @param signal Signal row from generated_signals
+ */
+export function getCheckStartTime(signal: any): number {
+  const times = [signal.created_at, signal.entry_hit_time, signal.last_checked_at]
+    .filter(Boolean)
+    .map((time) => new Date(time).getTime());
+  return Math.max(...times);
+}
+
+/**
+ * Write updates to a signal only if nobody changed it since it was read.
+ * Every change bumps generated_signals.version, so when a slow cron run, the
+ * fix route or a manual action races this one, only the first write of a
+ * version lands and the others are skipped without recording anything.
+ * @param signal Signal row from generated_signals, as read before the check
+ * @param updates Columns to write
+ * @param client Supabase client to write with
+ * @returns Whether the update was applied, and the database error if it failed
+ */
+export async function applySignalUpdate(
+  signal: any,
+  updates: Record<string, any>,
+  client: SupabaseClient | null = supabase
+): Promise<{ applied: boolean; error: string | null }> {
+  if (!client) return { applied: false, error: 'Supabase client not available' };
+  
+  const version = signal.version ?? 0;
+  const { data, error } = await client
+    .from('generated_signals')
+    .update({ ...updates, version: version + 1 })
+    .eq('signal_id', signal.signal_id)
+    .eq('version', version)
+    .select('signal_id');
+    
+  if (error) {
+    return { applied: false, error: error.message };
+  }
+  
+  if (!data || data.length === 0) {
+    console.log(`Signal ${signal.signal_id} changed since it was read (version ${version}), skipping update`);
+    return { applied: false, error: null };
+  }
+  
+  return { applied: true, error: null };
+}
+
+/**
+ * Move the check window of a signal forward after a check that changed nothing.
+ * Wider excursions are written like any other change, otherwise only
+ * last_checked_at is written: still only on the version that was read, so a
+ * stale check can't skip candles, but without bumping it, so the monitor's
+ * writes on the same row keep landing.
+ * @param signal Signal row from generated_signals, as read before the check
+ * @param checkedAt Time of the check (ISO string)
+ * @param excursion MAE/MFE columns after the check, null before the entry
+ * @param client Supabase client to write with
+ */
+export async function markSignalChecked(
+  signal: any,
+  checkedAt: string,
+  excursion: Record<string, any> | null,
+  client: SupabaseClient | null = supabase
+): Promise<void> {
+  if (!client) return;
+  
+  if (excursion && (excursion.mae !== (Number(signal.mae) || 0) || excursion.mfe !== (Number(signal.mfe) || 0))) {
+    await applySignalUpdate(signal, { last_checked_at: checkedAt, ...excursion }, client);
+    return;
+  }
+  
+  const { error } = await client
+    .from('generated_signals')
+    .update({ last_checked_at: checkedAt })
+    .eq('signal_id', signal.signal_id)
+    .eq('version', signal.version ?? 0);
+    
+  if (error) {
+    console.error(`Error recording the check of signal ${signal.signal_id}:`, error);
+  }
+}
+
+/**
+ * Get the stop currently in force for a signal, after any breakeven or trailing moves
+ * @param signal Signal row from generated_signals
+ */
+export function getCurrentStopLoss(signal: any): number {
+  return signal.current_stop_loss ?? signal.stop_loss;
+}
+
+// Function to settle a signal on a single price when no candles are available
+function settleOnPrice(signal: any, currentPrice: number, now: number): SettlementResult {
+  const isLong = signal.signal_type === 'long';
+  const stopLoss = getCurrentStopLoss(signal);
+  const result: SettlementResult = {
+    entryTime: signal.entry_hit ? new Date(signal.entry_hit_time || signal.created_at).getTime() : null,
+    exitType: null,
+    exitPrice: null,
+    exitTime: null,
+    resolutionMethod: null,
+    maxAdverseExcursion: 0,
+    maxFavorableExcursion: 0,
+    stopLoss,
+    stopRule: null,
+    targetFills: [...(signal.take_profit_fills ?? [])]
+  };
+
+  if (result.entryTime === null && (isLong ? currentPrice <= signal.entry_price : currentPrice >= signal.entry_price)) {
+    result.entryTime = now;
+  }
+
+  if (result.entryTime !== null) {
+    // The price seen now is the only point known between checks
+    const move = (currentPrice - signal.entry_price) * (isLong ? 1 : -1);
+    result.maxAdverseExcursion = Math.min(Math.abs(signal.entry_price - signal.stop_loss), Math.max(0, -move));
+    result.maxFavorableExcursion = Math.min(Math.abs(signal.take_profit - signal.entry_price), Math.max(0, move));
+    
+    // Close part of the position at every open target the price is through
+    getSignalTargets(signal).forEach((target, index) => {
+      const reached = isLong ? currentPrice >= target.price : currentPrice <= target.price;
+      if (reached && !result.targetFills.some((fill) => fill.index === index)) {
+        result.targetFills.push({ index, price: target.price, weight: target.weight, time: now });
+      }
+    });
+    
+    if (getRemainingSize(result.targetFills) === 0) {
+      const exitPrice = getBlendedExitPrice(result.targetFills, 0);
+      Object.assign(result, { exitType: 'tp', exitPrice, exitTime: now, resolutionMethod: 'ticker' });
+    } else if (isLong ? currentPrice <= stopLoss : currentPrice >= stopLoss) {
+      const exitType = stopLoss !== signal.stop_loss ? 'trailing_sl' : 'sl';
+      const exitPrice = getBlendedExitPrice(result.targetFills, stopLoss);
+      Object.assign(result, { exitType, exitPrice, exitTime: now, resolutionMethod: 'ticker' });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Settle a signal on the candles formed since it was last checked, so wicks
+ * between cron runs are not missed. Falls back to the current price when no
+ * candles can be loaded. Signals whose entry is not reached within the entry
+ * window of their strategy and timeframe expire, filled ones past their time
+ * stop are closed at market.
+ * @param signal Signal row from generated_signals
+ * @param currentPrice Latest price of the pair
+ * @param options Preloaded candles of the signal's pair and timeframe, and the same-candle policy
+ */
+export async function settleSignalSinceLastCheck(
+  signal: any,
+  currentPrice: number,
+  options: { candles?: CandleData[]; policy?: SameCandlePolicy; now?: number } = {}
+): Promise<SettlementResult> {
+  const now = options.now ?? Date.now();
+  const timeframeMs = getTimeframeMs(signal.timeframe);
+  const createdAt = new Date(signal.created_at).getTime();
+  const { entryWindowMs, timeStopMs } = getExpiryWindows(
+    signal.timeframe,
+    getExpiryPolicy(signal.signal_source, signal.timeframe)
+  );
+
+  // Include the candle that was still forming at the last check, but not the one the
+  // signal was created in, its wicks may come from before the signal existed
+  const startTime = Math.max(
+    Math.floor(getCheckStartTime(signal) / timeframeMs) * timeframeMs,
+    Math.ceil(createdAt / timeframeMs) * timeframeMs
+  );
+
+  let candles = options.candles;
+  if (!candles) {
+    try {
+      candles = await loadSettlementCandles(signal.pair, signal.timeframe, startTime, now);
+    } catch (error) {
+      console.error(`Error loading candles for signal ${signal.signal_id}:`, error);
+      candles = [];
+    }
+  }
+  candles = candles.filter((candle) => candle.time * 1000 >= startTime && candle.time * 1000 <= now);
+
+  let settlement: SettlementResult;
+  if (candles.length > 0) {
+    // Breakeven and trailing rules of the signal's strategy, with the history they look back on
+    const rules = getSignalStrategy(signal.signal_source)?.management ?? [];
+    const lookback = getManagementLookback(rules);
+    let history: CandleData[] = [];
+    if (lookback > 0) {
+      try {
+        history = await loadSettlementCandles(signal.pair, signal.timeframe, startTime - lookback * timeframeMs, startTime - 1);
+      } catch (error) {
+        console.error(`Error loading management history for signal ${signal.signal_id}:`, error);
+      }
+    }
+    
+    // The stop only moves on closed candles, the forming kline could still close anywhere
+    const closedCandles = candles.filter((candle) => candle.time * 1000 + timeframeMs <= now);
+    
+    settlement = await settleCandles(signal, candles, {
+      entryTime: signal.entry_hit ? new Date(signal.entry_hit_time || signal.created_at).getTime() : null,
+      expiresAt: createdAt + entryWindowMs,
+      timeStopAfter: timeStopMs,
+      policy: options.policy,
+      pair: signal.pair,
+      timeframe: signal.timeframe,
+      stopLoss: getCurrentStopLoss(signal),
+      targetFills: signal.take_profit_fills ?? [],
+      adjustStop: createStopManager(signal, rules, [...history.filter((candle) => candle.time * 1000 < startTime), ...closedCandles])
+    });
+  } else {
+    settlement = settleOnPrice(signal, currentPrice, now);
+  }
+
+  // Expire by age even if the candles stopped short of now
+  if (settlement.entryTime === null && !settlement.exitType && now - createdAt > entryWindowMs) {
+    Object.assign(settlement, { exitType: 'expired', exitPrice: currentPrice, exitTime: now, resolutionMethod: 'ticker' });
+  }
+  
+  // Same for the time stop of filled signals
+  if (settlement.entryTime !== null && !settlement.exitType && timeStopMs !== undefined && now >= settlement.entryTime + timeStopMs) {
+    const exitPrice = getBlendedExitPrice(settlement.targetFills, currentPrice);
+    Object.assign(settlement, { exitType: 'time_stop', exitPrice, exitTime: now, resolutionMethod: 'ticker' });
+  }
+
+  return settlement;
+}
+
+// Function to get the time (ms) structure checks start from, the invalidation lookback before the signal's creation
+function getStructureStartTime(signal: any, timeframeMs: number): number {
+  return new Date(signal.created_at).getTime() - getInvalidationLookback() * timeframeMs;
+}
+
+/**
+ * Get the time (ms) candles preloaded for a signal start from: its check start,
+ * or the structure lookback when a waiting signal's structure check looks further back
+ * @param signal Signal row from generated_signals
+ * @param timeframeMs Length of a candle of the signal's timeframe
+ */
+export function getCandleLoadStartTime(signal: any, timeframeMs: number): number {
+  if (signal.entry_hit) return getCheckStartTime(signal);
+  return Math.min(getCheckStartTime(signal), getStructureStartTime(signal, timeframeMs));
+}
+
+/**
+ * Load the candles a structure check of a signal runs on, from the invalidation
+ * lookback before the signal was created
+ * @param signal Signal row from generated_signals
+ * @param now Time (ms) the check runs at
+ */
+export async function loadStructureCandles(signal: any, now: number = Date.now()): Promise<CandleData[]> {
+  const timeframeMs = getTimeframeMs(signal.timeframe);
+  return loadSettlementCandles(signal.pair, signal.timeframe, getStructureStartTime(signal, timeframeMs), now);
+}
+
+/**
+ * Look for a structure break of a waiting signal on candles already loaded,
+ * so recorded candles give the same decision as live ones
+ * @param signal Signal row from generated_signals
+ * @param candles Candles of the signal's pair and timeframe
+ * @param now Time (ms) the check runs at
+ */
+export function findSignalStructureBreak(signal: any, candles: CandleData[], now: number): SignalInvalidation | null {
+  if (signal.entry_hit || !signal.created_at) return null;
+  
+  const timeframeMs = getTimeframeMs(signal.timeframe);
+  const startTime = getStructureStartTime(signal, timeframeMs);
+  
+  // Only closed candles can break structure
+  const closed = candles.filter((candle) => candle.time * 1000 >= startTime && candle.time * 1000 + timeframeMs <= now);
+  return findStructureBreak(signal, closed, timeframeMs);
+}
+
+/**
+ * Look for a structure break of a waiting signal on the closed candles since it
+ * was created: its major level traded by body, or an opposite major level formed.
+ * Filled signals are left to their stop.
+ * @param signal Signal row from generated_signals
+ * @param options Preloaded candles of the signal's pair and timeframe (with the lookback before the signal)
+ */
+export async function checkSignalStructure(
+  signal: any,
+  options: { candles?: CandleData[]; now?: number } = {}
+): Promise<SignalInvalidation | null> {
+  if (signal.entry_hit || !signal.created_at) return null;
+  
+  const now = options.now ?? Date.now();
+  
+  let candles = options.candles;
+  if (!candles) {
+    try {
+      candles = await loadStructureCandles(signal, now);
+    } catch (error) {
+      console.error(`Error loading structure candles for signal ${signal.signal_id}:`, error);
+      return null;
+    }
+  }
+  
+  return findSignalStructureBreak(signal, candles, now);
+}
+
 /**
  * Check a single trading signal against current market data
  * @param signalId ID of the signal to check
+ * @param policy Same-candle policy of the settlement
+ * @param options Client to read and write with, and a known price and candles instead of fetching them
  * @returns Detailed result of the signal check
  */
-export async function checkSignal(signalId: string): Promise<SignalCheckResult> {
+export async function checkSignal(
+  signalId: string,
+  policy?: SameCandlePolicy,
+  options: { client?: SupabaseClient | null; currentPrice?: number; candles?: CandleData[]; now?: number } = {}
+): Promise<SignalCheckResult> {
+  const client = options.client === undefined ? supabase : options.client;
   console.log(`Checking signal: ${signalId}`);
   
   // Default result structure with error state
@@ -69,11 +416,11 @@ export async function checkSignal(signalId: string): Promise<SignalCheckResult>
   
   try {
     // 1. Fetch signal details from database
-    if (!supabase) {
+    if (!client) {
       return { ...defaultResult, error: 'Supabase client not available' };
     }
     
-    const { data: signal, error } = await supabase
+    const { data: signal, error } = await client
       .from('generated_signals')
       .select('*')
       .eq('signal_id', signalId)
@@ -86,7 +433,9 @@ export async function checkSignal(signalId: string): Promise<SignalCheckResult>
     // 2. Get current market price for the signal's pair
     let currentPrice: number;
     try {
-      const tickerData = await fetchBinanceTicker(signal.pair);
+      const tickerData = options.currentPrice !== undefined
+        ? { lastPrice: String(options.currentPrice) }
+        : await fetchBinanceTicker(signal.pair);
       currentPrice = parseFloat(tickerData.lastPrice);
       
       if (!currentPrice || isNaN(currentPrice)) {
@@ -125,7 +474,7 @@ export async function checkSignal(signalId: string): Promise<SignalCheckResult>
       takeProfit: signal.take_profit,
       currentPrice,
       entryHit: signal.entry_hit || false,
-      completed: signal.status === 'completed' || signal.status === 'expired',
+      completed: TERMINAL_SIGNAL_STATUSES.includes(signal.status),
       exitType: signal.exit_type || null,
       exitPrice: signal.exit_price || null,
       profitLoss: signal.profit_loss || null,
@@ -139,118 +488,130 @@ export async function checkSignal(signalId: string): Promise<SignalCheckResult>
       return result;
     }
     
-    // 5. Check entry hit status (if not already hit)
+    // 5. Walk the candles formed since the last check
     let updateNeeded = false;
+    const checkedAt = new Date().toISOString();
     const updates: Record<string, any> = {
-      updated_at: new Date().toISOString()
+      updated_at: checkedAt,
+      last_checked_at: checkedAt
     };
     
-    if (!result.entryHit) {
-      // Check if price has hit entry level
-      if (
-        (result.signalType === 'long' && currentPrice <= result.entryPrice) ||
-        (result.signalType === 'short' && currentPrice >= result.entryPrice)
-      ) {
-        // Entry price has been hit
-        result.entryHit = true;
-        updates.entry_hit = true;
-        updates.entry_hit_time = new Date().toISOString();
-        updateNeeded = true;
-        console.log(`Entry hit for ${result.pair} ${result.timeframe} ${result.signalType} signal at ${currentPrice}`);
+    const settlement = await settleSignalSinceLastCheck(signal, currentPrice, {
+      policy,
+      candles: options.candles,
+      now: options.now
+    });
+    
+    // 6. Void a waiting signal whose structure broke before the entry filled
+    const invalidation = await checkSignalStructure(signal, { candles: options.candles, now: options.now });
+    if (isInvalidatedBeforeEntry(invalidation, settlement.entryTime)) {
+      Object.assign(updates, toInvalidationColumns(invalidation));
+      result.completed = true;
+      result.invalidationReason = invalidation.reason;
+      console.log(`${result.pair} ${result.timeframe} ${result.signalType} signal invalidated: ${invalidation.reason} at ${invalidation.levelPrice}`);
+      
+      const { applied, error: updateError } = await applySignalUpdate(signal, updates, client);
+      
+      if (updateError) {
+        result.error = `Error updating signal: ${updateError}`;
+      } else if (applied) {
+        result.updatedInDb = true;
+        await recordSignalTransition(signal, updates, 'checker', { current_price: currentPrice }, client);
       }
+      return result;
     }
     
-    // 6. If entry has been hit, check for TP/SL
-    if (result.entryHit) {
-      if (result.signalType === 'long') {
-        // For long signals
-        if (currentPrice >= result.takeProfit) {
-          // Take profit hit
-          result.completed = true;
-          result.exitType = 'tp';
-          result.exitPrice = result.takeProfit;
-          updateNeeded = true;
-          console.log(`Take profit hit for ${result.pair} ${result.signalType} signal at ${currentPrice}`);
-        } else if (currentPrice <= result.stopLoss) {
-          // Stop loss hit
-          result.completed = true;
-          result.exitType = 'sl';
-          result.exitPrice = result.stopLoss;
-          updateNeeded = true;
-          console.log(`Stop loss hit for ${result.pair} ${result.signalType} signal at ${currentPrice}`);
-        }
-      } else {
-        // For short signals
-        if (currentPrice <= result.takeProfit) {
-          // Take profit hit
-          result.completed = true;
-          result.exitType = 'tp';
-          result.exitPrice = result.takeProfit;
-          updateNeeded = true;
-          console.log(`Take profit hit for ${result.pair} ${result.signalType} signal at ${currentPrice}`);
-        } else if (currentPrice >= result.stopLoss) {
-          // Stop loss hit
-          result.completed = true;
-          result.exitType = 'sl';
-          result.exitPrice = result.stopLoss;
-          updateNeeded = true;
-          console.log(`Stop loss hit for ${result.pair} ${result.signalType} signal at ${currentPrice}`);
-        }
-      }
+    // 7. Record the entry (if not already hit)
+    if (!result.entryHit && settlement.entryTime !== null) {
+      result.entryHit = true;
+      updates.entry_hit = true;
+      updates.entry_hit_time = new Date(settlement.entryTime).toISOString();
+      if (signal.status === 'waiting') updates.status = 'active';
+      updateNeeded = true;
+      console.log(`Entry hit for ${result.pair} ${result.timeframe} ${result.signalType} signal at ${updates.entry_hit_time}`);
     }
     
-    // 7. Check for signal expiration (if not yet activated after 7 days)
-    if (!result.entryHit) {
-      const signalAge = Date.now() - new Date(signal.created_at).getTime();
-      const maxSignalAge = 7 * 24 * 60 * 60 * 1000; // 7 days
-      
-      if (signalAge > maxSignalAge) {
-        result.completed = true;
-        result.exitType = 'expired';
-        result.exitPrice = currentPrice;
-        updateNeeded = true;
-        console.log(`Signal expired for ${result.pair} ${result.timeframe} ${result.signalType} signal`);
-      }
+    // 8. Record the exit (take profit, stop loss or expiry)
+    if (settlement.exitType && settlement.exitPrice !== null) {
+      result.completed = true;
+      result.exitType = settlement.exitType;
+      result.exitPrice = settlement.exitPrice;
+      result.exitTime = new Date(settlement.exitTime ?? Date.now()).toISOString();
+      result.resolutionMethod = settlement.resolutionMethod;
+      updateNeeded = true;
+      console.log(`${settlement.exitType.toUpperCase()} for ${result.pair} ${result.timeframe} ${result.signalType} signal at ${result.exitPrice} (${settlement.resolutionMethod})`);
+    }
+    
+    // Widen the stored MAE/MFE with the candles since the last check
+    const excursion = getExcursionColumns(signal, settlement);
+    if (excursion) {
+      Object.assign(updates, excursion);
+      result.maeR = excursion.mae_r;
+      result.mfeR = excursion.mfe_r;
+    }
+    
+    // Keep the stop moved by breakeven or trailing rules next to the original one
+    if (settlement.stopLoss !== getCurrentStopLoss(signal)) {
+      updates.current_stop_loss = settlement.stopLoss;
+      updates.stop_rule = settlement.stopRule;
+      updateNeeded = true;
+      console.log(`Stop of ${result.pair} ${result.timeframe} ${result.signalType} signal moved to ${settlement.stopLoss} (${settlement.stopRule})`);
+    }
+    
+    // Record targets of the take-profit ladder the position was partially closed at
+    result.targetsHit = settlement.targetFills.length;
+    if (settlement.targetFills.length > (signal.take_profit_fills?.length ?? 0)) {
+      updates.take_profit_fills = settlement.targetFills;
+      updateNeeded = true;
+      console.log(`${settlement.targetFills.length} targets hit for ${result.pair} ${result.timeframe} ${result.signalType} signal`);
     }
     
-    // 8. If signal completed, calculate profit/loss
+    // 9. If signal completed, calculate gross and net profit/loss
     if (result.completed && result.exitPrice) {
-      let profitLoss = 0;
+      const pnl = calculateSignalPnl({
+        signalType: result.signalType,
+        entryPrice: result.entryPrice,
+        exitPrice: result.exitPrice,
+        exitType: result.exitType,
+        entryTime: updates.entry_hit_time || signal.entry_hit_time,
+        exitTime: result.exitTime,
+        targetFills: settlement.targetFills,
+      });
       
-      if (result.signalType === 'long') {
-        profitLoss = result.exitPrice - result.entryPrice;
-      } else {
-        profitLoss = result.entryPrice - result.exitPrice;
-      }
-      
-      result.profitLoss = profitLoss;
-      result.profitLossPercent = (profitLoss / result.entryPrice) * 100;
+      result.profitLoss = pnl.grossProfitLoss;
+      result.profitLossPercent = pnl.grossProfitLossPercent;
+      result.netProfitLoss = pnl.netProfitLoss;
+      result.netProfitLossPercent = pnl.netProfitLossPercent;
       
       // Add to updates
       updates.status = result.exitType === 'expired' ? 'expired' : 'completed';
       updates.exit_type = result.exitType;
       updates.exit_price = result.exitPrice;
-      updates.exit_time = new Date().toISOString();
-      updates.profit_loss = result.profitLoss;
-      updates.profit_loss_percent = result.profitLossPercent;
+      updates.exit_time = result.exitTime;
+      Object.assign(updates, toPnlColumns(pnl));
+      updates.resolution_method = result.resolutionMethod;
     }
     
-    // 9. Update database if needed
-    if (updateNeeded) {
+    // 10. Update database if needed
+    if (!updateNeeded) {
+      // Only move the check window forward and widen the excursions
+      await markSignalChecked(signal, checkedAt, excursion, client);
+    } else {
       try {
-        const { error: updateError } = await supabase
-          .from('generated_signals')
-          .update(updates)
-          .eq('signal_id', signalId);
+        const { applied, error: updateError } = await applySignalUpdate(signal, updates, client);
           
         if (updateError) {
-          result.error = `Error updating signal: ${updateError.message}`;
+          result.error = `Error updating signal: ${updateError}`;
+        } else if (!applied) {
+          // Another checker settled the signal first, report it as it was read
+          result.completed = false;
         } else {
           result.updatedInDb = true;
+          await recordSignalTransition(signal, updates, 'checker', { current_price: currentPrice }, client);
           
           // If signal was completed, also store in completed_signals table
           if (result.completed && result.exitPrice) {
-            await storeCompletedSignal(signal, result);
+            await storeCompletedSignal({ ...signal, ...updates }, result, client);
           }
         }
       } catch (updateError) {
@@ -268,32 +629,52 @@ export async function checkSignal(signalId: string): Promise<SignalCheckResult>
 }
 
 /**
- * Store a completed signal in the completed_signals table
+ * Store a completed signal in the completed_signals table. The insert is
+ * idempotent, a signal already stored (by another checker or the sync) is left as it is.
  * @param signal Original signal data from database
  * @param result Signal check result
+ * @param client Supabase client to write with
  */
-async function storeCompletedSignal(signal: any, result: SignalCheckResult): Promise<void> {
-  if (!supabase || !result.exitPrice || !result.exitType) return;
+export async function storeCompletedSignal(
+  signal: any,
+  result: SignalCheckResult,
+  client: SupabaseClient | null = supabase
+): Promise<void> {
+  if (!client || !result.exitPrice || !result.exitType) return;
   
   try {
-    const { error } = await supabase.from('completed_signals').insert({
+    const { error } = await client.from('completed_signals').upsert({
       signal_id: signal.signal_id,
       signal_type: signal.signal_type,
       entry_price: signal.entry_price,
       stop_loss: signal.stop_loss,
       take_profit: signal.take_profit,
+      take_profit_levels: signal.take_profit_levels ?? null,
+      take_profit_fills: signal.take_profit_fills ?? null,
       exit_price: result.exitPrice,
       exit_type: result.exitType,
       entry_time: signal.entry_hit_time || signal.created_at,
-      exit_time: new Date().toISOString(),
+      exit_time: result.exitTime || new Date().toISOString(),
       pair: signal.pair,
       timeframe: signal.timeframe,
       profit_loss: result.profitLoss || 0,
       profit_loss_percent: result.profitLossPercent || 0,
+      net_profit_loss: signal.net_profit_loss ?? null,
+      net_profit_loss_percent: signal.net_profit_loss_percent ?? null,
+      fee_cost: signal.fee_cost ?? null,
+      slippage_cost: signal.slippage_cost ?? null,
+      funding_cost: signal.funding_cost ?? null,
       risk_reward_ratio: signal.risk_reward_ratio || 0,
       signal_source: signal.signal_source || 'unknown',
+      strategy_version: signal.strategy_version || null,
+      resolution_method: result.resolutionMethod || null,
+      current_stop_loss: signal.current_stop_loss ?? null,
+      mae: signal.mae ?? null,
+      mfe: signal.mfe ?? null,
+      mae_r: signal.mae_r ?? null,
+      mfe_r: signal.mfe_r ?? null,
       notes: signal.notes || null,
-    });
+    }, { onConflict: 'signal_id', ignoreDuplicates: true });
 
     if (error) {
       console.error(`Error storing completed signal ${signal.signal_id}:`, error);
@@ -301,7 +682,7 @@ async function storeCompletedSignal(signal: any, result: SignalCheckResult): Pro
       console.log(`Completed signal ${signal.signal_id} stored successfully`);
       
       // Mark as synced in generated_signals table
-      await supabase
+      await client
         .from('generated_signals')
         .update({ synced_to_completed: true })
         .eq('signal_id', signal.signal_id);
@@ -311,6 +692,194 @@ async function storeCompletedSignal(signal: any, result: SignalCheckResult): Pro
   }
 }
 
+/**
+ * What the check cron decided on a signal
+ */
+export interface CronSignalCheck {
+  signalId: string;
+  // none, invalidated_<reason>, entry_hit_<type>, stop_moved_<rule>, targets_hit_<count>, expired or <exit>_hit_<type>
+  action: string;
+  resolutionMethod: ResolutionMethod | null;
+  outcome: 'completed' | 'expired' | 'invalidated' | null;
+  // Whether a change was written, lost to a write since the signal was read, or failed
+  write: 'unchanged' | 'updated' | 'conflict' | 'error';
+  error: string | null;
+}
+
+/**
+ * Settle the waiting and active signals of one pair the way the check cron
+ * (/api/signals/check) does, on the price and candles it loaded once for the
+ * pair, and write every change with optimistic versioning
+ * @param signals Signal rows of the pair from generated_signals
+ * @param currentPrice Latest price of the pair
+ * @param options Preloaded candles by timeframe, same-candle policy, client and time of the check
+ * @returns Decision and write of every signal
+ */
+export async function checkPairSignalsForCron(
+  signals: any[],
+  currentPrice: number,
+  options: {
+    candlesByTimeframe: Record<string, CandleData[]>;
+    policy?: SameCandlePolicy;
+    client?: SupabaseClient | null;
+    now?: number;
+  }
+): Promise<CronSignalCheck[]> {
+  const client = options.client === undefined ? supabase : options.client;
+  const checks: CronSignalCheck[] = [];
+  
+  for (const signal of signals) {
+    const check: CronSignalCheck = {
+      signalId: signal.signal_id,
+      action: 'none',
+      resolutionMethod: null,
+      outcome: null,
+      write: 'unchanged',
+      error: null
+    };
+    checks.push(check);
+    
+    try {
+      let entryHit = signal.entry_hit || false;
+      let entryHitTime = signal.entry_hit_time;
+      let status = signal.status;
+      let isCompleted = false;
+      let exitType: SettlementResult['exitType'] = null;
+      let exitPrice: number | null = null;
+      let exitTime: Date | null = null;
+      let updateNeeded = false;
+      
+      // Walk the candles since the last check to find the exact entry and exit
+      const candles = options.candlesByTimeframe[signal.timeframe];
+      const settlement = await settleSignalSinceLastCheck(signal, currentPrice, {
+        candles,
+        policy: options.policy,
+        now: options.now
+      });
+      const excursion = getExcursionColumns(signal, settlement);
+      
+      // A waiting signal whose major level broke or structure turned before the entry filled is void
+      const invalidation = status === 'waiting' ? await checkSignalStructure(signal, { candles, now: options.now }) : null;
+      const invalidated = isInvalidatedBeforeEntry(invalidation, settlement.entryTime);
+      if (invalidated) {
+        status = 'invalidated';
+        updateNeeded = true;
+        check.action = `invalidated_${invalidation.reason}`;
+        console.log(`${signal.pair} ${signal.timeframe} ${signal.signal_type.toUpperCase()} signal invalidated: ${invalidation.reason} at ${invalidation.levelPrice}`);
+      }
+      
+      // First check if entry price has been hit (if not already) - only for 'waiting' status
+      if (!invalidated && !entryHit && status === 'waiting' && settlement.entryTime !== null) {
+        entryHit = true;
+        entryHitTime = new Date(settlement.entryTime).toISOString();
+        status = 'active';
+        updateNeeded = true;
+        check.action = `entry_hit_${signal.signal_type}`;
+        console.log(`Entry hit for ${signal.pair} ${signal.timeframe} ${signal.signal_type.toUpperCase()} signal at ${entryHitTime} - status changed to active`);
+      }
+      
+      // Breakeven or trailing rules moved the stop
+      const stopMoved = !invalidated && settlement.stopLoss !== getCurrentStopLoss(signal);
+      if (stopMoved) {
+        updateNeeded = true;
+        check.action = `stop_moved_${settlement.stopRule}`;
+      }
+      
+      // Partial take profits on the ladder
+      const targetsFilled = !invalidated && settlement.targetFills.length > (signal.take_profit_fills?.length ?? 0);
+      if (targetsFilled) {
+        updateNeeded = true;
+        check.action = `targets_hit_${settlement.targetFills.length}`;
+      }
+      
+      // Take profit, stop loss, or expiration of a signal still in waiting status
+      if (!invalidated && settlement.exitType && (settlement.exitType !== 'expired' || status === 'waiting')) {
+        isCompleted = true;
+        exitType = settlement.exitType;
+        exitPrice = settlement.exitPrice;
+        exitTime = new Date(settlement.exitTime ?? Date.now());
+        status = settlement.exitType === 'expired' ? 'expired' : 'completed';
+        updateNeeded = true;
+        check.action = settlement.exitType === 'expired' ? 'expired' : `${settlement.exitType}_hit_${signal.signal_type}`;
+        check.resolutionMethod = settlement.resolutionMethod;
+        console.log(`${settlement.exitType.toUpperCase()} for ${signal.pair} ${signal.timeframe} ${signal.signal_type.toUpperCase()} signal at ${exitPrice} (${settlement.resolutionMethod})`);
+      }
+      
+      // If nothing changed, only move the check window forward and widen the excursions
+      if (!updateNeeded) {
+        await markSignalChecked(signal, new Date().toISOString(), excursion, client);
+        continue;
+      }
+      
+      const updateData: Record<string, any> = {
+        entry_hit: entryHit,
+        status,
+        updated_at: new Date().toISOString(),
+        last_checked_at: new Date().toISOString(),
+        ...excursion
+      };
+      
+      if (entryHit && !signal.entry_hit) {
+        updateData.entry_hit_time = entryHitTime;
+      }
+      
+      if (invalidated) {
+        Object.assign(updateData, toInvalidationColumns(invalidation));
+      }
+      
+      if (stopMoved) {
+        updateData.current_stop_loss = settlement.stopLoss;
+        updateData.stop_rule = settlement.stopRule;
+      }
+      
+      if (targetsFilled) {
+        updateData.take_profit_fills = settlement.targetFills;
+      }
+      
+      if (isCompleted && exitPrice !== null) {
+        updateData.exit_type = exitType;
+        updateData.exit_price = exitPrice;
+        updateData.exit_time = exitTime?.toISOString();
+        updateData.resolution_method = settlement.resolutionMethod;
+        
+        // Calculate gross and net P&L
+        const pnl = calculateSignalPnl({
+          signalType: signal.signal_type,
+          entryPrice: signal.entry_price,
+          exitPrice,
+          exitType,
+          entryTime: entryHitTime,
+          exitTime,
+          targetFills: settlement.targetFills
+        });
+        
+        Object.assign(updateData, toPnlColumns(pnl));
+      }
+      
+      // Skipped when another run, the monitor or the fix route changed the signal since it was read
+      const { applied, error: updateError } = await applySignalUpdate(signal, updateData, client);
+      
+      if (updateError) {
+        console.error(`Error updating signal ${signal.signal_id}:`, updateError);
+        check.write = 'error';
+        check.error = updateError;
+      } else if (!applied) {
+        check.write = 'conflict';
+      } else {
+        check.write = 'updated';
+        check.outcome = invalidated ? 'invalidated' : isCompleted ? (exitType === 'expired' ? 'expired' : 'completed') : null;
+        await recordSignalTransition(signal, updateData, 'cron', { current_price: currentPrice }, client);
+      }
+    } catch (signalError) {
+      console.error(`Error processing signal ${signal.signal_id}:`, signalError);
+      check.write = 'error';
+      check.error = signalError instanceof Error ? signalError.message : String(signalError);
+    }
+  }
+  
+  return checks;
+}
+
 /**
  * Check multiple signals in a batch for efficiency
  * @param options Batch checking options
@@ -322,6 +891,7 @@ export async function checkSignalsBatch(options: {
   limit?: number;
   offset?: number;
   checkCompletedSignals?: boolean;
+  policy?: SameCandlePolicy;
 }): Promise<BatchCheckResult> {
   const startTime = Date.now();
   const limit = options.limit || 50;
@@ -333,13 +903,14 @@ export async function checkSignalsBatch(options: {
     signalsUpdated: 0,
     signalsCompleted: 0,
     signalsExpired: 0,
+    signalsInvalidated: 0,
     errors: 0,
     results: [],
     executionTime: 0
   };
   
   try {
-    // 1. Get active signals from database
+    // 1. Get waiting and active signals from database
     if (!supabase) {
       throw new Error('Supabase client not available');
     }
@@ -348,9 +919,9 @@ export async function checkSignalsBatch(options: {
       .from('generated_signals')
       .select('signal_id');
       
-    // Only check active signals unless specifically requested to check completed ones
+    // Only check open signals unless specifically requested to check completed ones
     if (!options.checkCompletedSignals) {
-      query = query.eq('status', 'active');
+      query = query.in('status', ['waiting', 'active']);
     }
     
     // Apply filters if provided
@@ -377,14 +948,16 @@ export async function checkSignalsBatch(options: {
     // 2. Check each signal
     for (const signal of signals || []) {
       try {
-        const checkResult = await checkSignal(signal.signal_id);
+        const checkResult = await checkSignal(signal.signal_id, options.policy);
         result.results.push(checkResult);
         
         // Update counters
         if (checkResult.updatedInDb) {
           result.signalsUpdated++;
           
-          if (checkResult.completed) {
+          if (checkResult.invalidationReason) {
+            result.signalsInvalidated++;
+          } else if (checkResult.completed) {
             if (checkResult.exitType === 'expired') {
               result.signalsExpired++;
             } else {
@@ -440,6 +1013,7 @@ export async function checkSignalsGroupedByPair(options: {
   timeframe?: string;
   limit?: number;
   offset?: number;
+  policy?: SameCandlePolicy;
 }): Promise<BatchCheckResult> {
   const startTime = Date.now();
   const limit = options.limit || 100;
@@ -451,13 +1025,14 @@ export async function checkSignalsGroupedByPair(options: {
     signalsUpdated: 0,
     signalsCompleted: 0,
     signalsExpired: 0,
+    signalsInvalidated: 0,
     errors: 0,
     results: [],
     executionTime: 0
   };
   
   try {
-    // 1. Get active signals from database
+    // 1. Get waiting and active signals from database
     if (!supabase) {
       throw new Error('Supabase client not available');
     }
@@ -465,7 +1040,7 @@ export async function checkSignalsGroupedByPair(options: {
     let query = supabase
       .from('generated_signals')
       .select('*')
-      .eq('status', 'active')
+      .in('status', ['waiting', 'active'])
       .order('pair', { ascending: true })
       .range(offset, offset + limit - 1);
       
@@ -526,110 +1101,168 @@ export async function checkSignalsGroupedByPair(options: {
           continue;
         }
         
-        // Process each signal with the current price
+        // Load candles once per timeframe, starting at the oldest check or structure lookback of the group
+        const candlesByTimeframe: Record<string, CandleData[]> = {};
+        for (const timeframe of new Set(pairSignals.map((signal) => signal.timeframe as string))) {
+          const timeframeSignals = pairSignals.filter((signal) => signal.timeframe === timeframe);
+          const timeframeMs = getTimeframeMs(timeframe);
+          const since = Math.min(...timeframeSignals.map((signal) => getCandleLoadStartTime(signal, timeframeMs)));
+          try {
+            candlesByTimeframe[timeframe] = await loadSettlementCandles(
+              pair,
+              timeframe,
+              Math.floor(since / timeframeMs) * timeframeMs,
+              Date.now()
+            );
+          } catch (candleError) {
+            console.error(`Error loading ${timeframe} candles for ${pair}:`, candleError);
+            candlesByTimeframe[timeframe] = [];
+          }
+        }
+        
+        // Process each signal with the current price and candles
         for (const signal of pairSignals) {
           try {
-            // Check entry conditions
             let entryHit = signal.entry_hit || false;
             let completed = false;
-            let exitType: 'tp' | 'sl' | 'expired' | null = null;
+            let exitType: 'tp' | 'sl' | 'trailing_sl' | 'time_stop' | 'expired' | null = null;
             let exitPrice: number | null = null;
+            let exitTime: string | null = null;
             let profitLoss: number | null = null;
             let profitLossPercent: number | null = null;
+            let netProfitLoss: number | null = null;
+            let netProfitLossPercent: number | null = null;
             let updateNeeded = false;
             let error: string | null = null;
             
+            const checkedAt = new Date().toISOString();
             const updates: Record<string, any> = {
-              updated_at: new Date().toISOString()
+              updated_at: checkedAt,
+              last_checked_at: checkedAt
             };
             
-            // Check entry hit (if not already hit)
-            if (!entryHit) {
-              if (
-                (signal.signal_type === 'long' && currentPrice <= signal.entry_price) ||
-                (signal.signal_type === 'short' && currentPrice >= signal.entry_price)
-              ) {
-                entryHit = true;
-                updates.entry_hit = true;
-                updates.entry_hit_time = new Date().toISOString();
-                updateNeeded = true;
+            const settlement = await settleSignalSinceLastCheck(signal, currentPrice, {
+              candles: candlesByTimeframe[signal.timeframe],
+              policy: options.policy
+            });
+            
+            // Void a waiting signal whose structure broke before the entry filled
+            const invalidation = await checkSignalStructure(signal, { candles: candlesByTimeframe[signal.timeframe] });
+            if (isInvalidatedBeforeEntry(invalidation, settlement.entryTime)) {
+              Object.assign(updates, toInvalidationColumns(invalidation));
+              
+              const { applied, error: updateError } = await applySignalUpdate(signal, updates);
+                
+              if (updateError) {
+                result.errors++;
+              } else if (applied) {
+                result.signalsUpdated++;
+                result.signalsInvalidated++;
+                await recordSignalTransition(signal, updates, 'checker', { current_price: currentPrice });
               }
+              
+              result.results.push({
+                id: signal.signal_id,
+                pair: signal.pair,
+                timeframe: signal.timeframe,
+                signalType: signal.signal_type,
+                entryPrice: signal.entry_price,
+                stopLoss: signal.stop_loss,
+                takeProfit: signal.take_profit,
+                currentPrice,
+                entryHit: false,
+                completed: true,
+                exitType: null,
+                exitPrice: null,
+                profitLoss: null,
+                profitLossPercent: null,
+                updatedInDb: applied,
+                error: updateError ? `Error updating signal: ${updateError}` : null,
+                invalidationReason: invalidation.reason
+              });
+              continue;
             }
             
-            // Check TP/SL if entry has been hit
-            if (entryHit) {
-              if (signal.signal_type === 'long') {
-                if (currentPrice >= signal.take_profit) {
-                  completed = true;
-                  exitType = 'tp';
-                  exitPrice = signal.take_profit;
-                  updateNeeded = true;
-                } else if (currentPrice <= signal.stop_loss) {
-                  completed = true;
-                  exitType = 'sl';
-                  exitPrice = signal.stop_loss;
-                  updateNeeded = true;
-                }
-              } else {
-                if (currentPrice <= signal.take_profit) {
-                  completed = true;
-                  exitType = 'tp';
-                  exitPrice = signal.take_profit;
-                  updateNeeded = true;
-                } else if (currentPrice >= signal.stop_loss) {
-                  completed = true;
-                  exitType = 'sl';
-                  exitPrice = signal.stop_loss;
-                  updateNeeded = true;
-                }
-              }
+            // Check entry hit (if not already hit)
+            if (!entryHit && settlement.entryTime !== null) {
+              entryHit = true;
+              updates.entry_hit = true;
+              updates.entry_hit_time = new Date(settlement.entryTime).toISOString();
+              if (signal.status === 'waiting') updates.status = 'active';
+              updateNeeded = true;
             }
             
-            // Check for expiration
-            if (!entryHit) {
-              const signalAge = Date.now() - new Date(signal.created_at).getTime();
-              const maxSignalAge = 7 * 24 * 60 * 60 * 1000; // 7 days
-              
-              if (signalAge > maxSignalAge) {
-                completed = true;
-                exitType = 'expired';
-                exitPrice = currentPrice;
-                updateNeeded = true;
-              }
+            // Check TP/SL and expiration
+            if (settlement.exitType && settlement.exitPrice !== null) {
+              completed = true;
+              exitType = settlement.exitType;
+              exitPrice = settlement.exitPrice;
+              exitTime = new Date(settlement.exitTime ?? Date.now()).toISOString();
+              updates.resolution_method = settlement.resolutionMethod;
+              updateNeeded = true;
+            }
+            
+            // Widen the stored MAE/MFE with the candles since the last check
+            const excursion = getExcursionColumns(signal, settlement);
+            if (excursion) {
+              Object.assign(updates, excursion);
             }
             
-            // Calculate profit/loss if completed
+            // Keep the stop moved by breakeven or trailing rules next to the original one
+            if (settlement.stopLoss !== getCurrentStopLoss(signal)) {
+              updates.current_stop_loss = settlement.stopLoss;
+              updates.stop_rule = settlement.stopRule;
+              updateNeeded = true;
+            }
+            
+            // Record targets of the take-profit ladder the position was partially closed at
+            if (settlement.targetFills.length > (signal.take_profit_fills?.length ?? 0)) {
+              updates.take_profit_fills = settlement.targetFills;
+              updateNeeded = true;
+            }
+            
+            // Calculate gross and net profit/loss if completed
             if (completed && exitPrice !== null) {
-              if (signal.signal_type === 'long') {
-                profitLoss = exitPrice - signal.entry_price;
-              } else {
-                profitLoss = signal.entry_price - exitPrice;
-              }
+              const pnl = calculateSignalPnl({
+                signalType: signal.signal_type,
+                entryPrice: signal.entry_price,
+                exitPrice,
+                exitType,
+                entryTime: updates.entry_hit_time || signal.entry_hit_time,
+                exitTime,
+                targetFills: settlement.targetFills,
+              });
               
-              profitLossPercent = (profitLoss / signal.entry_price) * 100;
+              profitLoss = pnl.grossProfitLoss;
+              profitLossPercent = pnl.grossProfitLossPercent;
+              netProfitLoss = pnl.netProfitLoss;
+              netProfitLossPercent = pnl.netProfitLossPercent;
               
               // Add to updates
               updates.status = exitType === 'expired' ? 'expired' : 'completed';
               updates.exit_type = exitType;
               updates.exit_price = exitPrice;
-              updates.exit_time = new Date().toISOString();
-              updates.profit_loss = profitLoss;
-              updates.profit_loss_percent = profitLossPercent;
+              updates.exit_time = exitTime;
+              Object.assign(updates, toPnlColumns(pnl));
             }
             
             // Update database if needed
             let updatedInDb = false;
-            if (updateNeeded) {
+            if (!updateNeeded) {
+              // Only move the check window forward and widen the excursions
+              await markSignalChecked(signal, checkedAt, excursion);
+            } else {
               try {
-                const { error: updateError } = await supabase
-                  .from('generated_signals')
-                  .update(updates)
-                  .eq('signal_id', signal.signal_id);
+                const { applied, error: updateError } = await applySignalUpdate(signal, updates);
                   
                 if (updateError) {
-                  error = `Error updating signal: ${updateError.message}`;
+                  error = `Error updating signal: ${updateError}`;
+                } else if (!applied) {
+                  // Another checker settled the signal first
+                  completed = false;
                 } else {
                   updatedInDb = true;
+                  await recordSignalTransition(signal, updates, 'checker', { current_price: currentPrice });
                   
                   // Count updates
                   result.signalsUpdated++;
@@ -643,7 +1276,7 @@ export async function checkSignalsGroupedByPair(options: {
                     
                     // Store in completed_signals table
                     try {
-                      await storeCompletedSignal(signal, {
+                      await storeCompletedSignal({ ...signal, ...updates }, {
                         id: signal.signal_id,
                         pair: signal.pair,
                         timeframe: signal.timeframe,
@@ -658,8 +1291,14 @@ export async function checkSignalsGroupedByPair(options: {
                         exitPrice,
                         profitLoss,
                         profitLossPercent,
+                        netProfitLoss,
+                        netProfitLossPercent,
                         updatedInDb: true,
-                        error: null
+                        error: null,
+                        exitTime,
+                        resolutionMethod: settlement.resolutionMethod,
+                        maeR: excursion?.mae_r ?? null,
+                        mfeR: excursion?.mfe_r ?? null
                       });
                     } catch (storeError) {
                       console.error(`Error storing completed signal:`, storeError);
@@ -687,8 +1326,15 @@ export async function checkSignalsGroupedByPair(options: {
               exitPrice,
               profitLoss,
               profitLossPercent,
+              netProfitLoss,
+              netProfitLossPercent,
               updatedInDb,
-              error
+              error,
+              exitTime,
+              resolutionMethod: settlement.resolutionMethod,
+              maeR: excursion?.mae_r ?? null,
+              mfeR: excursion?.mfe_r ?? null,
+              targetsHit: settlement.targetFills.length
             });
             
             if (error) {
@@ -0,0 +1,229 @@
+// Multi-timeframe confluence filter for generated signals
+
+import { fetchCandlestickData, type CandleData } from "./binance-api";
+import { calculateLiquidityLevels, type LiquidityLevel } from "./liquidity-levels";
+import { DEFAULT_SIGNAL_PARAMETERS } from "./signal-strategies";
+import type { GeneratedSignal } from "./signal-generator-service";
+import { getTimeframeMs } from "./websocket-candle-builder";
+
+// Higher timeframes checked for each signal timeframe
+export const HIGHER_TIMEFRAMES: Record<string, string[]> = {
+  "5m": ["15m", "1h"],
+  "15m": ["1h", "4h"],
+  "30m": ["1h", "4h"],
+  "1h": ["4h", "1d"],
+};
+
+/**
+ * Candles and liquidity levels of one higher timeframe
+ */
+export interface HigherTimeframeContext {
+  timeframe: string;
+  candles: CandleData[];
+  liquidityLevels: { bsl: LiquidityLevel[]; ssl: LiquidityLevel[] };
+}
+
+/**
+ * An untraded higher-timeframe level sitting between a signal's entry and take profit
+ */
+export interface BlockingLevel {
+  timeframe: string;
+  type: "BSL" | "SSL";
+  price: number;
+  isMajor: boolean;
+}
+
+/**
+ * How one higher timeframe relates to a signal
+ */
+export interface TimeframeConfluence {
+  timeframe: string;
+  bias: "bullish" | "bearish" | "neutral";
+  agrees: boolean;
+  blockingLevels: BlockingLevel[];
+}
+
+/**
+ * Confluence breakdown stored on each signal
+ */
+export interface SignalConfluence {
+  verdict: "confirmed" | "downgraded" | "rejected";
+  agreeing: string[];
+  conflicting: string[];
+  timeframes: TimeframeConfluence[];
+}
+
+// Higher timeframe candles the structure is read from
+export const CONFLUENCE_CANDLE_LIMIT = 100;
+
+// Function to read the liquidity levels of a higher timeframe with the generator's settings
+function buildHigherTimeframeContext(timeframe: string, candles: CandleData[]): HigherTimeframeContext {
+  return {
+    timeframe,
+    candles,
+    liquidityLevels: calculateLiquidityLevels(candles, {
+      swingStrength: DEFAULT_SIGNAL_PARAMETERS.swingStrength,
+      majorThreshold: DEFAULT_SIGNAL_PARAMETERS.majorThreshold,
+      reqThreshold: DEFAULT_SIGNAL_PARAMETERS.reqThreshold,
+    }),
+  };
+}
+
+/**
+ * Load closed candles and liquidity levels for the timeframes above the signal timeframe.
+ * Timeframes that fail to load are skipped.
+ * @param pair Trading pair symbol
+ * @param timeframe Signal timeframe
+ * @param limit Candles to load per higher timeframe
+ */
+export async function loadHigherTimeframeContexts(
+  pair: string,
+  timeframe: string,
+  limit = CONFLUENCE_CANDLE_LIMIT
+): Promise<HigherTimeframeContext[]> {
+  const contexts: HigherTimeframeContext[] = [];
+  const now = Date.now();
+
+  for (const higherTimeframe of HIGHER_TIMEFRAMES[timeframe] || []) {
+    try {
+      // One more than the limit, the last candle is usually still forming and left out like in replays
+      const candleMs = getTimeframeMs(higherTimeframe);
+      const candles = (await fetchCandlestickData(pair, higherTimeframe, limit + 1))
+        .filter((candle) => candle.time * 1000 + candleMs <= now)
+        .slice(-limit);
+      if (candles.length === 0) continue;
+
+      contexts.push(buildHigherTimeframeContext(higherTimeframe, candles));
+    } catch (error) {
+      console.error(`Error loading ${higherTimeframe} candles for ${pair} confluence:`, error);
+    }
+  }
+
+  return contexts;
+}
+
+/**
+ * Higher timeframe contexts as they were at a point in time, for replaying the
+ * filter over history: only candles that had closed by then are used.
+ * @param candlesByTimeframe Candles of each higher timeframe, oldest first
+ * @param time Time (ms) the signal was generated at
+ * @param limit Candles to use per higher timeframe, as many as the live filter loads
+ */
+export function getHigherTimeframeContextsAt(
+  candlesByTimeframe: Record<string, CandleData[]>,
+  time: number,
+  limit = CONFLUENCE_CANDLE_LIMIT
+): HigherTimeframeContext[] {
+  const contexts: HigherTimeframeContext[] = [];
+
+  for (const [timeframe, candles] of Object.entries(candlesByTimeframe)) {
+    const candleMs = getTimeframeMs(timeframe);
+    // Binary search for the first candle still open at the given time
+    let low = 0;
+    let high = candles.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (candles[middle].time * 1000 + candleMs <= time) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+
+    const closed = candles.slice(Math.max(0, low - limit), low);
+    if (closed.length > 0) contexts.push(buildHigherTimeframeContext(timeframe, closed));
+  }
+
+  return contexts;
+}
+
+// Function to read the structure bias from the last two swing highs and lows
+function getStructureBias(levels: { bsl: LiquidityLevel[]; ssl: LiquidityLevel[] }): "bullish" | "bearish" | "neutral" {
+  const highs = [...levels.bsl].sort((a, b) => a.time - b.time).slice(-2);
+  const lows = [...levels.ssl].sort((a, b) => a.time - b.time).slice(-2);
+
+  if (highs.length < 2 || lows.length < 2) return "neutral";
+
+  const higherHigh = highs[1].price > highs[0].price;
+  const higherLow = lows[1].price > lows[0].price;
+
+  if (higherHigh && higherLow) return "bullish";
+  if (!higherHigh && !higherLow) return "bearish";
+  return "neutral";
+}
+
+/**
+ * Compare a signal against higher-timeframe structure. A timeframe conflicts
+ * when its swings trend against the signal or an untraded major level on the
+ * opposite side (BSL for longs, SSL for shorts) lies between entry and take profit.
+ * The signal is rejected when every higher timeframe conflicts and downgraded
+ * when only some do.
+ * @param signal Generated signal
+ * @param contexts Higher timeframe candles and levels
+ */
+export function evaluateConfluence(signal: GeneratedSignal, contexts: HigherTimeframeContext[]): SignalConfluence {
+  const isLong = signal.signal_type === "long";
+  const low = Math.min(signal.entry_price, signal.take_profit);
+  const high = Math.max(signal.entry_price, signal.take_profit);
+
+  const timeframes = contexts.map((context): TimeframeConfluence => {
+    const bias = getStructureBias(context.liquidityLevels);
+    const opposingLevels = isLong ? context.liquidityLevels.bsl : context.liquidityLevels.ssl;
+
+    const blockingLevels = opposingLevels
+      .filter((level) => !level.isTraded && level.price > low && level.price < high)
+      .map((level) => ({
+        timeframe: context.timeframe,
+        type: level.type,
+        price: level.price,
+        isMajor: level.isMajor,
+      }));
+
+    const againstBias = isLong ? bias === "bearish" : bias === "bullish";
+    const blockedByMajor = blockingLevels.some((level) => level.isMajor);
+
+    return {
+      timeframe: context.timeframe,
+      bias,
+      agrees: !againstBias && !blockedByMajor,
+      blockingLevels,
+    };
+  });
+
+  const agreeing = timeframes.filter((tf) => tf.agrees).map((tf) => tf.timeframe);
+  const conflicting = timeframes.filter((tf) => !tf.agrees).map((tf) => tf.timeframe);
+
+  let verdict: SignalConfluence["verdict"] = "confirmed";
+  if (conflicting.length > 0) {
+    verdict = agreeing.length === 0 ? "rejected" : "downgraded";
+  }
+
+  return { verdict, agreeing, conflicting, timeframes };
+}
+
+/**
+ * Attach a confluence breakdown to each signal and drop the rejected ones
+ * @param signals Signals generated on the lower timeframe
+ * @param contexts Higher timeframe candles and levels
+ * @param keepRejected Keep rejected signals (tagged with their verdict) instead of dropping them
+ */
+export function applyConfluenceFilter(
+  signals: GeneratedSignal[],
+  contexts: HigherTimeframeContext[],
+  keepRejected = false
+): GeneratedSignal[] {
+  // Nothing to compare against, keep the signals untouched
+  if (contexts.length === 0) return signals;
+
+  return signals
+    .map((signal) => ({ ...signal, confluence: evaluateConfluence(signal, contexts) }))
+    .filter((signal) => {
+      if (signal.confluence.verdict === "rejected" && !keepRejected) {
+        console.log(
+          `Rejected ${signal.signal_type} ${signal.pair} ${signal.timeframe} signal, conflicts with ${signal.confluence.conflicting.join(", ")}`
+        );
+        return false;
+      }
+      return true;
+    });
+}
@@ -0,0 +1,139 @@
+// Trading cost model (fees, stop slippage, perpetual funding) turning gross signal P/L into net P/L
+
+import { getRemainingSize } from "./take-profit-targets";
+
+/**
+ * Costs of trading a signal on a perpetual futures exchange, all rates in percent
+ */
+export interface CostModel {
+  // Fee of resting limit orders (entries and take profits)
+  makerFeePercent: number;
+  // Fee of market orders (stop losses, time stops and manual exits)
+  takerFeePercent: number;
+  // Adverse fill of stop orders, relative to the stop price
+  stopSlippagePercent: number;
+  // Expected funding rate per interval, paid by longs to shorts when positive
+  fundingRatePercent: number;
+  fundingIntervalHours: number;
+}
+
+// Function to read a numeric cost setting from the environment
+function readRate(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] !== undefined && Number.isFinite(value) ? value : fallback;
+}
+
+// Binance USDⓈ-M base tier fees and the usual 0.01% / 8h funding, overridable per deployment
+export const DEFAULT_COST_MODEL: CostModel = {
+  makerFeePercent: readRate("SIGNAL_MAKER_FEE_PERCENT", 0.02),
+  takerFeePercent: readRate("SIGNAL_TAKER_FEE_PERCENT", 0.05),
+  stopSlippagePercent: readRate("SIGNAL_STOP_SLIPPAGE_PERCENT", 0.05),
+  fundingRatePercent: readRate("SIGNAL_FUNDING_RATE_PERCENT", 0.01),
+  fundingIntervalHours: readRate("SIGNAL_FUNDING_INTERVAL_HOURS", 8),
+};
+
+/**
+ * Trade a P/L is calculated for, prices per unit of the base asset
+ */
+export interface SignalTrade {
+  signalType: "long" | "short";
+  entryPrice: number;
+  // Blended over the targetFills and the rest of the position
+  exitPrice: number;
+  exitType: "tp" | "sl" | "trailing_sl" | "time_stop" | "expired" | "manual" | null;
+  // Take profits the position was partially closed at before exitType closed the rest
+  targetFills?: { price: number; weight: number }[];
+  entryTime?: Date | string | number | null;
+  exitTime?: Date | string | number | null;
+}
+
+/**
+ * Gross and net P/L of one unit, with the costs between them
+ */
+export interface SignalPnl {
+  grossProfitLoss: number;
+  grossProfitLossPercent: number;
+  netProfitLoss: number;
+  netProfitLossPercent: number;
+  feeCost: number;
+  slippageCost: number;
+  fundingCost: number;
+}
+
+// Function to convert a time to milliseconds
+function toMs(time: Date | string | number | null | undefined): number | null {
+  if (time === null || time === undefined) return null;
+  const ms = time instanceof Date ? time.getTime() : typeof time === "number" ? time : new Date(time).getTime();
+  return Number.isFinite(ms) ? ms : null;
+}
+
+/**
+ * Calculate gross and net P/L of a closed signal.
+ * Entries and take profits fill as maker orders, stops and manual exits as taker
+ * orders with slippage on stops, and funding accrues pro rata over the holding time.
+ * Partial take profits pay maker fees, only the rest of the position pays the exit's fee and slippage.
+ * Expired signals never filled, so they carry no costs.
+ * @param trade Direction, prices, exit type and holding period
+ * @param model Fee, slippage and funding assumptions
+ */
+export function calculateSignalPnl(trade: SignalTrade, model: CostModel = DEFAULT_COST_MODEL): SignalPnl {
+  const direction = trade.signalType === "long" ? 1 : -1;
+  const grossProfitLoss = (trade.exitPrice - trade.entryPrice) * direction;
+  const toPercent = (value: number) => (trade.entryPrice > 0 ? (value / trade.entryPrice) * 100 : 0);
+
+  let feeCost = 0;
+  let slippageCost = 0;
+  let fundingCost = 0;
+
+  if (trade.exitType !== "expired") {
+    const fills = trade.targetFills ?? [];
+    const filledValue = fills.reduce((sum, fill) => sum + fill.price * fill.weight, 0);
+    const remaining = getRemainingSize(fills);
+    // Price the rest of the position left at, backed out of the blended exit
+    const remainderPrice = remaining > 0 ? (trade.exitPrice - filledValue) / remaining : 0;
+
+    const isStop = trade.exitType === "sl" || trade.exitType === "trailing_sl";
+    slippageCost = isStop ? (remainderPrice * remaining * model.stopSlippagePercent) / 100 : 0;
+
+    // The exit fee is charged on the slipped fill
+    const exitFill = remainderPrice * remaining - slippageCost * direction;
+    const exitFeePercent = trade.exitType === "tp" ? model.makerFeePercent : model.takerFeePercent;
+    feeCost = (trade.entryPrice * model.makerFeePercent + filledValue * model.makerFeePercent + exitFill * exitFeePercent) / 100;
+
+    const entryTime = toMs(trade.entryTime);
+    const exitTime = toMs(trade.exitTime);
+    if (entryTime !== null && exitTime !== null && exitTime > entryTime && model.fundingIntervalHours > 0) {
+      const intervals = (exitTime - entryTime) / (model.fundingIntervalHours * 60 * 60 * 1000);
+      fundingCost = ((trade.entryPrice * model.fundingRatePercent) / 100) * intervals * direction;
+    }
+  }
+
+  const netProfitLoss = grossProfitLoss - feeCost - slippageCost - fundingCost;
+
+  return {
+    grossProfitLoss,
+    grossProfitLossPercent: toPercent(grossProfitLoss),
+    netProfitLoss,
+    netProfitLossPercent: toPercent(netProfitLoss),
+    feeCost,
+    slippageCost,
+    fundingCost,
+  };
+}
+
+/**
+ * Columns the P/L is stored in, on generated_signals and completed_signals.
+ * profit_loss and profit_loss_percent stay the gross figures.
+ * @param pnl Calculated P/L
+ */
+export function toPnlColumns(pnl: SignalPnl) {
+  return {
+    profit_loss: pnl.grossProfitLoss,
+    profit_loss_percent: pnl.grossProfitLossPercent,
+    net_profit_loss: pnl.netProfitLoss,
+    net_profit_loss_percent: pnl.netProfitLossPercent,
+    fee_cost: pnl.feeCost,
+    slippage_cost: pnl.slippageCost,
+    funding_cost: pnl.fundingCost,
+  };
+}
@@ -0,0 +1,226 @@
+// Lifecycle event log of generated signals (signal_events table)
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { supabase } from "./supabase-client";
+
+/**
+ * What happened to a signal
+ */
+export type SignalEventType =
+  | "created"
+  | "entry_hit"
+  | "partial_take_profit"
+  | "take_profit"
+  | "stop_loss"
+  | "trailing_stop"
+  | "stop_moved"
+  | "time_stop"
+  | "expired"
+  | "invalidated"
+  | "superseded"
+  | "manual_close"
+  | "updated";
+
+/**
+ * Who caused the event: the generator, the checker service, the kline stream
+ * monitor, the cron check route, a manual completion or the fix route
+ */
+export type SignalEventSource = "generator" | "checker" | "monitor" | "cron" | "manual" | "fix";
+
+/**
+ * A stored signal event
+ */
+export interface SignalEvent {
+  id?: number;
+  signal_id: string;
+  event_type: SignalEventType;
+  from_status: string | null;
+  to_status: string | null;
+  trigger_price: number | null;
+  source: SignalEventSource;
+  payload: Record<string, any>;
+  // When the transition happened in the market (candle or tick time)
+  occurred_at: string;
+  // When the event was written
+  created_at?: string;
+}
+
+// Function to map an exit type to the event it produces
+function getExitEventType(exitType: string | null | undefined): SignalEventType {
+  switch (exitType) {
+    case "tp":
+      return "take_profit";
+    case "sl":
+      return "stop_loss";
+    case "trailing_sl":
+      return "trailing_stop";
+    case "time_stop":
+      return "time_stop";
+    case "expired":
+      return "expired";
+    default:
+      return "manual_close";
+  }
+}
+
+/**
+ * Work out the events of a signal row update: entry fill, partial take profits, stop move, exit or invalidation
+ * @param signal Row from generated_signals before the update
+ * @param updates Columns being written
+ * @param source Who made the update
+ * @param payload Extra context stored on every event (price seen, resolution method, ...)
+ */
+export function buildTransitionEvents(
+  signal: any,
+  updates: Record<string, any>,
+  source: SignalEventSource,
+  payload: Record<string, any> = {}
+): SignalEvent[] {
+  const events: SignalEvent[] = [];
+  const now = new Date().toISOString();
+  let status = signal.status ?? null;
+
+  if (updates.entry_hit && !signal.entry_hit) {
+    const toStatus = updates.status && updates.status !== "completed" && updates.status !== "expired" ? updates.status : "active";
+    events.push({
+      signal_id: signal.signal_id,
+      event_type: "entry_hit",
+      from_status: status,
+      to_status: toStatus,
+      trigger_price: signal.entry_price ?? null,
+      source,
+      payload,
+      occurred_at: updates.entry_hit_time || now,
+    });
+    status = toStatus;
+  }
+
+  // Targets of the ladder reached, the one closing the position is reported as the exit
+  const previousFills = signal.take_profit_fills?.length ?? 0;
+  const newFills = (updates.take_profit_fills ?? []).slice(previousFills);
+  for (const fill of updates.exit_type === "tp" ? newFills.slice(0, -1) : newFills) {
+    events.push({
+      signal_id: signal.signal_id,
+      event_type: "partial_take_profit",
+      from_status: status,
+      to_status: status,
+      trigger_price: fill.price,
+      source,
+      payload: { ...payload, target: fill.index + 1, weight: fill.weight },
+      occurred_at: new Date(fill.time).toISOString(),
+    });
+  }
+
+  if (updates.current_stop_loss !== undefined && updates.current_stop_loss !== (signal.current_stop_loss ?? signal.stop_loss)) {
+    events.push({
+      signal_id: signal.signal_id,
+      event_type: "stop_moved",
+      from_status: status,
+      to_status: status,
+      trigger_price: updates.current_stop_loss,
+      source,
+      payload: {
+        ...payload,
+        previous_stop_loss: signal.current_stop_loss ?? signal.stop_loss,
+        rule: updates.stop_rule ?? null,
+      },
+      occurred_at: now,
+    });
+  }
+
+  if (updates.status === "invalidated" && status !== "invalidated") {
+    events.push({
+      signal_id: signal.signal_id,
+      event_type: "invalidated",
+      from_status: status,
+      to_status: "invalidated",
+      trigger_price: signal.major_level ?? null,
+      source,
+      payload: { ...payload, reason: updates.invalidation_reason ?? null },
+      occurred_at: updates.invalidated_at || now,
+    });
+  }
+
+  if (updates.status && updates.status !== status && (updates.status === "completed" || updates.status === "expired")) {
+    events.push({
+      signal_id: signal.signal_id,
+      event_type: getExitEventType(updates.exit_type),
+      from_status: status,
+      to_status: updates.status,
+      trigger_price: updates.exit_price ?? null,
+      source,
+      payload: {
+        ...payload,
+        exit_type: updates.exit_type ?? null,
+        resolution_method: updates.resolution_method ?? null,
+        profit_loss: updates.profit_loss ?? null,
+        net_profit_loss: updates.net_profit_loss ?? null,
+      },
+      occurred_at: updates.exit_time || now,
+    });
+  }
+
+  return events;
+}
+
+/**
+ * Write events to signal_events. Failures are logged and never thrown, so the
+ * log can't break the state change it describes.
+ * @param events Events to write
+ * @param client Supabase client to write with
+ */
+export async function recordSignalEvents(
+  events: SignalEvent[],
+  client: SupabaseClient | null = supabase
+): Promise<void> {
+  if (!client || events.length === 0) return;
+
+  try {
+    const { error } = await client.from("signal_events").insert(events);
+    if (error) {
+      console.error(`Error recording ${events.length} signal events:`, error);
+    }
+  } catch (error) {
+    console.error("Exception recording signal events:", error);
+  }
+}
+
+/**
+ * Record the events of a signal row update
+ * @param signal Row from generated_signals before the update
+ * @param updates Columns written
+ * @param source Who made the update
+ * @param payload Extra context stored on the events
+ * @param client Supabase client to write with
+ */
+export async function recordSignalTransition(
+  signal: any,
+  updates: Record<string, any>,
+  source: SignalEventSource,
+  payload: Record<string, any> = {},
+  client: SupabaseClient | null = supabase
+): Promise<void> {
+  await recordSignalEvents(buildTransitionEvents(signal, updates, source, payload), client);
+}
+
+/**
+ * Get the events of a signal, oldest first
+ * @param signalId Signal ID
+ */
+export async function getSignalEvents(signalId: string): Promise<SignalEvent[]> {
+  if (!supabase) return [];
+
+  const { data, error } = await supabase
+    .from("signal_events")
+    .select("*")
+    .eq("signal_id", signalId)
+    .order("occurred_at", { ascending: true })
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.error(`Error fetching events for signal ${signalId}:`, error);
+    return [];
+  }
+
+  return (data || []) as SignalEvent[];
+}
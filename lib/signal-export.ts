@@ -0,0 +1,200 @@
+// Export of the signal history as CSV, JSON or NDJSON with a fixed column schema
+
+import type { SignalTable } from "./signal-history-query";
+
+export type ExportFormat = "csv" | "json" | "ndjson";
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; contentType: string }> = {
+  csv: { label: "CSV", contentType: "text/csv; charset=utf-8" },
+  json: { label: "JSON", contentType: "application/json; charset=utf-8" },
+  ndjson: { label: "NDJSON", contentType: "application/x-ndjson; charset=utf-8" },
+};
+
+/**
+ * Columns of every exported record, in order. Both tables export the same columns,
+ * a value a table does not store is null. New columns are only ever appended.
+ */
+export const SIGNAL_EXPORT_COLUMNS = [
+  "source_table",
+  "signal_id",
+  "pair",
+  "timeframe",
+  "signal_type",
+  "signal_source",
+  "strategy_version",
+  "status",
+  "created_at",
+  "entry_time",
+  "exit_time",
+  "entry_price",
+  "stop_loss",
+  "take_profit",
+  "exit_price",
+  "exit_type",
+  "resolution_method",
+  "risk_reward_ratio",
+  "profit_loss",
+  "profit_loss_percent",
+  "net_profit_loss",
+  "net_profit_loss_percent",
+  "fee_cost",
+  "slippage_cost",
+  "funding_cost",
+  // P/L over the initial risk |entry - stop loss|, gross and after stored costs
+  "r_multiple",
+  "net_r_multiple",
+  "mae_r",
+  "mfe_r",
+  "seasonality",
+  "positive_probability",
+] as const;
+
+export type SignalExportColumn = (typeof SIGNAL_EXPORT_COLUMNS)[number];
+
+export type SignalExportRecord = Record<SignalExportColumn, string | number | null>;
+
+// Column the date range applies to and the export is ordered by
+export const EXPORT_DATE_COLUMNS: Record<SignalTable, string> = {
+  // Signals that never traded have no exit, so they are dated by creation
+  generated_signals: "created_at",
+  completed_signals: "exit_time",
+};
+
+// Function to read a numeric column, Postgres decimals may come back as strings
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+// Function to read a text or timestamp column
+function toText(value: unknown): string | null {
+  return value === null || value === undefined ? null : String(value);
+}
+
+/**
+ * Map a row of either signal table onto the export schema
+ * @param row Database row, selected with all columns
+ * @param table Table the row was read from
+ */
+export function toSignalExportRecord(row: any, table: SignalTable): SignalExportRecord {
+  const entryPrice = toNumber(row.entry_price);
+  const stopLoss = toNumber(row.stop_loss);
+  const profitLoss = toNumber(row.profit_loss);
+  const netProfitLoss = toNumber(row.net_profit_loss);
+  const risk = entryPrice !== null && stopLoss !== null ? Math.abs(entryPrice - stopLoss) : 0;
+
+  return {
+    source_table: table,
+    signal_id: toText(row.signal_id),
+    pair: toText(row.pair),
+    timeframe: toText(row.timeframe),
+    signal_type: toText(row.signal_type),
+    signal_source: toText(row.signal_source),
+    strategy_version: toText(row.strategy_version),
+    // completed_signals has no status column, every row in it completed
+    status: table === "completed_signals" ? "completed" : toText(row.status),
+    created_at: toText(row.created_at),
+    entry_time: toText(table === "completed_signals" ? row.entry_time : row.entry_hit_time),
+    exit_time: toText(row.exit_time),
+    entry_price: entryPrice,
+    stop_loss: stopLoss,
+    take_profit: toNumber(row.take_profit),
+    exit_price: toNumber(row.exit_price),
+    exit_type: toText(row.exit_type),
+    resolution_method: toText(row.resolution_method),
+    risk_reward_ratio: toNumber(row.risk_reward_ratio),
+    profit_loss: profitLoss,
+    profit_loss_percent: toNumber(row.profit_loss_percent),
+    net_profit_loss: netProfitLoss,
+    net_profit_loss_percent: toNumber(row.net_profit_loss_percent),
+    fee_cost: toNumber(row.fee_cost),
+    slippage_cost: toNumber(row.slippage_cost),
+    funding_cost: toNumber(row.funding_cost),
+    r_multiple: risk > 0 && profitLoss !== null ? profitLoss / risk : null,
+    net_r_multiple: risk > 0 && netProfitLoss !== null ? netProfitLoss / risk : null,
+    mae_r: toNumber(row.mae_r),
+    mfe_r: toNumber(row.mfe_r),
+    seasonality: toText(row.seasonality),
+    positive_probability: toNumber(row.positive_probability),
+  };
+}
+
+// Function to quote a CSV field when it holds a separator, quote or line break (RFC 4180)
+function formatCsvField(value: string | number | null): string {
+  if (value === null) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Function to format the CSV header line
+export function formatCsvHeader(): string {
+  return `${SIGNAL_EXPORT_COLUMNS.join(",")}\r\n`;
+}
+
+// Function to format a record as a CSV line, columns in schema order
+export function formatCsvRecord(record: SignalExportRecord): string {
+  return `${SIGNAL_EXPORT_COLUMNS.map((column) => formatCsvField(record[column])).join(",")}\r\n`;
+}
+
+/**
+ * Stream the export one page of rows at a time, so large histories are never
+ * held in memory as a whole. JSON is a single array, NDJSON one record per line.
+ * @param pages Pages of database rows, oldest first
+ * @param table Table the rows come from
+ * @param format Output format
+ * @param firstPage Page already read from pages, streamed before the rest
+ */
+export function createSignalExportStream(
+  pages: AsyncIterator<any[]>,
+  table: SignalTable,
+  format: ExportFormat,
+  firstPage?: IteratorResult<any[]>
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let pending = firstPage;
+  let started = false;
+  let first = true;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        let chunk = "";
+        if (!started) {
+          started = true;
+          if (format === "csv") chunk += formatCsvHeader();
+          if (format === "json") chunk += "[";
+        }
+
+        const { value, done } = pending ?? (await pages.next());
+        pending = undefined;
+        if (done) {
+          if (format === "json") chunk += "]\n";
+          if (chunk) controller.enqueue(encoder.encode(chunk));
+          controller.close();
+          return;
+        }
+
+        for (const row of value) {
+          const record = toSignalExportRecord(row, table);
+          if (format === "csv") {
+            chunk += formatCsvRecord(record);
+          } else if (format === "ndjson") {
+            chunk += `${JSON.stringify(record)}\n`;
+          } else {
+            chunk += `${first ? "" : ","}\n${JSON.stringify(record)}`;
+            first = false;
+          }
+        }
+        controller.enqueue(encoder.encode(chunk));
+      } catch (error) {
+        // Headers are already sent, the client sees a truncated download
+        console.error("Error streaming signal export:", error);
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await pages.return?.(undefined);
+    },
+  });
+}
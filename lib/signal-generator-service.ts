@@ -2,13 +2,27 @@ import { supabase } from "./supabase-client";
 import { fetchTimeframeCandles, fetchCandlestickData, type CandleData } from "./binance-api";
 import type { SupabaseClient } from "@supabase/supabase-js";
 import { calculateLiquidityLevels } from "./liquidity-levels";
-import { v4 as uuidv4 } from "uuid";
+import { FIB_LEVELS_VERSION } from "./fibonacci-entries";
+import type { TakeProfitTarget } from "./take-profit-targets";
+import { applyConfluenceFilter, loadHigherTimeframeContexts, type SignalConfluence } from "./signal-confluence";
+import {
+  DEFAULT_SIGNAL_PARAMETERS,
+  getSignalStrategies,
+  type SignalParameters,
+  type SignalStrategy,
+  type StrategyContext,
+} from "./signal-strategies";
 
 // Timeframe types we'll process
 const TIMEFRAMES = ["5m", "15m", "30m", "1h"];
 
-// Historical data for seasonality - imported from seasonality-data.ts
-import { historicalMonthlyReturns } from "./seasonality-data";
+// Per-pair seasonality (falls back to the BTC series when a pair has too little history)
+import { getPairMonthlyReturns, getSeasonalityProfile, getSeasonalityProfileAt } from "./seasonality-cache";
+import type { MonthlyReturns } from "./asset-seasonality";
+import { SEASONALITY_DIMENSIONS, getIntradayBias, type IntradayBias } from "./intraday-seasonality";
+import { SEASONALITY_SIGNIFICANCE_LEVEL, isSignificantProbability } from "./seasonality-statistics";
+import { recordSignalEvents } from "./signal-events";
+import { applySignalUpdate } from "./signal-checker-service";
 
 // Interface for generated signal
 export interface GeneratedSignal {
@@ -17,27 +31,48 @@ export interface GeneratedSignal {
   entry_price: number;
   stop_loss: number;
   take_profit: number;
+  // Targets closing a share of the position each, take_profit is the last one
+  take_profit_levels?: TakeProfitTarget[];
   pair: string;
   timeframe: string;
   signal_source: string;
+  strategy_version?: string;
   major_level?: number;
+  // Open time of the candle the major level formed on, part of the signal's identity
+  major_level_time?: Date;
   peak_price?: number;
   peak_time?: Date;
   fib_levels?: any[];
+  // Retracement (%) the entry was placed at
+  entry_retracement?: number;
   risk_reward_ratio: number;
   seasonality: "bullish" | "bearish" | "neutral";
   positive_probability: number;
+  // Agreement with higher-timeframe structure
+  confluence?: SignalConfluence;
 }
 
-// Function to get current seasonality
-function getCurrentSeasonality(): { seasonality: "bullish" | "bearish" | "neutral"; probability: number } {
-  const currentMonth = new Date().getMonth();
-  const monthData = historicalMonthlyReturns[currentMonth as keyof typeof historicalMonthlyReturns];
+// Function to get seasonality for the month of the given date (defaults to now)
+export function getCurrentSeasonality(
+  monthlyReturns: MonthlyReturns,
+  date: Date = new Date(),
+  significanceLevel: number = SEASONALITY_SIGNIFICANCE_LEVEL
+): { seasonality: "bullish" | "bearish" | "neutral"; probability: number } {
+  const currentMonth = date.getMonth();
+  const monthData = monthlyReturns[currentMonth];
 
   if (monthData) {
-    const returns = Object.values(monthData);
+    // Only years before the evaluated one, so backtests don't see the future
+    const returns = Object.entries(monthData)
+      .filter(([year]) => Number(year) < date.getFullYear())
+      .map(([, ret]) => ret);
     const positiveCount = returns.filter((ret) => ret > 0).length;
-    const probability = (positiveCount / returns.length) * 100;
+    const probability = returns.length > 0 ? (positiveCount / returns.length) * 100 : 50;
+
+    // A skewed share from a handful of years is not an edge
+    if (significanceLevel < 1 && !isSignificantProbability(positiveCount, returns.length, significanceLevel)) {
+      return { seasonality: "neutral", probability };
+    }
 
     // Determine seasonality based on probability of positive returns
     if (probability >= 60) {
@@ -50,13 +85,33 @@ function getCurrentSeasonality(): { seasonality: "bullish" | "bearish" | "neutra
   return { seasonality: "neutral", probability: 50 };
 }
 
+// Function to get the hour/weekday/week-of-month bias of the given date from the pair's profiles
+async function getCurrentIntradayBias(pair: string, date: Date = new Date()): Promise<IntradayBias | undefined> {
+  try {
+    const profiles = await Promise.all(
+      SEASONALITY_DIMENSIONS.map((dimension) => getSeasonalityProfile(dimension, pair))
+    );
+    // Backtests evaluate past bars, the current profiles are built from candles after them
+    if (profiles.some((profile) => profile.to > date.getTime())) {
+      const pastProfiles = await Promise.all(
+        SEASONALITY_DIMENSIONS.map((dimension) => getSeasonalityProfileAt(dimension, pair, date))
+      );
+      return getIntradayBias(pastProfiles, date);
+    }
+    return getIntradayBias(profiles, date);
+  } catch (error) {
+    console.error(`Error getting intraday bias for ${pair}:`, error);
+    return undefined;
+  }
+}
+
 // Function to analyze liquidity levels
-function analyzeLiquidityLevels(candles: CandleData[]) {
+function analyzeLiquidityLevels(candles: CandleData[], parameters: SignalParameters = DEFAULT_SIGNAL_PARAMETERS) {
   try {
     return calculateLiquidityLevels(candles, {
-      swingStrength: 5,
-      majorThreshold: 0.3,
-      reqThreshold: 2.0,
+      swingStrength: parameters.swingStrength,
+      majorThreshold: parameters.majorThreshold,
+      reqThreshold: parameters.reqThreshold,
     });
   } catch (error) {
     console.error("Error analyzing liquidity levels:", error);
@@ -64,153 +119,66 @@ function analyzeLiquidityLevels(candles: CandleData[]) {
   }
 }
 
-// Function to generate signals - FIXED LOGIC
-function generateSignals(pair: string, timeframe: string, candles: CandleData[], liquidityLevels: any): GeneratedSignal[] {
+// Function to run strategies against the candles available for a pair/timeframe
+export async function evaluateStrategies(
+  pair: string,
+  timeframe: string,
+  candles: CandleData[],
+  strategies: SignalStrategy[],
+  now: Date = new Date(),
+  parameters: Partial<SignalParameters> = {}
+): Promise<GeneratedSignal[]> {
+  const resolvedParameters = { ...DEFAULT_SIGNAL_PARAMETERS, ...parameters };
+
+  // Build the shared context once for all strategies
+  const { returns: monthlyReturns } = await getPairMonthlyReturns(pair);
+  const { seasonality, probability } = getCurrentSeasonality(monthlyReturns, now, resolvedParameters.seasonalitySignificance);
+  const context: StrategyContext = {
+    now,
+    seasonality,
+    positiveProbability: probability,
+    intradayBias: resolvedParameters.useIntradayBias ? await getCurrentIntradayBias(pair, now) : undefined,
+    liquidityLevels: analyzeLiquidityLevels(candles, resolvedParameters),
+    parameters: resolvedParameters,
+  };
+
   const signals: GeneratedSignal[] = [];
-  
-  try {
-    // Get current seasonality
-    const { seasonality, probability } = getCurrentSeasonality();
-    
-    // Find all major levels
-    const majorBSL = liquidityLevels.bsl.filter((level: any) => level.isMajor);
-    const majorSSL = liquidityLevels.ssl.filter((level: any) => level.isMajor);
-    
-    // Current price (use close of last candle)
-    const currentPrice = candles[candles.length - 1].close;
-    
-    // Determine signal type based on seasonality
-    const signalType = seasonality === "bearish" ? "short" : "long";
-    
-    // Find appropriate major level based on signal type
-    let relevantLevel = null;
-
-    if (signalType === "long") {
-      // For LONG signals, find lowest major SSL level BELOW current price
-      const sslBelowPrice = majorSSL.filter((ssl: any) => ssl.price < currentPrice);
-      const sortedSSL = [...sslBelowPrice].sort((a, b) => b.price - a.price); // Sort descending to get closest below
-      relevantLevel = sortedSSL.length > 0 ? sortedSSL[0] : null;
-
-      // If no valid SSL level found, try using BSL level in neutral seasonality
-      if (!relevantLevel && seasonality === "neutral" && majorBSL.length > 0) {
-        const bslBelowPrice = majorBSL.filter((bsl: any) => bsl.price < currentPrice);
-        relevantLevel = bslBelowPrice.sort((a, b) => b.price - a.price)[0]; // Get highest BSL below price
-      }
-    } else {
-      // For SHORT signals, find highest major BSL level ABOVE current price
-      const bslAbovePrice = majorBSL.filter((bsl: any) => bsl.price > currentPrice);
-      const sortedBSL = [...bslAbovePrice].sort((a, b) => a.price - b.price); // Sort ascending to get closest above
-      relevantLevel = sortedBSL.length > 0 ? sortedBSL[0] : null;
-
-      // If no valid BSL level found, try using SSL level in neutral seasonality
-      if (!relevantLevel && seasonality === "neutral" && majorSSL.length > 0) {
-        const sslAbovePrice = majorSSL.filter((ssl: any) => ssl.price > currentPrice);
-        relevantLevel = sslAbovePrice.sort((a, b) => a.price - b.price)[0]; // Get lowest SSL above price
-      }
-    }
-    
-    // If no relevant level found, return empty array
-    if (!relevantLevel) {
-      return signals;
-    }
-    
-    // Get all candles after the major level formation
-    const candlesAfterLevel = candles.filter((candle) => candle.time > relevantLevel.time);
-    
-    if (candlesAfterLevel.length < 5) {
-      return signals;
-    }
-    
-    // Create base signal
-    const signalId = uuidv4();
-    
-    // Create proper entry, stop loss, and take profit levels
-    let entryPrice, stopLoss, takeProfit;
-    const riskRewardRatio = 3.0; // Risk:Reward ratio
-    
-    if (signalType === "long") {
-      // For LONG positions
-      // Entry slightly below current price
-      entryPrice = currentPrice * 0.985;
-      
-      // Stop loss must be BELOW the entry price
-      // Use the major level as a reference, but ensure SL is below entry
-      stopLoss = Math.min(entryPrice * 0.99, relevantLevel.price * 0.99);
-      
-      // Take profit must be ABOVE the entry price
-      const riskAmount = entryPrice - stopLoss;
-      takeProfit = entryPrice + (riskAmount * riskRewardRatio);
-    } else {
-      // For SHORT positions
-      // Entry slightly above current price
-      entryPrice = currentPrice * 1.015;
-      
-      // Stop loss must be ABOVE the entry price
-      // Use the major level as a reference, but ensure SL is above entry
-      stopLoss = Math.max(entryPrice * 1.01, relevantLevel.price * 1.01);
-      
-      // Take profit must be BELOW the entry price
-      const riskAmount = stopLoss - entryPrice;
-      takeProfit = entryPrice - (riskAmount * riskRewardRatio);
-    }
-    
-    // Gather all Fibonacci levels for reference - Always ensure this is an array
-    const priceDiff = Math.abs(relevantLevel.price - currentPrice);
-    const fibLevels = [0, 23.6, 38.2, 50, 61.8, 78.6, 100].map(level => {
-      const price = signalType === "long" 
-        ? relevantLevel.price + (priceDiff * level / 100)
-        : relevantLevel.price - (priceDiff * level / 100);
-      return { level, price };
-    });
-    
-    // Final validation of price levels
-    if (signalType === "long") {
-      // For long positions, ensure TP > Entry > SL
-      if (!(takeProfit > entryPrice && entryPrice > stopLoss)) {
-        console.warn(`Invalid long signal prices: Entry=${entryPrice}, SL=${stopLoss}, TP=${takeProfit}`);
-        return signals;
-      }
-    } else {
-      // For short positions, ensure TP < Entry < SL
-      if (!(takeProfit < entryPrice && entryPrice < stopLoss)) {
-        console.warn(`Invalid short signal prices: Entry=${entryPrice}, SL=${stopLoss}, TP=${takeProfit}`);
-        return signals;
-      }
+
+  for (const strategy of strategies) {
+    try {
+      // Only hand each strategy the history it asked for
+      const strategyCandles = candles.slice(-strategy.requiredCandles);
+      const strategySignals = await strategy.evaluate(pair, timeframe, strategyCandles, context);
+
+      // Tag every signal with the strategy that produced it
+      signals.push(
+        ...strategySignals.map((signal) => ({
+          ...signal,
+          signal_source: strategy.name,
+          strategy_version: strategy.version,
+        }))
+      );
+    } catch (error) {
+      console.error(`Error evaluating strategy ${strategy.name} for ${pair} ${timeframe}:`, error);
     }
-    
-    // Add signal to results
-    signals.push({
-      signal_id: signalId,
-      signal_type: signalType,
-      entry_price: entryPrice,
-      stop_loss: stopLoss,
-      take_profit: takeProfit,
-      pair,
-      timeframe,
-      signal_source: "fibonacci",
-      major_level: relevantLevel.price,
-      peak_price: currentPrice,
-      peak_time: new Date(),
-      fib_levels: fibLevels, // Always an array
-      risk_reward_ratio: riskRewardRatio,
-      seasonality,
-      positive_probability: probability
-    });
-    
-    return signals;
-  } catch (error) {
-    console.error("Error generating signals:", error);
-    return [];
   }
+
+  return signals;
 }
 
 export async function generateSignalsForTimeframe(
   timeframe: string, 
   symbol?: string,
-  client?: SupabaseClient
+  client?: SupabaseClient,
+  strategyNames?: string[],
+  parameters: Partial<SignalParameters> = {}
 ): Promise<any[]> {
   console.log(`Generating signals for timeframe: ${timeframe}${symbol ? `, symbol: ${symbol}` : ''}`);
 
+  // Resolve strategies to run (all registered strategies by default)
+  const strategies = getSignalStrategies(strategyNames);
+  const candleLimit = Math.max(100, ...strategies.map((strategy) => strategy.requiredCandles));
+
   // Use provided client or default supabase client
   const supabaseClient = client || supabase;
 
@@ -239,8 +207,8 @@ export async function generateSignalsForTimeframe(
       // Get candlestick data from Binance API
       let candlestickData;
       try {
-        console.log(`Fetching candlestick data for ${pair} with limit 100...`);
-        candlestickData = await fetchCandlestickData(pair, timeframe, 100);
+        console.log(`Fetching candlestick data for ${pair} with limit ${candleLimit}...`);
+        candlestickData = await fetchCandlestickData(pair, timeframe, candleLimit);
         
         console.log(`Received candlestick data for ${pair}: count=${candlestickData?.length || 0}`);
         
@@ -264,25 +232,18 @@ export async function generateSignalsForTimeframe(
         continue; // Skip to next pair
       }
 
-      // Analyze liquidity levels
-      let liquidityLevels;
-      try {
-        liquidityLevels = analyzeLiquidityLevels(candlestickData);
-        console.log(`Analyzed liquidity levels for ${pair}: bsl=${liquidityLevels.bsl.length}, ssl=${liquidityLevels.ssl.length}`);
-      } catch (analysisError) {
-        console.error(`Error analyzing liquidity levels for ${pair}:`, analysisError);
-        results.push({
-          pair,
-          error: analysisError instanceof Error ? analysisError.message : "Error analyzing liquidity levels"
-        });
-        continue; // Skip to next pair
-      }
-
-      // Generate signals based on liquidity levels
+      // Generate signals with every requested strategy
       let signals;
       try {
-        signals = generateSignals(pair, timeframe, candlestickData, liquidityLevels);
-        console.log(`Generated ${signals.length} signals for ${pair}`);
+        signals = await evaluateStrategies(pair, timeframe, candlestickData, strategies, new Date(), parameters);
+        console.log(`Generated ${signals.length} signals for ${pair} (strategies: ${strategies.map((strategy) => strategy.name).join(', ')})`);
+
+        // Check the setups against higher-timeframe structure
+        if (signals.length > 0) {
+          const higherTimeframes = await loadHigherTimeframeContexts(pair, timeframe);
+          signals = applyConfluenceFilter(signals, higherTimeframes);
+          console.log(`${signals.length} signals for ${pair} left after the confluence filter (${higherTimeframes.map((context) => context.timeframe).join(', ')})`);
+        }
       } catch (signalError) {
         console.error(`Error generating signals for ${pair}:`, signalError);
         results.push({
@@ -302,7 +263,9 @@ export async function generateSignalsForTimeframe(
           const signalForDb = {
             ...signal,
             peak_time: signal.peak_time ? signal.peak_time.toISOString() : new Date().toISOString(),
+            major_level_time: signal.major_level_time ? signal.major_level_time.toISOString() : null,
             fib_levels: JSON.stringify(fibLevels), // Make sure we're storing a stringified array
+            fib_levels_version: FIB_LEVELS_VERSION,
             created_at: new Date().toISOString(),
             updated_at: new Date().toISOString(),
             // Změna zde - nové signály mají status "waiting" místo "active", protože čekají na entry hit
@@ -317,10 +280,10 @@ export async function generateSignalsForTimeframe(
             signal_type: signalForDb.signal_type
           });
 
-          // First check if signal with this ID already exists
+          // Signal IDs are derived from the setup, so a rerun finds the signal it stored before
           const { data: existingSignal, error: checkError } = await supabaseClient
             .from("generated_signals")
-            .select("signal_id")
+            .select("*")
             .eq("signal_id", signalForDb.signal_id)
             .maybeSingle();
 
@@ -331,17 +294,81 @@ export async function generateSignalsForTimeframe(
 
           let result;
           if (existingSignal) {
-            // Update existing signal
+            // Filled, closed or voided setups are never reopened
+            if (existingSignal.status !== "waiting") {
+              console.log(`Signal ${signalForDb.signal_id} is already ${existingSignal.status}, skipping...`);
+              continue;
+            }
+
+            // Refresh the levels of the waiting setup, it keeps its creation time and status
             console.log(`Signal ${signalForDb.signal_id} already exists, updating...`);
-            result = await supabaseClient
-              .from("generated_signals")
-              .update(signalForDb)
-              .eq("signal_id", signalForDb.signal_id);
+            const { created_at, status, entry_hit, ...setupColumns } = signalForDb;
+            const update = await applySignalUpdate(existingSignal, setupColumns, supabaseClient);
+            if (!update.applied && !update.error) {
+              console.log(`Signal ${signalForDb.signal_id} was checked while it was being refreshed, skipping...`);
+              continue;
+            }
+            result = { error: update.error };
+
+            // Stored as DECIMAL(18, 8)
+            const levelsMoved = (["entry_price", "stop_loss", "take_profit"] as const).some(
+              (column) => Number(existingSignal[column]).toFixed(8) !== signalForDb[column].toFixed(8)
+            );
+            if (!result.error && levelsMoved) {
+              await recordSignalEvents([{
+                signal_id: signalForDb.signal_id,
+                event_type: "updated",
+                from_status: "waiting",
+                to_status: "waiting",
+                trigger_price: signalForDb.entry_price,
+                source: "generator",
+                payload: {
+                  previous_entry_price: existingSignal.entry_price,
+                  previous_stop_loss: existingSignal.stop_loss,
+                  previous_take_profit: existingSignal.take_profit,
+                },
+                occurred_at: signalForDb.updated_at,
+              }], supabaseClient);
+            }
           } else {
-            // Insert new signal
+            // A new setup replaces the waiting ones of the same strategy on this pair/timeframe
+            const { data: previousSignals, error: previousError } = await supabaseClient
+              .from("generated_signals")
+              .select("signal_id, version")
+              .eq("pair", signalForDb.pair)
+              .eq("timeframe", signalForDb.timeframe)
+              .eq("signal_source", signalForDb.signal_source)
+              .eq("status", "waiting")
+              .order("created_at", { ascending: false });
+
+            if (previousError) {
+              console.error(`Error fetching waiting signals to supersede: ${previousError.message}`);
+            }
+
+            // Insert new signal, linked to the setup it replaces
+            const supersedes = previousSignals?.[0]?.signal_id ?? null;
             result = await supabaseClient
               .from("generated_signals")
-              .insert(signalForDb);
+              .insert({ ...signalForDb, supersedes });
+
+            if (!result.error) {
+              await recordSignalEvents([{
+                signal_id: signalForDb.signal_id,
+                event_type: "created",
+                from_status: null,
+                to_status: "waiting",
+                trigger_price: signalForDb.entry_price,
+                source: "generator",
+                payload: {
+                  strategy_version: signalForDb.strategy_version ?? null,
+                  signal_source: signalForDb.signal_source,
+                  supersedes,
+                },
+                occurred_at: signalForDb.created_at,
+              }], supabaseClient);
+
+              await supersedeSignals(previousSignals || [], signalForDb.signal_id, supabaseClient);
+            }
           }
 
           if (result.error) {
@@ -385,6 +412,38 @@ export async function generateSignalsForTimeframe(
   return results;
 }
 
+// Function to mark waiting signals as superseded by a newer setup, linking them to it
+async function supersedeSignals(
+  signals: { signal_id: string; version?: number }[],
+  supersededBy: string,
+  supabaseClient: SupabaseClient
+) {
+  for (const signal of signals) {
+    const supersededAt = new Date().toISOString();
+    const updates = { status: "superseded", superseded_by: supersededBy, updated_at: supersededAt };
+
+    // A checker filling the entry in the meantime wins, the signal stays a trade
+    const { applied, error } = await applySignalUpdate(signal, updates, supabaseClient);
+    if (error) {
+      console.error(`Error superseding signal ${signal.signal_id}:`, error);
+      continue;
+    }
+    if (!applied) continue;
+
+    console.log(`Signal ${signal.signal_id} superseded by ${supersededBy}`);
+    await recordSignalEvents([{
+      signal_id: signal.signal_id,
+      event_type: "superseded",
+      from_status: "waiting",
+      to_status: "superseded",
+      trigger_price: null,
+      source: "generator",
+      payload: { superseded_by: supersededBy },
+      occurred_at: supersededAt,
+    }], supabaseClient);
+  }
+}
+
 async function updateSignalCacheForTimeframe(
   pair: string,
   timeframe: string,
@@ -490,262 +549,6 @@ async function cleanupOldCacheEntriesForTimeframe(timeframe: string, supabaseCli
   }
 }
 
-// Function to check and update signal statuses
-export async function checkAndUpdateSignalStatuses(
-  timeframe?: string,
-  pair?: string
-): Promise<{
-  checked: number;
-  updated: number;
-  completed: number;
-  expired: number;
-  errors: number;
-}> {
-  try {
-    console.log(`Checking and updating signal statuses${timeframe ? ` for ${timeframe} timeframe` : ""}${pair ? ` and ${pair} pair` : ""}...`);
-
-    if (!supabase) {
-      console.error("Supabase client is not available for signal status update");
-      throw new Error("Supabase client not available");
-    }
-
-    // Get all waiting and active signals (not completed or expired)
-    let query = supabase.from("generated_signals").select("*").in("status", ["waiting", "active"]);
-
-    // Apply filters if provided
-    if (timeframe) {
-      query = query.eq("timeframe", timeframe);
-    }
-    
-    if (pair) {
-      query = query.eq("pair", pair);
-    }
-
-    const { data: signals, error } = await query;
-
-    if (error) {
-      console.error("Error fetching signals:", error);
-      throw error;
-    }
-
-    console.log(`Found ${signals?.length || 0} signals to check (waiting and active)`);
-
-    // Initialize counters for tracking updates
-    const results = {
-      checked: signals?.length || 0,
-      updated: 0,
-      completed: 0,
-      expired: 0,
-      errors: 0
-    };
-
-    // Group signals by pair for more efficient processing
-    const signalsByPair: Record<string, any[]> = {};
-
-    signals?.forEach((signal) => {
-      if (!signalsByPair[signal.pair]) {
-        signalsByPair[signal.pair] = [];
-      }
-      signalsByPair[signal.pair].push(signal);
-    });
-
-    // Process signals for each pair
-    for (const [signalPair, pairSignals] of Object.entries(signalsByPair)) {
-      try {
-        // Get current price for the pair
-        const currentPriceData = await fetchTimeframeCandles(signalPair, "1m", 1);
-
-        if (!currentPriceData || currentPriceData.length === 0) {
-          console.log(`No current price data available for ${signalPair}, skipping...`);
-          continue;
-        }
-
-        const currentPrice = currentPriceData[0].close;
-        console.log(`Current price for ${signalPair}: ${currentPrice}`);
-
-        // Check each signal for the pair
-        for (const signal of pairSignals) {
-          try {
-            // Fix: Parse fib_levels from JSON to array if it's a string
-            if (signal.fib_levels && typeof signal.fib_levels === 'string') {
-              try {
-                signal.fib_levels = JSON.parse(signal.fib_levels);
-                if (!Array.isArray(signal.fib_levels)) {
-                  signal.fib_levels = []; // Set to empty array if not an array
-                }
-              } catch (parseError) {
-                console.error(`Error parsing fib_levels for signal ${signal.signal_id}:`, parseError);
-                signal.fib_levels = []; // Set to empty array on parse error
-              }
-            } else if (!Array.isArray(signal.fib_levels)) {
-              signal.fib_levels = []; // Set to empty array if not an array
-            }
-            
-            // Check if signal has already been activated (entry hit)
-            let entryHit = signal.entry_hit;
-            let entryHitTime = signal.entry_hit_time;
-            let status = signal.status;
-            let isCompleted = false;
-            let exitType: string | null = null;
-            let exitPrice: number | null = null;
-            let exitTime: Date | null = null;
-            let wasUpdated = false;
-
-            // First check if entry price has been hit (if not already)
-            if (!entryHit) {
-              if (signal.signal_type === "long") {
-                // For long positions - price must drop to or below entry price
-                if (currentPrice <= signal.entry_price) {
-                  entryHit = true;
-                  entryHitTime = new Date().toISOString();
-                  // Status changes from "waiting" to "active" when entry is hit
-                  status = "active";
-                  wasUpdated = true;
-                  console.log(`Entry hit for ${signalPair} ${signal.timeframe} LONG signal at ${currentPrice}`);
-                }
-              } else {
-                // For short positions - price must rise to or above entry price
-                if (currentPrice >= signal.entry_price) {
-                  entryHit = true;
-                  entryHitTime = new Date().toISOString();
-                  // Status changes from "waiting" to "active" when entry is hit
-                  status = "active";  
-                  wasUpdated = true;
-                  console.log(`Entry hit for ${signalPair} ${signal.timeframe} SHORT signal at ${currentPrice}`);
-                }
-              }
-            }
-
-            // If signal is active (entry price has been hit), check TP/SL
-            if (entryHit) {
-              if (signal.signal_type === "long") {
-                // For long positions
-                if (currentPrice >= signal.take_profit) {
-                  isCompleted = true;
-                  exitType = "tp";
-                  exitPrice = signal.take_profit;
-                  exitTime = new Date();
-                  status = "completed";
-                  wasUpdated = true;
-                  console.log(`Take profit hit for ${signalPair} ${signal.timeframe} LONG signal at ${currentPrice}`);
-                } else if (currentPrice <= signal.stop_loss) {
-                  isCompleted = true;
-                  exitType = "sl";
-                  exitPrice = signal.stop_loss;
-                  exitTime = new Date();
-                  status = "completed";
-                  wasUpdated = true;
-                  console.log(`Stop loss hit for ${signalPair} ${signal.timeframe} LONG signal at ${currentPrice}`);
-                }
-              } else {
-                // For short positions
-                if (currentPrice <= signal.take_profit) {
-                  isCompleted = true;
-                  exitType = "tp";
-                  exitPrice = signal.take_profit;
-                  exitTime = new Date();
-                  status = "completed";
-                  wasUpdated = true;
-                  console.log(`Take profit hit for ${signalPair} ${signal.timeframe} SHORT signal at ${currentPrice}`);
-                } else if (currentPrice >= signal.stop_loss) {
-                  isCompleted = true;
-                  exitType = "sl";
-                  exitPrice = signal.stop_loss;
-                  exitTime = new Date();
-                  status = "completed";
-                  wasUpdated = true;
-                  console.log(`Stop loss hit for ${signalPair} ${signal.timeframe} SHORT signal at ${currentPrice}`);
-                }
-              }
-            }
-
-            // Check signal expiration (if older than 7 days and not activated)
-            const signalAge = Date.now() - new Date(signal.created_at).getTime();
-            const maxSignalAge = 7 * 24 * 60 * 60 * 1000; // 7 days in milliseconds
-
-            if (!entryHit && signalAge > maxSignalAge) {
-              isCompleted = true;
-              exitType = "expired";
-              exitPrice = currentPrice;
-              exitTime = new Date();
-              status = "expired";
-              wasUpdated = true;
-              console.log(`Signal expired for ${signalPair} ${signal.timeframe} ${signal.signal_type} signal`);
-            }
-
-            // Update signal in database if there was a change
-            if (wasUpdated) {
-              const updateData: any = {
-                entry_hit: entryHit,
-                status,
-                updated_at: new Date().toISOString()
-              };
-
-              if (entryHit && !signal.entry_hit) {
-                updateData.entry_hit_time = entryHitTime;
-              }
-
-              if (isCompleted) {
-                updateData.exit_type = exitType;
-                updateData.exit_price = exitPrice;
-                updateData.exit_time = exitTime?.toISOString();
-
-                // Calculate P&L
-                let profitLoss = 0;
-
-                if (signal.signal_type === "long") {
-                  profitLoss = exitPrice! - signal.entry_price;
-                } else {
-                  profitLoss = signal.entry_price - exitPrice!;
-                }
-
-                updateData.profit_loss = profitLoss;
-                updateData.profit_loss_percent = (profitLoss / signal.entry_price) * 100;
-              }
-
-              console.log(`Updating signal ${signal.signal_id} with data:`, updateData);
-
-              // Update in database
-              const { error: updateError } = await supabase
-                .from("generated_signals")
-                .update(updateData)
-                .eq("signal_id", signal.signal_id);
-
-              if (updateError) {
-                console.error(`Error updating signal ${signal.signal_id}:`, updateError);
-                results.errors++;
-              } else {
-                console.log(`Signal ${signal.signal_id} updated successfully`);
-                results.updated++;
-                
-                if (isCompleted) {
-                  if (exitType === "expired") {
-                    results.expired++;
-                  } else {
-                    results.completed++;
-                  }
-                }
-              }
-            }
-          } catch (signalError) {
-            console.error(`Error processing signal ${signal.signal_id}:`, signalError);
-            results.errors++;
-          }
-        }
-      } catch (pairError) {
-        console.error(`Error processing signals for ${signalPair}:`, pairError);
-        results.errors++;
-      }
-    }
-
-    console.log("Signal status check completed with results:", results);
-    return results;
-  } catch (error) {
-    console.error("Error checking signal statuses:", error);
-    throw error;
-  }
-}
-
 // Function to get signals from cache
 export async function getSignalsFromCache(pair: string, timeframe: string): Promise<any[]> {
   try {
@@ -0,0 +1,108 @@
+// Completed signals for the history reports, read from generated_signals with the history page's filters
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { supabase } from "./supabase-client";
+
+/**
+ * Filters of the signal history, as passed to the report endpoints
+ */
+export interface SignalHistoryFilters {
+  pair?: string;
+  timeframe?: string;
+  signalType?: string;
+  // ISO times, on the exit of the signal
+  dateFrom?: string;
+  dateTo?: string;
+}
+
+// Rows fetched per request, Supabase caps a select at 1000
+const PAGE_SIZE = 1000;
+
+// Function to read the history filters from query parameters
+export function parseSignalHistoryFilters(searchParams: URLSearchParams): SignalHistoryFilters {
+  return {
+    pair: searchParams.get("pair") || undefined,
+    timeframe: searchParams.get("timeframe") || undefined,
+    signalType: searchParams.get("signalType") || undefined,
+    dateFrom: searchParams.get("dateFrom") || undefined,
+    dateTo: searchParams.get("dateTo") || undefined,
+  };
+}
+
+/**
+ * Tables signals are read from: generated_signals holds every signal in any status,
+ * completed_signals a copy of the ones that traded
+ */
+export type SignalTable = "generated_signals" | "completed_signals";
+
+/**
+ * Page through the rows of a signal table matching the history filters, oldest first.
+ * @param table Table to read
+ * @param columns Columns to select
+ * @param filters History filters, the date range applies to dateColumn
+ * @param options Column to order and filter dates by, and an optional status to keep
+ * @param client Supabase client to read with
+ */
+export async function* iterateSignalRows<T>(
+  table: SignalTable,
+  columns: string,
+  filters: SignalHistoryFilters,
+  options: { dateColumn: string; status?: string },
+  client: SupabaseClient | null = supabase
+): AsyncGenerator<T[]> {
+  if (!client) {
+    throw new Error("Supabase client not available");
+  }
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    let query = client
+      .from(table)
+      .select(columns)
+      .order(options.dateColumn, { ascending: true })
+      // Tie-break on the key so pages never overlap
+      .order("id", { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (options.status) query = query.eq("status", options.status);
+    if (filters.pair) query = query.eq("pair", filters.pair);
+    if (filters.timeframe) query = query.eq("timeframe", filters.timeframe);
+    if (filters.signalType) query = query.eq("signal_type", filters.signalType);
+    if (filters.dateFrom) query = query.gte(options.dateColumn, filters.dateFrom);
+    if (filters.dateTo) query = query.lte(options.dateColumn, filters.dateTo);
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(`Error fetching ${table}: ${error.message}`);
+    }
+
+    if (data && data.length > 0) yield data as unknown as T[];
+    if (!data || data.length < PAGE_SIZE) return;
+  }
+}
+
+/**
+ * Fetch every completed signal matching the filters, oldest exit first. Only
+ * filled signals have an outcome, expired and invalidated ones never traded.
+ * @param columns Columns to select
+ * @param filters History filters
+ * @param client Supabase client to read with
+ */
+export async function fetchCompletedSignalRows<T>(
+  columns: string,
+  filters: SignalHistoryFilters,
+  client: SupabaseClient | null = supabase
+): Promise<T[]> {
+  const rows: T[] = [];
+  const pages = iterateSignalRows<T>(
+    "generated_signals",
+    columns,
+    filters,
+    { dateColumn: "exit_time", status: "completed" },
+    client
+  );
+  for await (const page of pages) {
+    rows.push(...page);
+  }
+  return rows;
+}
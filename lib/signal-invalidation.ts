@@ -0,0 +1,139 @@
+// Structure checks of waiting signals: a setup is void once the level it is anchored to breaks
+// or the market forms a major level against it before the entry fills
+
+import type { CandleData } from "./binance-api";
+import { calculateLiquidityLevels, isCandleBodyThroughLevel, type LiquidityLevel } from "./liquidity-levels";
+import { DEFAULT_SIGNAL_PARAMETERS, type SignalParameters } from "./signal-strategies";
+
+/**
+ * Why a waiting signal was invalidated:
+ * "major_level_broken" - a candle body went through the major level the signal is anchored to
+ * "opposite_major_level" - a major level formed against the signal, a lower high for longs or a higher low for shorts
+ */
+export type InvalidationReason = "major_level_broken" | "opposite_major_level";
+
+export const INVALIDATION_REASON_LABELS: Record<InvalidationReason, string> = {
+  major_level_broken: "Major level broken by body",
+  opposite_major_level: "Opposite major level formed",
+};
+
+/**
+ * A structure break that voids a waiting signal
+ */
+export interface SignalInvalidation {
+  reason: InvalidationReason;
+  // Price of the broken or newly formed level
+  levelPrice: number;
+  // ms, close of the candle that broke the level or confirmed the new one
+  time: number;
+}
+
+// Function to get the candles of history needed before the signal to confirm pivots and major levels
+export function getInvalidationLookback(
+  parameters: Pick<SignalParameters, "swingStrength"> = DEFAULT_SIGNAL_PARAMETERS
+): number {
+  return parameters.swingStrength * 2;
+}
+
+// Function to get the index of the candle a major level is known at. A pivot is known once
+// swingStrength candles closed after it, an SSL made major by the low swingStrength * 2
+// candles after it (calculateLiquidityLevels) only once that candle closed.
+function getMajorConfirmationIndex(
+  level: LiquidityLevel,
+  candles: CandleData[],
+  parameters: Pick<SignalParameters, "swingStrength" | "majorThreshold">
+): number {
+  const pivotIndex = level.candleIndex + parameters.swingStrength;
+  if (level.type === "BSL") return pivotIndex;
+
+  const swingSize = ((level.price - candles[pivotIndex].low) / candles[pivotIndex].low) * 100;
+  return swingSize >= parameters.majorThreshold ? pivotIndex : level.candleIndex + parameters.swingStrength * 2;
+}
+
+/**
+ * Find the first structure break of a waiting signal since it was created.
+ * The major level is broken when a candle body goes through it on the side
+ * of the stop (isTradedByBody of liquidity-levels). Liquidity levels are
+ * recalculated on the candles, and a major BSL below the peak of a long (or
+ * a major SSL above the trough of a short) formed after the signal counts as
+ * the structure turning against it.
+ * @param signal Signal row (signal_type, major_level, peak_price, created_at)
+ * @param candles Closed candles of the signal's timeframe, oldest first, including the lookback before the signal
+ * @param timeframeMs Length of a candle
+ * @param parameters Settings the liquidity levels are calculated with
+ */
+export function findStructureBreak(
+  signal: {
+    signal_type: "long" | "short";
+    major_level?: number | null;
+    peak_price?: number | null;
+    created_at: Date | string;
+  },
+  candles: CandleData[],
+  timeframeMs: number,
+  parameters: Pick<SignalParameters, "swingStrength" | "majorThreshold" | "reqThreshold"> = DEFAULT_SIGNAL_PARAMETERS
+): SignalInvalidation | null {
+  const isLong = signal.signal_type === "long";
+  const createdAt = new Date(signal.created_at).getTime();
+  const breaks: SignalInvalidation[] = [];
+
+  if (signal.major_level) {
+    // Whatever side the level came from, it holds the setup on the side of the stop
+    const anchor = { price: signal.major_level, type: isLong ? "SSL" : "BSL" } as const;
+    const breaking = candles.find(
+      (candle) => candle.time * 1000 + timeframeMs > createdAt && isCandleBodyThroughLevel(candle, anchor)
+    );
+    if (breaking) {
+      breaks.push({ reason: "major_level_broken", levelPrice: anchor.price, time: breaking.time * 1000 + timeframeMs });
+    }
+  }
+
+  const { bsl, ssl } = calculateLiquidityLevels(candles, {
+    swingStrength: parameters.swingStrength,
+    majorThreshold: parameters.majorThreshold,
+    reqThreshold: parameters.reqThreshold,
+  });
+  const peak = signal.peak_price;
+  const opposite = (isLong ? bsl : ssl).filter(
+    (level) =>
+      level.isMajor &&
+      level.time * 1000 >= createdAt &&
+      (peak === null || peak === undefined || (isLong ? level.price < peak : level.price > peak))
+  );
+
+  for (const level of opposite) {
+    const confirmation = candles[getMajorConfirmationIndex(level, candles, parameters)];
+    breaks.push({
+      reason: "opposite_major_level",
+      levelPrice: level.price,
+      time: confirmation.time * 1000 + timeframeMs,
+    });
+  }
+
+  if (breaks.length === 0) return null;
+  return breaks.reduce((first, next) => (next.time < first.time ? next : first));
+}
+
+/**
+ * Whether an invalidation applies, the entry filling first keeps the signal
+ * @param invalidation Structure break found since the last check
+ * @param entryTime Fill time (ms) of the entry found in the same candles, null if none
+ */
+export function isInvalidatedBeforeEntry(
+  invalidation: SignalInvalidation | null,
+  entryTime: number | null
+): invalidation is SignalInvalidation {
+  return invalidation !== null && (entryTime === null || invalidation.time <= entryTime);
+}
+
+/**
+ * Columns an invalidation is stored in on generated_signals
+ * @param invalidation Structure break voiding the signal
+ */
+export function toInvalidationColumns(invalidation: SignalInvalidation) {
+  return {
+    status: "invalidated",
+    invalidation_reason: invalidation.reason,
+    invalidated_at: new Date(invalidation.time).toISOString(),
+  };
+}
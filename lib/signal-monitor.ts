@@ -0,0 +1,533 @@
+// Real-time settlement of open signals on the Binance kline stream. The REST
+// checker (/api/signals/check) stays the reconciliation pass behind it.
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { supabase } from "./supabase-client";
+import { createKlineWebSocket, type CandleData } from "./binance-api";
+import {
+  applySignalUpdate,
+  findSignalStructureBreak,
+  getCurrentStopLoss,
+  loadStructureCandles,
+  storeCompletedSignal,
+  type SignalCheckResult,
+} from "./signal-checker-service";
+import {
+  getExcursionColumns,
+  getExpiryWindows,
+  settleCandlesPessimistic,
+  type SettlementResult,
+} from "./signal-settlement";
+import { calculateSignalPnl, toPnlColumns } from "./signal-costs";
+import { recordSignalTransition } from "./signal-events";
+import { isInvalidatedBeforeEntry, toInvalidationColumns } from "./signal-invalidation";
+import { getExpiryPolicy } from "./signal-strategies";
+
+/**
+ * A kline update of a pair as the monitor received it. Ticks are everything
+ * the monitor decides on, so recorded ticks replay its decisions.
+ */
+export interface MonitorTick {
+  pair: string;
+  // ms, event time of the update
+  time: number;
+  // Candle of the stream as of the update, still forming unless closed
+  candle: CandleData;
+  closed: boolean;
+  // First update after the stream (re)connected, the price path before it is unknown
+  first: boolean;
+  // Candles the structure check of an entry on this update ran on, by signal ID
+  structure?: Record<string, CandleData[]>;
+  // Row state the update was settled on, by signal ID, when it changed since the last recorded one
+  rows?: Record<string, MonitorRowState>;
+}
+
+// Columns of a signal row the monitor decides on that the reconciliation pass also writes
+const MONITOR_STATE_COLUMNS = [
+  "status",
+  "entry_hit",
+  "entry_hit_time",
+  "current_stop_loss",
+  "stop_rule",
+  "take_profit_fills",
+  "mae",
+  "mfe",
+  "version",
+] as const;
+
+/**
+ * State of a signal row as the monitor held it when settling an update
+ */
+export type MonitorRowState = Record<(typeof MONITOR_STATE_COLUMNS)[number], any>;
+
+// Function to pick the state the monitor decides on from a signal row
+export function getMonitorRowState(signal: any): MonitorRowState {
+  return Object.fromEntries(MONITOR_STATE_COLUMNS.map((column) => [column, signal[column] ?? null])) as MonitorRowState;
+}
+
+/**
+ * A state change the monitor made on a signal
+ */
+export interface MonitorDecision {
+  tick: MonitorTick;
+  previousTick: MonitorTick | null;
+  updates: Record<string, any>;
+}
+
+// Every kline stream updates every 250ms, the 1m one has the tightest ranges between updates
+export const MONITOR_KLINE_TIMEFRAME = "1m";
+
+// How often open signals are reloaded, to pick up new signals and changes of the reconciliation pass
+const REFRESH_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Price path between two updates of a stream as a candle. A new high or low of
+ * the forming candle was reached in between, otherwise only the two prices are
+ * known, so a level revisited inside the earlier range of the candle is left to
+ * the reconciliation pass. Without a previous update the path is the price itself.
+ * @param previous Previous update of the same stream, null if there is none
+ * @param tick Update the path ends at
+ */
+export function getTickCandle(previous: MonitorTick | null, tick: MonitorTick): CandleData {
+  const { candle } = tick;
+
+  if (!previous || tick.first) {
+    return { time: tick.time / 1000, open: candle.close, high: candle.close, low: candle.close, close: candle.close, volume: 0 };
+  }
+
+  const open = previous.candle.close;
+  const sameCandle = previous.candle.time === candle.time;
+  const newHigh = !sameCandle || candle.high > previous.candle.high;
+  const newLow = !sameCandle || candle.low < previous.candle.low;
+
+  return {
+    time: tick.time / 1000,
+    open,
+    high: newHigh ? Math.max(open, candle.high) : Math.max(open, candle.close),
+    low: newLow ? Math.min(open, candle.low) : Math.min(open, candle.close),
+    close: candle.close,
+    volume: sameCandle ? Math.max(0, candle.volume - previous.candle.volume) : candle.volume,
+  };
+}
+
+/**
+ * Settle a signal on the price path of one update. Stop management runs on
+ * closed candles of the signal's timeframe, so the stop in force is kept.
+ * @param signal Signal row from generated_signals
+ * @param previous Previous update of the pair's stream
+ * @param tick Update to settle on
+ * @returns Settlement of the update, null for updates before the signal was created
+ */
+export function settleTick(signal: any, previous: MonitorTick | null, tick: MonitorTick): SettlementResult | null {
+  const createdAt = new Date(signal.created_at).getTime();
+  if (tick.time < createdAt) return null;
+
+  const { entryWindowMs, timeStopMs } = getExpiryWindows(
+    signal.timeframe,
+    getExpiryPolicy(signal.signal_source, signal.timeframe)
+  );
+  // The path of the first update after the signal was created may start before it
+  const candle = getTickCandle(previous && previous.time >= createdAt ? previous : null, tick);
+
+  const settlement = settleCandlesPessimistic(signal, [candle], {
+    entryTime: signal.entry_hit ? new Date(signal.entry_hit_time || signal.created_at).getTime() : null,
+    expiresAt: createdAt + entryWindowMs,
+    timeStopAfter: timeStopMs,
+    stopLoss: getCurrentStopLoss(signal),
+    targetFills: signal.take_profit_fills ?? [],
+  });
+
+  if (settlement.resolutionMethod === "candles") {
+    settlement.resolutionMethod = "stream";
+  }
+  return settlement;
+}
+
+/**
+ * Columns a settled update changes on a signal: entry fill, partial take profits
+ * and the exit with its P/L. Excursions are only written along with a change,
+ * the reconciliation pass widens them from candles.
+ * @param signal Signal row from generated_signals
+ * @param settlement Settlement of the update
+ * @returns Columns to write, null if nothing changed
+ */
+export function getTickUpdates(signal: any, settlement: SettlementResult): Record<string, any> | null {
+  const updates: Record<string, any> = {};
+
+  if (!signal.entry_hit && settlement.entryTime !== null) {
+    updates.entry_hit = true;
+    updates.entry_hit_time = new Date(settlement.entryTime).toISOString();
+    updates.status = "active";
+  }
+
+  if (settlement.targetFills.length > (signal.take_profit_fills?.length ?? 0)) {
+    updates.take_profit_fills = settlement.targetFills;
+  }
+
+  if (settlement.exitType && settlement.exitPrice !== null) {
+    const exitTime = new Date(settlement.exitTime ?? Date.now()).toISOString();
+    const pnl = calculateSignalPnl({
+      signalType: signal.signal_type,
+      entryPrice: signal.entry_price,
+      exitPrice: settlement.exitPrice,
+      exitType: settlement.exitType,
+      entryTime: updates.entry_hit_time || signal.entry_hit_time,
+      exitTime,
+      targetFills: settlement.targetFills,
+    });
+
+    Object.assign(updates, {
+      status: settlement.exitType === "expired" ? "expired" : "completed",
+      exit_type: settlement.exitType,
+      exit_price: settlement.exitPrice,
+      exit_time: exitTime,
+      resolution_method: settlement.resolutionMethod,
+      ...toPnlColumns(pnl),
+    });
+  }
+
+  if (Object.keys(updates).length === 0) return null;
+
+  return { ...updates, ...getExcursionColumns(signal, settlement) };
+}
+
+/**
+ * Void an entry of a waiting signal whose structure broke on the closed candles before it
+ * @param signal Signal row from generated_signals
+ * @param settlement Settlement of the update that fills the entry
+ * @param updates Columns the update changes
+ * @param tick Update, with the candles of the structure check
+ * @returns Invalidation columns, or the updates unchanged
+ */
+export function applyTickStructure(
+  signal: any,
+  settlement: SettlementResult,
+  updates: Record<string, any>,
+  tick: MonitorTick
+): Record<string, any> {
+  const candles = tick.structure?.[signal.signal_id];
+  if (!candles || !updates.entry_hit || signal.entry_hit) return updates;
+
+  const invalidation = findSignalStructureBreak(signal, candles, tick.time);
+  return isInvalidatedBeforeEntry(invalidation, settlement.entryTime) ? toInvalidationColumns(invalidation) : updates;
+}
+
+/**
+ * Replay recorded ticks on a signal the way the monitor settles them live.
+ * Stops, fills and status changes of the reconciliation pass are taken from
+ * the row states recorded with the ticks, invalidations from their structure candles.
+ * @param signal Signal row from generated_signals at the first tick
+ * @param ticks Recorded updates, in the order they were received
+ * @returns Decisions made, and the row after the last one
+ */
+export function replayTicks(signal: any, ticks: MonitorTick[]): { decisions: MonitorDecision[]; signal: any } {
+  const decisions: MonitorDecision[] = [];
+  let row = { ...signal };
+  let previousTick: MonitorTick | null = null;
+
+  for (const tick of ticks) {
+    if (tick.pair !== row.pair) continue;
+
+    const state = tick.rows?.[row.signal_id];
+    if (state) row = { ...row, ...state };
+
+    if (row.status === "waiting" || row.status === "active") {
+      const settlement = settleTick(row, previousTick, tick);
+      const tickUpdates = settlement ? getTickUpdates(row, settlement) : null;
+      if (settlement && tickUpdates) {
+        const updates = applyTickStructure(row, settlement, tickUpdates, tick);
+        decisions.push({ tick, previousTick, updates });
+        row = { ...row, ...updates };
+      }
+    }
+    previousTick = tick;
+  }
+
+  return { decisions, signal: row };
+}
+
+// Function to describe a monitor decision as a check result, for the completed_signals row
+function toCheckResult(signal: any, updates: Record<string, any>, currentPrice: number): SignalCheckResult {
+  return {
+    id: signal.signal_id,
+    pair: signal.pair,
+    timeframe: signal.timeframe,
+    signalType: signal.signal_type,
+    entryPrice: signal.entry_price,
+    stopLoss: signal.stop_loss,
+    takeProfit: signal.take_profit,
+    currentPrice,
+    entryHit: Boolean(updates.entry_hit ?? signal.entry_hit),
+    completed: true,
+    exitType: updates.exit_type,
+    exitPrice: updates.exit_price,
+    exitTime: updates.exit_time,
+    profitLoss: updates.profit_loss,
+    profitLossPercent: updates.profit_loss_percent,
+    netProfitLoss: updates.net_profit_loss,
+    netProfitLossPercent: updates.net_profit_loss_percent,
+    resolutionMethod: updates.resolution_method,
+    updatedInDb: true,
+    error: null,
+  };
+}
+
+/**
+ * Class to settle open signals as kline updates of their pairs arrive
+ */
+export class SignalMonitor {
+  private signals: Map<string, any> = new Map();
+  private sockets: Map<string, WebSocket> = new Map();
+  private lastTicks: Map<string, MonitorTick> = new Map();
+  // Version of every signal last recorded on a tick
+  private recordedVersions: Map<string, number> = new Map();
+  // Rows closed outside the monitor, recorded on the next tick of their pair
+  private closedRows: Map<string, any> = new Map();
+  private reconnected: Set<string> = new Set();
+  // Ticks of a pair are settled one after another, in the order they arrived
+  private queues: Map<string, Promise<void>> = new Map();
+  private refreshId: ReturnType<typeof setInterval> | null = null;
+  private isRunning = false;
+
+  /**
+   * Constructor
+   * @param options Supabase client to read and write with, and a callback receiving every tick for recording
+   */
+  constructor(private options: { client?: SupabaseClient | null; onTick?: (tick: MonitorTick) => void } = {}) {}
+
+  private get client(): SupabaseClient | null {
+    return this.options.client === undefined ? supabase : this.options.client;
+  }
+
+  /**
+   * Start monitoring the open signals
+   */
+  public async start() {
+    if (this.isRunning) {
+      console.warn("Signal monitor is already running");
+      return;
+    }
+
+    console.log("Starting signal monitor...");
+    this.isRunning = true;
+    await this.refresh();
+    this.refreshId = setInterval(() => this.refresh(), REFRESH_INTERVAL_MS);
+    console.log("Signal monitor started");
+  }
+
+  /**
+   * Stop monitoring and close the streams
+   */
+  public stop() {
+    if (!this.isRunning) {
+      console.warn("Signal monitor is not running");
+      return;
+    }
+
+    console.log("Stopping signal monitor...");
+    this.isRunning = false;
+
+    if (this.refreshId) {
+      clearInterval(this.refreshId);
+      this.refreshId = null;
+    }
+
+    for (const pair of [...this.sockets.keys()]) {
+      this.unsubscribe(pair);
+    }
+
+    console.log("Signal monitor stopped");
+  }
+
+  /**
+   * Reload the waiting and active signals and follow the streams of their pairs
+   */
+  public async refresh() {
+    const client = this.client;
+    if (!client || !this.isRunning) return;
+
+    const { data, error } = await client.from("generated_signals").select("*").in("status", ["waiting", "active"]);
+
+    if (error) {
+      console.error("Error loading open signals for the monitor:", error);
+      return;
+    }
+
+    const signals: Map<string, any> = new Map((data || []).map((signal: any) => [signal.signal_id, signal]));
+    const closedIds = [...this.signals.keys()].filter((signalId) => !signals.has(signalId));
+    if (closedIds.length > 0) {
+      const { data: closed } = await client.from("generated_signals").select("*").in("signal_id", closedIds);
+      for (const row of closed || []) this.closedRows.set(row.signal_id, row);
+    }
+    this.signals = signals;
+    const pairs = new Set([...this.signals.values()].map((signal) => signal.pair as string));
+
+    for (const pair of pairs) {
+      const socket = this.sockets.get(pair);
+      // Streams that ran out of reconnect attempts are opened again
+      if (!socket || socket.readyState === WebSocket.CLOSED) {
+        this.subscribe(pair);
+      }
+    }
+    for (const pair of [...this.sockets.keys()]) {
+      if (!pairs.has(pair)) this.unsubscribe(pair);
+    }
+
+    console.log(`Monitoring ${this.signals.size} open signals on ${pairs.size} pairs`);
+  }
+
+  // Function to open the kline stream of a pair
+  private subscribe(pair: string) {
+    const socket = createKlineWebSocket(
+      MONITOR_KLINE_TIMEFRAME,
+      (candle, kline) => this.handleTick({ pair, time: kline.eventTime, candle, closed: kline.closed, first: false }),
+      (error) => console.error(`Kline stream error for ${pair}:`, error),
+      pair.replace(/USDT$/, ""),
+      (opened) => {
+        this.sockets.set(pair, opened);
+        this.reconnected.add(pair);
+      }
+    );
+
+    if (!socket) {
+      console.error(`Kline stream for ${pair} not opened, signals stay with the reconciliation pass`);
+    }
+  }
+
+  // Function to close the kline stream of a pair
+  private unsubscribe(pair: string) {
+    this.sockets.get(pair)?.close(1000, "Signal monitor stopped following the pair");
+    this.sockets.delete(pair);
+    this.lastTicks.delete(pair);
+    // No later tick of the pair is recorded to carry them
+    for (const [signalId, row] of [...this.closedRows]) {
+      if (row.pair !== pair) continue;
+      this.closedRows.delete(signalId);
+      this.recordedVersions.delete(signalId);
+    }
+  }
+
+  // Function to queue a tick of a pair for settlement
+  private handleTick(tick: MonitorTick) {
+    if (!this.isRunning) return;
+
+    if (this.reconnected.delete(tick.pair)) {
+      tick.first = true;
+    }
+
+    const previous = this.lastTicks.get(tick.pair) ?? null;
+    this.lastTicks.set(tick.pair, tick);
+
+    // Recorded once settled, with the structure candles its decisions ran on
+    const queue = this.queues.get(tick.pair) ?? Promise.resolve();
+    this.queues.set(
+      tick.pair,
+      queue
+        .then(() => this.processTick(previous, tick))
+        .catch((error) => console.error(`Error settling ${tick.pair} tick:`, error))
+        .then(() => this.options.onTick?.(tick))
+    );
+  }
+
+  // Function to settle the open signals of a pair on a tick
+  private async processTick(previous: MonitorTick | null, tick: MonitorTick) {
+    // Replays stop settling signals the reconciliation pass closed where the monitor did
+    for (const [signalId, row] of [...this.closedRows]) {
+      if (row.pair !== tick.pair) continue;
+      tick.rows = { ...tick.rows, [signalId]: getMonitorRowState(row) };
+      this.closedRows.delete(signalId);
+      this.recordedVersions.delete(signalId);
+    }
+
+    for (const signal of [...this.signals.values()]) {
+      if (signal.pair !== tick.pair) continue;
+
+      // Reloads bring in stops and fills of the reconciliation pass, keep the state on the tick for replays
+      const version = signal.version ?? 0;
+      if (this.recordedVersions.get(signal.signal_id) !== version) {
+        tick.rows = { ...tick.rows, [signal.signal_id]: getMonitorRowState(signal) };
+        this.recordedVersions.set(signal.signal_id, version);
+      }
+
+      const settlement = settleTick(signal, previous, tick);
+      const tickUpdates = settlement ? getTickUpdates(signal, settlement) : null;
+      if (!settlement || !tickUpdates) continue;
+
+      // The structure of a waiting signal is checked on closed candles before its entry is taken,
+      // the candles are kept on the tick so a replay decides the same
+      if (tickUpdates.entry_hit && !signal.entry_hit) {
+        let candles: CandleData[] = [];
+        try {
+          candles = await loadStructureCandles(signal, tick.time);
+        } catch (error) {
+          console.error(`Error loading structure candles for signal ${signal.signal_id}:`, error);
+        }
+        tick.structure = { ...tick.structure, [signal.signal_id]: candles };
+      }
+
+      const updates = applyTickStructure(signal, settlement, tickUpdates, tick);
+      await this.applyDecision(signal, { tick, previousTick: previous, updates });
+    }
+  }
+
+  // Function to write a decision, skipped when the reconciliation pass changed the signal first
+  private async applyDecision(signal: any, decision: MonitorDecision) {
+    const client = this.client;
+    const { tick, previousTick, updates } = decision;
+    const currentPrice = tick.candle.close;
+
+    const { applied, error } = await applySignalUpdate(
+      signal,
+      { ...updates, updated_at: new Date().toISOString() },
+      client
+    );
+
+    if (error) {
+      console.error(`Error updating signal ${signal.signal_id} from the monitor:`, error);
+      return;
+    }
+
+    if (!applied) {
+      // Decide again on the next tick against the current row
+      const { data } = client
+        ? await client.from("generated_signals").select("*").eq("signal_id", signal.signal_id).maybeSingle()
+        : { data: null };
+      if (data && (data.status === "waiting" || data.status === "active")) {
+        this.signals.set(signal.signal_id, data);
+      } else {
+        this.signals.delete(signal.signal_id);
+        if (data) this.closedRows.set(signal.signal_id, data);
+      }
+      return;
+    }
+
+    const settled = { ...signal, ...updates, version: (signal.version ?? 0) + 1 };
+    if (settled.status === "waiting" || settled.status === "active") {
+      this.signals.set(signal.signal_id, settled);
+    } else {
+      this.signals.delete(signal.signal_id);
+      this.recordedVersions.delete(signal.signal_id);
+    }
+
+    console.log(
+      `Monitor ${signal.pair} ${signal.timeframe} ${signal.signal_type} signal: ${signal.status} → ${settled.status} at ${currentPrice}`
+    );
+
+    await recordSignalTransition(
+      signal,
+      updates,
+      "monitor",
+      // The structure candles and row states stay in the tick log, the event keeps the price path
+      {
+        current_price: currentPrice,
+        tick: { ...tick, structure: undefined, rows: undefined },
+        previous_tick: previousTick && { ...previousTick, structure: undefined, rows: undefined },
+      },
+      client
+    );
+
+    if (updates.exit_type && updates.exit_price) {
+      await storeCompletedSignal(settled, toCheckResult(signal, updates, currentPrice), client);
+    }
+  }
+}
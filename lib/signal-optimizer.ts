@@ -0,0 +1,352 @@
+// Parameter optimization sweeps for the signal strategies, built on the backtester
+
+import type { CandleData } from "./binance-api";
+import { getAllCandlesInRange } from "./candle-store";
+import { getTimeframeMs } from "./websocket-candle-builder";
+import {
+  DEFAULT_SIGNAL_PARAMETERS,
+  getSignalStrategies,
+  type NumericSignalParameter,
+  type SignalParameters,
+} from "./signal-strategies";
+import {
+  backtestCandles,
+  backtestTradeToTradingSignal,
+  isClosedTrade,
+  loadHigherTimeframeCandles,
+  type BacktestTrade,
+} from "./signal-backtester";
+import { summarizeSignalStats } from "./signals-service";
+
+// Upper bound on backtest runs per optimization request
+export const MAX_OPTIMIZATION_RUNS = 200;
+
+/**
+ * Values to try for a parameter: an explicit list or an inclusive range
+ */
+export type ParameterRange = number[] | { min: number; max: number; step: number };
+
+export type ParameterSpace = Partial<Record<NumericSignalParameter, ParameterRange>>;
+
+export type OptimizationRankBy = "expectancy" | "profitFactor" | "drawdown";
+
+/**
+ * Options for an optimization run
+ */
+export interface OptimizationOptions {
+  pair: string;
+  timeframe: string;
+  startTime: number; // ms
+  endTime: number; // ms
+  space: ParameterSpace;
+  // Fixed settings the swept values are applied on top of (e.g. the entry model)
+  baseParameters?: Partial<SignalParameters>;
+  method?: "grid" | "random";
+  // Number of sampled combinations for random search
+  iterations?: number;
+  // Share of the date range held back for out-of-sample validation
+  outOfSampleRatio?: number;
+  rankBy?: OptimizationRankBy;
+  // Runs with fewer closed in-sample trades are ranked last
+  minTrades?: number;
+  // Number of best in-sample runs validated out of sample
+  topN?: number;
+  strategies?: string[];
+}
+
+/**
+ * Performance summary of one backtest window
+ */
+export interface OptimizationMetrics {
+  trades: number;
+  winRate: number;
+  expectancy: number; // % per trade
+  profitFactor: number;
+  totalR: number;
+  maxDrawdownR: number;
+}
+
+/**
+ * A single parameter combination with its in-sample and out-of-sample results
+ */
+export interface OptimizationRun {
+  rank: number;
+  parameters: SignalParameters;
+  inSample: OptimizationMetrics;
+  outOfSample: OptimizationMetrics | null;
+}
+
+/**
+ * Result of an optimization request
+ */
+export interface OptimizationResult {
+  pair: string;
+  timeframe: string;
+  method: "grid" | "random";
+  rankBy: OptimizationRankBy;
+  inSample: { startTime: number; endTime: number };
+  outOfSample: { startTime: number; endTime: number };
+  baseline: OptimizationRun;
+  runs: OptimizationRun[];
+  executionTime: number;
+}
+
+// Function to expand a range into the list of values it covers
+function expandRange(range: ParameterRange): number[] {
+  // Repeated values would only run the same combination again
+  if (Array.isArray(range)) return [...new Set(range)];
+
+  if (range.step <= 0 || range.max < range.min) {
+    throw new Error(`Invalid parameter range: ${range.min}..${range.max} step ${range.step}`);
+  }
+
+  const values: number[] = [];
+  const count = Math.floor((range.max - range.min) / range.step + 1e-9);
+  for (let i = 0; i <= count; i++) {
+    // Round to avoid floating point drift such as 0.30000000000000004
+    values.push(Number((range.min + i * range.step).toFixed(10)));
+  }
+  return values;
+}
+
+// Function to expand a parameter space into [name, values] pairs
+function expandSpace(space: ParameterSpace): [NumericSignalParameter, number[]][] {
+  return (Object.keys(space) as NumericSignalParameter[])
+    .filter((name) => typeof DEFAULT_SIGNAL_PARAMETERS[name] === "number")
+    .map((name) => [name, expandRange(space[name] as ParameterRange)]);
+}
+
+/**
+ * Count the combinations a grid search over the space would run
+ * @param space Parameter space
+ */
+export function countGridCombinations(space: ParameterSpace): number {
+  return expandSpace(space).reduce((total, [, values]) => total * values.length, 1);
+}
+
+/**
+ * Build every combination of the parameter space
+ * @param space Parameter space
+ * @param base Settings the combinations start from
+ */
+export function buildGridCombinations(
+  space: ParameterSpace,
+  base: SignalParameters = DEFAULT_SIGNAL_PARAMETERS
+): SignalParameters[] {
+  let combinations: SignalParameters[] = [{ ...base }];
+
+  for (const [name, values] of expandSpace(space)) {
+    combinations = combinations.flatMap((combination) =>
+      values.map((value) => ({ ...combination, [name]: value }))
+    );
+  }
+
+  return combinations;
+}
+
+/**
+ * Sample distinct random combinations of the parameter space
+ * @param space Parameter space
+ * @param iterations Number of combinations to sample
+ * @param base Settings the combinations start from
+ */
+export function buildRandomCombinations(
+  space: ParameterSpace,
+  iterations: number,
+  base: SignalParameters = DEFAULT_SIGNAL_PARAMETERS
+): SignalParameters[] {
+  const expanded = expandSpace(space);
+  const total = countGridCombinations(space);
+  const target = Math.min(iterations, total);
+  const seen = new Set<string>();
+  const combinations: SignalParameters[] = [];
+
+  while (combinations.length < target) {
+    const combination = { ...base };
+    for (const [name, values] of expanded) {
+      combination[name] = values[Math.floor(Math.random() * values.length)];
+    }
+
+    const key = JSON.stringify(combination);
+    if (!seen.has(key)) {
+      seen.add(key);
+      combinations.push(combination);
+    }
+  }
+
+  return combinations;
+}
+
+/**
+ * Summarize the closed trades of a backtest window
+ * @param trades Trades from backtestCandles
+ */
+export function summarizeBacktestTrades(trades: BacktestTrade[]): OptimizationMetrics {
+  const closedTrades = trades
+    .filter(isClosedTrade)
+    .sort((a, b) => (a.exitTime ?? 0) - (b.exitTime ?? 0));
+  const stats = summarizeSignalStats(closedTrades.map(backtestTradeToTradingSignal));
+
+  // Drawdown of the cumulative R curve in exit order
+  let totalR = 0;
+  let peakR = 0;
+  let maxDrawdownR = 0;
+  for (const trade of closedTrades) {
+    totalR += trade.rMultiple ?? 0;
+    peakR = Math.max(peakR, totalR);
+    maxDrawdownR = Math.max(maxDrawdownR, peakR - totalR);
+  }
+
+  return {
+    trades: closedTrades.length,
+    winRate: stats.winRate,
+    expectancy: stats.expectancy,
+    profitFactor: stats.profitFactor,
+    totalR,
+    maxDrawdownR,
+  };
+}
+
+// Function to compare two runs, best first
+function compareMetrics(a: OptimizationMetrics, b: OptimizationMetrics, rankBy: OptimizationRankBy, minTrades: number): number {
+  // Runs without enough trades are not meaningful
+  const aValid = a.trades >= minTrades;
+  const bValid = b.trades >= minTrades;
+  if (aValid !== bValid) return aValid ? -1 : 1;
+
+  const byExpectancy = b.expectancy - a.expectancy;
+  const byProfitFactor = b.profitFactor === a.profitFactor ? 0 : b.profitFactor - a.profitFactor;
+  const byDrawdown = a.maxDrawdownR - b.maxDrawdownR;
+
+  const order =
+    rankBy === "profitFactor"
+      ? [byProfitFactor, byExpectancy, byDrawdown]
+      : rankBy === "drawdown"
+        ? [byDrawdown, byExpectancy, byProfitFactor]
+        : [byExpectancy, byProfitFactor, byDrawdown];
+
+  return order.find((value) => value !== 0) ?? 0;
+}
+
+/**
+ * Sweep parameter combinations over stored candles. Every combination is
+ * ranked on the in-sample window only; the best ones are then replayed on the
+ * later out-of-sample window, which the ranking never sees.
+ * @param options Optimization options
+ * @returns Ranked runs with in-sample and out-of-sample metrics
+ */
+export async function runOptimization(options: OptimizationOptions): Promise<OptimizationResult> {
+  const startedAt = Date.now();
+  const method = options.method || "grid";
+  const rankBy = options.rankBy || "expectancy";
+  const outOfSampleRatio = options.outOfSampleRatio ?? 0.3;
+  const minTrades = options.minTrades ?? 10;
+  const topN = options.topN ?? 5;
+
+  if (outOfSampleRatio <= 0 || outOfSampleRatio >= 1) {
+    throw new Error("outOfSampleRatio must be between 0 and 1");
+  }
+
+  // Counted before building, a large grid is rejected without materializing it
+  const gridSize = countGridCombinations(options.space);
+  const runCount = method === "random" ? Math.min(options.iterations ?? 50, gridSize) : gridSize;
+  if (runCount > MAX_OPTIMIZATION_RUNS) {
+    throw new Error(`Too many parameter combinations: ${runCount} (max ${MAX_OPTIMIZATION_RUNS})`);
+  }
+
+  const baseParameters = { ...DEFAULT_SIGNAL_PARAMETERS, ...options.baseParameters };
+  const combinations =
+    method === "random"
+      ? buildRandomCombinations(options.space, options.iterations ?? 50, baseParameters)
+      : buildGridCombinations(options.space, baseParameters);
+
+  const strategies = getSignalStrategies(options.strategies);
+  const warmupCandles = Math.max(100, ...strategies.map((strategy) => strategy.requiredCandles));
+  const timeframeMs = getTimeframeMs(options.timeframe);
+  const splitTime = Math.floor(options.endTime - (options.endTime - options.startTime) * outOfSampleRatio);
+
+  // Load the whole range once, with warm-up history before the start
+  const candles = await getAllCandlesInRange(
+    options.pair,
+    options.timeframe,
+    options.startTime - warmupCandles * timeframeMs,
+    options.endTime,
+    timeframeMs
+  );
+
+  // In-sample trades can only settle on in-sample candles
+  const inSampleCandles = candles.filter((candle) => candle.time * 1000 < splitTime);
+  const firstOutIndex = candles.findIndex((candle) => candle.time * 1000 >= splitTime);
+
+  // Without candles after the split there is nothing to validate the in-sample ranking on
+  if (firstOutIndex === -1) {
+    throw new Error(
+      `No stored ${options.timeframe} candles for ${options.pair} in the out-of-sample window ` +
+        `(${new Date(splitTime).toISOString()} to ${new Date(options.endTime).toISOString()})`
+    );
+  }
+  const outOfSampleCandles = candles.slice(Math.max(0, firstOutIndex - warmupCandles));
+
+  console.log(
+    `Optimizing ${options.pair} ${options.timeframe}: ${combinations.length} combinations, ` +
+      `${inSampleCandles.length} in-sample / ${candles.length - inSampleCandles.length} out-of-sample candles`
+  );
+
+  // Higher timeframe candles for the confluence filter, shared by every run
+  const higherTimeframeCandles = await loadHigherTimeframeCandles(
+    options.pair,
+    options.timeframe,
+    options.startTime,
+    options.endTime
+  );
+
+  const evaluate = async (parameters: SignalParameters, windowCandles: CandleData[], windowStart: number) => {
+    const trades = await backtestCandles(options.pair, options.timeframe, windowCandles, {
+      startTime: windowStart,
+      strategies: options.strategies,
+      parameters,
+      higherTimeframeCandles,
+    });
+    return summarizeBacktestTrades(trades);
+  };
+
+  const runs: OptimizationRun[] = [];
+  for (const parameters of combinations) {
+    runs.push({
+      rank: 0,
+      parameters,
+      inSample: await evaluate(parameters, inSampleCandles, options.startTime),
+      outOfSample: null,
+    });
+  }
+
+  runs.sort((a, b) => compareMetrics(a.inSample, b.inSample, rankBy, minTrades));
+  runs.forEach((run, index) => {
+    run.rank = index + 1;
+  });
+
+  // Validate only the best in-sample runs on unseen data
+  for (const run of runs.slice(0, topN)) {
+    run.outOfSample = await evaluate(run.parameters, outOfSampleCandles, splitTime);
+  }
+
+  // Unswept settings, for comparison
+  const baseline: OptimizationRun = {
+    rank: 0,
+    parameters: baseParameters,
+    inSample: await evaluate(baseParameters, inSampleCandles, options.startTime),
+    outOfSample: await evaluate(baseParameters, outOfSampleCandles, splitTime),
+  };
+
+  return {
+    pair: options.pair,
+    timeframe: options.timeframe,
+    method,
+    rankBy,
+    inSample: { startTime: options.startTime, endTime: splitTime },
+    outOfSample: { startTime: splitTime, endTime: options.endTime },
+    baseline,
+    runs,
+    executionTime: Date.now() - startedAt,
+  };
+}
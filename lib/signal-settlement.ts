@@ -0,0 +1,512 @@
+// Candle-by-candle settlement of signals, shared by the live checker and the backtester
+
+import { fetchBinanceCandles, type CandleData } from "./binance-api";
+import { getCandlesInRange } from "./candle-store";
+import { getTimeframeMs } from "./websocket-candle-builder";
+import type { GeneratedSignal } from "./signal-generator-service";
+import {
+  getBlendedExitPrice,
+  getRemainingSize,
+  getSignalTargets,
+  type TakeProfitTarget,
+  type TargetFill,
+} from "./take-profit-targets";
+
+/**
+ * What to do when one candle touches levels whose order can't be told from its OHLC:
+ * "pessimistic" assumes the stop was hit first, "drilldown" replays the candle on a lower timeframe
+ */
+export type SameCandlePolicy = "pessimistic" | "drilldown";
+
+/**
+ * How the exit of a signal was determined, stored as resolution_method.
+ * "stream" was settled by the monitor on kline stream updates.
+ */
+export type ResolutionMethod = "candles" | "pessimistic" | "drilldown" | "ticker" | "stream";
+
+// Policy used when none is passed explicitly
+export const DEFAULT_SAME_CANDLE_POLICY: SameCandlePolicy =
+  process.env.SIGNAL_SAME_CANDLE_POLICY === "drilldown" ? "drilldown" : "pessimistic";
+
+// Timeframe an ambiguous candle is replayed on
+export const LOWER_TIMEFRAMES: Record<string, string> = {
+  "1d": "1h",
+  "4h": "15m",
+  "1h": "5m",
+  "30m": "5m",
+  "15m": "1m",
+  "5m": "1m",
+};
+
+// Signals whose entry is never reached expire after 7 days on timeframes without an expiry policy
+export const MAX_SIGNAL_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * How long a signal may wait for its entry and stay open after it, in candles of its timeframe
+ */
+export interface ExpiryPolicy {
+  // Unfilled signals expire after this many candles
+  entryWindowCandles: number;
+  // Filled signals close at market after this many candles, unset leaves them to the stop and targets
+  timeStopCandles?: number;
+}
+
+// Entry windows per timeframe, a 5m setup goes stale long before a 1d one
+export const DEFAULT_EXPIRY_POLICIES: Record<string, ExpiryPolicy> = {
+  "1m": { entryWindowCandles: 60 },
+  "5m": { entryWindowCandles: 36 },
+  "15m": { entryWindowCandles: 32 },
+  "30m": { entryWindowCandles: 32 },
+  "1h": { entryWindowCandles: 48 },
+  "4h": { entryWindowCandles: 30 },
+  "1d": { entryWindowCandles: 7 },
+};
+
+/**
+ * Convert an expiry policy to durations
+ * @param timeframe Timeframe of the signal
+ * @param policy Policy of the signal's strategy and timeframe, 7 days without a time stop when missing
+ */
+export function getExpiryWindows(
+  timeframe: string,
+  policy: ExpiryPolicy | undefined = DEFAULT_EXPIRY_POLICIES[timeframe]
+): { entryWindowMs: number; timeStopMs?: number } {
+  if (!policy) return { entryWindowMs: MAX_SIGNAL_AGE_MS };
+
+  const timeframeMs = getTimeframeMs(timeframe);
+  return {
+    entryWindowMs: policy.entryWindowCandles * timeframeMs,
+    timeStopMs: policy.timeStopCandles !== undefined ? policy.timeStopCandles * timeframeMs : undefined,
+  };
+}
+
+// Binance returns at most 1000 klines per request
+const KLINE_LIMIT = 1000;
+
+/**
+ * Price levels a signal is settled against. take_profit is the last target of a ladder.
+ */
+export type SettlementLevels = Pick<
+  GeneratedSignal,
+  "signal_type" | "entry_price" | "stop_loss" | "take_profit" | "take_profit_levels"
+>;
+
+/**
+ * Entry and exit found by walking the candles
+ */
+export interface SettlementResult {
+  entryTime: number | null; // ms, open time of the candle that filled the entry
+  // "trailing_sl" is a stop hit after management moved it from the original stop,
+  // "expired" never reached the entry and "time_stop" was closed at market after the time stop
+  exitType: "tp" | "sl" | "trailing_sl" | "time_stop" | "expired" | null;
+  // Blended over the targets partially closed at and the rest of the position
+  exitPrice: number | null;
+  exitTime: number | null; // ms
+  resolutionMethod: ResolutionMethod | null;
+  // Furthest move against and in favor of the position since the entry (price distance, capped at stop and target)
+  maxAdverseExcursion: number;
+  maxFavorableExcursion: number;
+  // Stop in force after the walk, and the management rule that last moved it
+  stopLoss: number;
+  stopRule: string | null;
+  // Targets of the ladder the position was partially closed at, in fill order
+  targetFills: TargetFill[];
+}
+
+/**
+ * Called after every closed candle of a filled signal, returns a new stop or null to keep it
+ */
+export type StopAdjustment = (
+  candle: CandleData,
+  stopLoss: number,
+  result: SettlementResult
+) => { stopLoss: number; rule: string } | null;
+
+/**
+ * Options for settling a signal
+ */
+export interface SettlementOptions {
+  // Time (ms) the entry was already filled at, null while waiting for it
+  entryTime?: number | null;
+  // Unfilled signals expire on the first candle opening after this time (ms)
+  expiresAt?: number;
+  // Filled signals close at the open of the first candle this long (ms) after the entry
+  timeStopAfter?: number;
+  // Current stop when management already moved it, defaults to the original stop
+  stopLoss?: number;
+  adjustStop?: StopAdjustment;
+  // Targets already filled at earlier checks
+  targetFills?: TargetFill[];
+  policy?: SameCandlePolicy;
+  // Needed for the drill-down
+  pair?: string;
+  timeframe?: string;
+  loadCandles?: (pair: string, timeframe: string, startTime: number, endTime: number) => Promise<CandleData[]>;
+}
+
+// A candle where the order of the touched levels is unknown
+interface Ambiguity {
+  index: number;
+  phase: "entry" | "exit";
+}
+
+// Function to check which levels a candle touched, against the stop in force and the targets still open
+function touchedLevels(levels: SettlementLevels, candle: CandleData, result: SettlementResult) {
+  const isLong = levels.signal_type === "long";
+  const reached = (price: number) => (isLong ? candle.high >= price : candle.low <= price);
+  const targets = getSignalTargets(levels)
+    .map((target, index) => ({ ...target, index }))
+    .filter((target) => !result.targetFills.some((fill) => fill.index === target.index) && reached(target.price));
+
+  return {
+    entry: isLong ? candle.low <= levels.entry_price : candle.high >= levels.entry_price,
+    targets,
+    stopLoss: isLong ? candle.low <= result.stopLoss : candle.high >= result.stopLoss,
+  };
+}
+
+// Function to widen the excursions of a filled signal with a candle, clipped to the stop and target
+function trackExcursion(levels: SettlementLevels, candle: CandleData, result: SettlementResult): void {
+  const candleTime = candle.time * 1000;
+  if (result.entryTime === null || candleTime < result.entryTime) return;
+
+  const isLong = levels.signal_type === "long";
+  const direction = isLong ? 1 : -1;
+  // On the fill candle only the move after the fill is known: the extreme towards the stop and the close
+  const adversePrice = isLong ? candle.low : candle.high;
+  const favorablePrice = candleTime === result.entryTime ? candle.close : isLong ? candle.high : candle.low;
+  const risk = Math.abs(levels.entry_price - levels.stop_loss);
+  const reward = Math.abs(levels.take_profit - levels.entry_price);
+
+  result.maxAdverseExcursion = Math.max(
+    result.maxAdverseExcursion,
+    Math.min(risk, Math.max(0, (levels.entry_price - adversePrice) * direction))
+  );
+  result.maxFavorableExcursion = Math.max(
+    result.maxFavorableExcursion,
+    Math.min(reward, Math.max(0, (favorablePrice - levels.entry_price) * direction))
+  );
+}
+
+// Function to close part of the position at the targets a candle reached, and all of it after the last one
+function fillTargets(
+  targets: (TakeProfitTarget & { index: number })[],
+  candleTime: number,
+  result: SettlementResult,
+  method: ResolutionMethod
+): void {
+  for (const target of targets) {
+    result.targetFills.push({ index: target.index, price: target.price, weight: target.weight, time: candleTime });
+  }
+
+  if (getRemainingSize(result.targetFills) === 0) {
+    Object.assign(result, {
+      exitType: "tp",
+      exitPrice: getBlendedExitPrice(result.targetFills, 0),
+      exitTime: candleTime,
+      resolutionMethod: method,
+    });
+  }
+}
+
+// Function to record a stop exit of the rest of the position, told apart from the original stop when management moved it
+function exitOnStop(levels: SettlementLevels, candleTime: number, result: SettlementResult, method: ResolutionMethod): void {
+  Object.assign(result, {
+    exitType: result.stopLoss !== levels.stop_loss ? "trailing_sl" : "sl",
+    exitPrice: getBlendedExitPrice(result.targetFills, result.stopLoss),
+    exitTime: candleTime,
+    resolutionMethod: method,
+  });
+}
+
+// Function to apply stop management once a candle of a filled, still open signal has closed
+function closeCandle(candle: CandleData, result: SettlementResult, adjustStop?: StopAdjustment): void {
+  if (!adjustStop || result.entryTime === null || result.exitType) return;
+
+  const adjustment = adjustStop(candle, result.stopLoss, result);
+  if (adjustment) {
+    result.stopLoss = adjustment.stopLoss;
+    result.stopRule = adjustment.rule;
+  }
+}
+
+// Function to walk candles until the signal exits or a candle becomes ambiguous
+function walkCandles(
+  levels: SettlementLevels,
+  candles: CandleData[],
+  start: number,
+  result: SettlementResult,
+  options: Pick<SettlementOptions, "expiresAt" | "timeStopAfter" | "adjustStop">
+): Ambiguity | null {
+  const { expiresAt, timeStopAfter, adjustStop } = options;
+
+  for (let i = start; i < candles.length; i++) {
+    const candle = candles[i];
+    const candleTime = candle.time * 1000;
+    const touched = touchedLevels(levels, candle, result);
+
+    if (result.entryTime === null) {
+      // Check expiration of unfilled signals
+      if (expiresAt !== undefined && candleTime > expiresAt) {
+        Object.assign(result, { exitType: "expired", exitPrice: candle.close, exitTime: candleTime, resolutionMethod: "candles" });
+        return null;
+      }
+
+      if (!touched.entry) continue;
+
+      // Price may have reached the stop or a target before or after the entry
+      if (touched.stopLoss || touched.targets.length > 0) {
+        return { index: i, phase: "entry" };
+      }
+
+      result.entryTime = candleTime;
+      trackExcursion(levels, candle, result);
+      closeCandle(candle, result, adjustStop);
+      continue;
+    }
+
+    // Time stop: the rest of the position is closed at market when the candle opens
+    if (timeStopAfter !== undefined && candleTime >= result.entryTime + timeStopAfter) {
+      Object.assign(result, {
+        exitType: "time_stop",
+        exitPrice: getBlendedExitPrice(result.targetFills, candle.open),
+        exitTime: candleTime,
+        resolutionMethod: "candles",
+      });
+      return null;
+    }
+
+    trackExcursion(levels, candle, result);
+
+    if (touched.targets.length > 0 && touched.stopLoss) {
+      return { index: i, phase: "exit" };
+    }
+    if (touched.targets.length > 0) {
+      fillTargets(touched.targets, candleTime, result, "candles");
+      if (result.exitType) return null;
+    } else if (touched.stopLoss) {
+      exitOnStop(levels, candleTime, result, "candles");
+      return null;
+    }
+
+    closeCandle(candle, result, adjustStop);
+  }
+
+  return null;
+}
+
+// Function to resolve an ambiguous candle assuming the worst order, returns true if the signal exited
+function resolvePessimistically(
+  levels: SettlementLevels,
+  candle: CandleData,
+  ambiguity: Ambiguity,
+  result: SettlementResult
+): boolean {
+  const candleTime = candle.time * 1000;
+  const touched = touchedLevels(levels, candle, result);
+
+  if (ambiguity.phase === "entry") {
+    result.entryTime = candleTime;
+    trackExcursion(levels, candle, result);
+    // Targets touched on the entry candle are not counted, the stop is
+    if (!touched.stopLoss) return false;
+  }
+
+  exitOnStop(levels, candleTime, result, "pessimistic");
+  return true;
+}
+
+// Function to create an empty settlement
+function openSettlement(
+  entryTime: number | null | undefined,
+  stopLoss: number,
+  targetFills: TargetFill[] = []
+): SettlementResult {
+  return {
+    entryTime: entryTime ?? null,
+    exitType: null,
+    exitPrice: null,
+    exitTime: null,
+    resolutionMethod: null,
+    maxAdverseExcursion: 0,
+    maxFavorableExcursion: 0,
+    stopLoss,
+    stopRule: null,
+    targetFills: [...targetFills],
+  };
+}
+
+/**
+ * Settle a signal on candles, resolving same-candle ambiguity pessimistically.
+ * Synchronous so the backtester can call it on every bar.
+ * @param levels Entry, stop and target of the signal
+ * @param candles Candles after the signal was created, oldest first
+ * @param options Entry state, expiry and time stop
+ */
+export function settleCandlesPessimistic(
+  levels: SettlementLevels,
+  candles: CandleData[],
+  options: Pick<
+    SettlementOptions,
+    "entryTime" | "expiresAt" | "timeStopAfter" | "stopLoss" | "adjustStop" | "targetFills"
+  > = {}
+): SettlementResult {
+  const result = openSettlement(options.entryTime, options.stopLoss ?? levels.stop_loss, options.targetFills);
+  let start = 0;
+
+  while (start < candles.length) {
+    const ambiguity = walkCandles(levels, candles, start, result, options);
+    if (!ambiguity) break;
+    if (resolvePessimistically(levels, candles[ambiguity.index], ambiguity, result)) break;
+    closeCandle(candles[ambiguity.index], result, options.adjustStop);
+    start = ambiguity.index + 1;
+  }
+
+  return result;
+}
+
+/**
+ * Settle a signal on candles, following the same-candle policy. With "drilldown"
+ * an ambiguous candle is replayed on the next lower timeframe (recursively), and
+ * resolved pessimistically only when no lower candles are available.
+ * @param levels Entry, stop and target of the signal
+ * @param candles Candles after the last check, oldest first
+ * @param options Entry state, expiry, policy and where to load lower timeframe candles from
+ */
+export async function settleCandles(
+  levels: SettlementLevels,
+  candles: CandleData[],
+  options: SettlementOptions = {}
+): Promise<SettlementResult> {
+  const policy = options.policy || DEFAULT_SAME_CANDLE_POLICY;
+  const lowerTimeframe = options.timeframe ? LOWER_TIMEFRAMES[options.timeframe] : undefined;
+
+  if (policy === "pessimistic" || !lowerTimeframe || !options.pair) {
+    return settleCandlesPessimistic(levels, candles, options);
+  }
+
+  const loadCandles = options.loadCandles || loadSettlementCandles;
+  const timeframeMs = getTimeframeMs(options.timeframe as string);
+  const result = openSettlement(options.entryTime, options.stopLoss ?? levels.stop_loss, options.targetFills);
+  let start = 0;
+
+  while (start < candles.length) {
+    const ambiguity = walkCandles(levels, candles, start, result, options);
+    if (!ambiguity) break;
+
+    const candle = candles[ambiguity.index];
+    const candleTime = candle.time * 1000;
+    let lowerCandles: CandleData[] = [];
+
+    try {
+      lowerCandles = await loadCandles(options.pair, lowerTimeframe, candleTime, candleTime + timeframeMs - 1);
+    } catch (error) {
+      console.error(`Error loading ${lowerTimeframe} candles to resolve ${options.pair} ${options.timeframe} candle:`, error);
+    }
+
+    if (lowerCandles.length === 0) {
+      if (resolvePessimistically(levels, candle, ambiguity, result)) break;
+      closeCandle(candle, result, options.adjustStop);
+      start = ambiguity.index + 1;
+      continue;
+    }
+
+    // The stop is managed on closed candles of the signal's timeframe, so it stays put inside the replay
+    const lower = await settleCandles(levels, lowerCandles, {
+      ...options,
+      timeframe: lowerTimeframe,
+      entryTime: result.entryTime,
+      expiresAt: undefined,
+      stopLoss: result.stopLoss,
+      adjustStop: undefined,
+      targetFills: result.targetFills,
+    });
+
+    result.maxAdverseExcursion = Math.max(result.maxAdverseExcursion, lower.maxAdverseExcursion);
+    result.maxFavorableExcursion = Math.max(result.maxFavorableExcursion, lower.maxFavorableExcursion);
+
+    if (lower.exitType) {
+      return {
+        ...result,
+        entryTime: lower.entryTime,
+        exitType: lower.exitType,
+        exitPrice: lower.exitPrice,
+        exitTime: lower.exitTime,
+        resolutionMethod: lower.resolutionMethod === "pessimistic" ? "pessimistic" : "drilldown",
+        targetFills: lower.targetFills,
+      };
+    }
+
+    // Still open after the replay, carry the entry and partial fills over to the next candle
+    result.entryTime = lower.entryTime ?? candleTime;
+    result.targetFills = lower.targetFills;
+    closeCandle(candle, result, options.adjustStop);
+    start = ambiguity.index + 1;
+  }
+
+  return result;
+}
+
+/**
+ * MAE/MFE columns of a filled signal, combining the excursions already stored
+ * on the row with a new settlement. Null while the entry has not been filled.
+ * @param signal Signal row (generated_signals) with entry, stop and stored mae/mfe
+ * @param settlement Settlement of the candles since the last check
+ */
+export function getExcursionColumns(
+  signal: SettlementLevels & { mae?: number | null; mfe?: number | null },
+  settlement: SettlementResult
+): { mae: number; mfe: number; mae_r: number | null; mfe_r: number | null } | null {
+  if (settlement.entryTime === null) return null;
+
+  const risk = Math.abs(signal.entry_price - signal.stop_loss);
+  const mae = Math.max(Number(signal.mae) || 0, settlement.maxAdverseExcursion);
+  const mfe = Math.max(Number(signal.mfe) || 0, settlement.maxFavorableExcursion);
+
+  return {
+    mae,
+    mfe,
+    mae_r: risk > 0 ? mae / risk : null,
+    mfe_r: risk > 0 ? mfe / risk : null,
+  };
+}
+
+/**
+ * Load candles between two times from ohlc_candles, topped up with Binance
+ * klines for anything newer than the last stored candle
+ * @param pair Trading pair symbol
+ * @param timeframe Candle timeframe
+ * @param startTime Start time in milliseconds
+ * @param endTime End time in milliseconds
+ */
+export async function loadSettlementCandles(
+  pair: string,
+  timeframe: string,
+  startTime: number,
+  endTime: number
+): Promise<CandleData[]> {
+  const timeframeMs = getTimeframeMs(timeframe);
+  const stored = await getCandlesInRange(pair, timeframe, startTime, endTime);
+  const last = stored[stored.length - 1];
+  const storedUntil = last ? last.time * 1000 + timeframeMs : startTime;
+
+  // Stored candles cover the range and the last one has closed
+  if (last && storedUntil >= endTime && storedUntil <= Date.now()) {
+    return stored;
+  }
+
+  try {
+    const klines = await fetchBinanceCandles(
+      pair,
+      timeframe,
+      KLINE_LIMIT,
+      Math.floor((last ? last.time * 1000 : startTime) / 1000),
+      Math.floor(endTime / 1000)
+    );
+    // The last stored candle may still have been forming, prefer the kline version
+    return [...stored.filter((candle) => !klines.some((kline) => kline.time === candle.time)), ...klines];
+  } catch (error) {
+    console.error(`Error fetching ${timeframe} klines for ${pair}, using stored candles only:`, error);
+    return stored;
+  }
+}
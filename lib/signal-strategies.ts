@@ -0,0 +1,339 @@
+import type { CandleData } from "./binance-api";
+import type { LiquidityLevel } from "./liquidity-levels";
+import type { IntradayBias } from "./intraday-seasonality";
+import { SEASONALITY_SIGNIFICANCE_LEVEL } from "./seasonality-statistics";
+import type { GeneratedSignal } from "./signal-generator-service";
+import type { TradeManagementRule } from "./trade-management";
+import type { ExpiryPolicy } from "./signal-settlement";
+import {
+  buildTakeProfitLadder,
+  getLadderRewardRatio,
+  type TakeProfitStep,
+  type TakeProfitTarget,
+} from "./take-profit-targets";
+import { buildFibLevels, fibRetracementPrice } from "./fibonacci-entries";
+import { v5 as uuidv5 } from "uuid";
+
+/**
+ * Tunable settings for liquidity level detection and signal placement
+ */
+export interface SignalParameters {
+  // Options passed to calculateLiquidityLevels
+  swingStrength: number;
+  majorThreshold: number;
+  reqThreshold: number;
+  // "fibonacci" enters at a retracement of the major level to peak leg,
+  // "offset" enters at a fixed multiple of the current price
+  entryModel: "fibonacci" | "offset";
+  // Retracement (%) of the limit entry, 0% at the peak and 100% at the major level
+  entryRetracement: number;
+  // Retracement (%) of the stop, beyond 100% places it past the major level
+  stopRetracement: number;
+  // Entry as a multiple of the current price for the offset model (below 1 for longs, above 1 for shorts)
+  longEntryOffset: number;
+  shortEntryOffset: number;
+  riskRewardRatio: number;
+  // Targets closing a share of the position each (null takes everything at riskRewardRatio),
+  // a "liquidity" target without a level beyond the previous target falls back to riskRewardRatio
+  takeProfitLadder: TakeProfitStep[] | null;
+  // Pick the direction from hour/weekday/week-of-month seasonality when the month is neutral
+  useIntradayBias: boolean;
+  // p-value a month's share of positive years must beat to count as bullish or bearish (1 disables the check)
+  seasonalitySignificance: number;
+}
+
+// Parameters that take a plain number and can be swept by the optimizer
+export type NumericSignalParameter = {
+  [K in keyof SignalParameters]: SignalParameters[K] extends number ? K : never;
+}[keyof SignalParameters];
+
+// Settings the live generator runs with
+export const DEFAULT_SIGNAL_PARAMETERS: SignalParameters = {
+  swingStrength: 5,
+  majorThreshold: 0.3,
+  reqThreshold: 2.0,
+  entryModel: "fibonacci",
+  entryRetracement: 61.8,
+  stopRetracement: 110,
+  longEntryOffset: 0.985,
+  shortEntryOffset: 1.015,
+  riskRewardRatio: 3.0,
+  takeProfitLadder: [
+    { target: 1, weight: 0.5 },
+    { target: 2, weight: 0.25 },
+    { target: "liquidity", weight: 0.25 },
+  ],
+  useIntradayBias: false,
+  seasonalitySignificance: SEASONALITY_SIGNIFICANCE_LEVEL,
+};
+
+/**
+ * Market context shared by every strategy evaluated for the same pair/timeframe
+ */
+export interface StrategyContext {
+  now: Date;
+  seasonality: "bullish" | "bearish" | "neutral";
+  positiveProbability: number;
+  // Only set when parameters.useIntradayBias is on
+  intradayBias?: IntradayBias;
+  liquidityLevels: { bsl: LiquidityLevel[]; ssl: LiquidityLevel[] };
+  parameters: SignalParameters;
+}
+
+/**
+ * A pluggable signal source. The generator tags every signal a strategy
+ * returns with its name (signal_source) and version (strategy_version).
+ */
+export interface SignalStrategy {
+  name: string;
+  version: string;
+  // Number of candles (oldest to newest) the strategy needs to evaluate
+  requiredCandles: number;
+  // Breakeven / trailing stop rules the checker applies once a signal is active
+  management?: TradeManagementRule[];
+  // Entry windows and time stops by timeframe, overriding DEFAULT_EXPIRY_POLICIES
+  expiry?: Record<string, ExpiryPolicy>;
+  evaluate(
+    pair: string,
+    timeframe: string,
+    candles: CandleData[],
+    context: StrategyContext
+  ): GeneratedSignal[] | Promise<GeneratedSignal[]>;
+}
+
+// Namespace of the deterministic signal IDs (UUID v5)
+const SIGNAL_ID_NAMESPACE = "6f1c2a4e-8b3d-5e7f-9a0b-1c2d3e4f5a6b";
+
+/**
+ * Build the ID of a setup from what identifies it, so evaluating the same
+ * setup again (the next cron run, a rerun) yields the same signal_id
+ * @param strategyName Strategy that found the setup
+ * @param pair Trading pair
+ * @param timeframe Timeframe of the candles
+ * @param signalType Direction
+ * @param levelTime Open time (seconds) of the candle the major level formed on
+ */
+export function buildSignalId(
+  strategyName: string,
+  pair: string,
+  timeframe: string,
+  signalType: "long" | "short",
+  levelTime: number
+): string {
+  return uuidv5(`${strategyName}:${pair}:${timeframe}:${signalType}:${levelTime}`, SIGNAL_ID_NAMESPACE);
+}
+
+// Registered strategies by name
+const strategyRegistry = new Map<string, SignalStrategy>();
+
+// Function to register (or replace) a strategy
+export function registerSignalStrategy(strategy: SignalStrategy): void {
+  if (strategyRegistry.has(strategy.name)) {
+    console.warn(`Signal strategy ${strategy.name} is already registered, replacing it`);
+  }
+  strategyRegistry.set(strategy.name, strategy);
+}
+
+// Function to get a single strategy by name
+export function getSignalStrategy(name: string): SignalStrategy | undefined {
+  return strategyRegistry.get(name);
+}
+
+// Function to get the expiry policy a strategy sets for a timeframe, undefined falls back to the default
+export function getExpiryPolicy(strategyName: string, timeframe: string): ExpiryPolicy | undefined {
+  return strategyRegistry.get(strategyName)?.expiry?.[timeframe];
+}
+
+// Function to list the names of all registered strategies
+export function listSignalStrategies(): string[] {
+  return Array.from(strategyRegistry.keys());
+}
+
+// Function to resolve strategy names to strategies (all registered when no names are given)
+export function getSignalStrategies(names?: string[]): SignalStrategy[] {
+  if (!names || names.length === 0) {
+    return Array.from(strategyRegistry.values());
+  }
+
+  return names.map((name) => {
+    const strategy = strategyRegistry.get(name);
+    if (!strategy) {
+      throw new Error(`Unknown signal strategy: ${name}`);
+    }
+    return strategy;
+  });
+}
+
+// Liquidity level / Fibonacci strategy - the original generator logic
+export const fibonacciLiquidityStrategy: SignalStrategy = {
+  name: "fibonacci",
+  version: "1.3.0",
+  requiredCandles: 100,
+  management: [{ type: "breakeven", triggerR: 1 }],
+
+  evaluate(pair, timeframe, candles, context) {
+    const signals: GeneratedSignal[] = [];
+
+    try {
+      const { seasonality, positiveProbability: probability, liquidityLevels, parameters } = context;
+
+      // Find all major levels
+      const majorBSL = liquidityLevels.bsl.filter((level) => level.isMajor);
+      const majorSSL = liquidityLevels.ssl.filter((level) => level.isMajor);
+
+      // Current price (use close of last candle)
+      const currentPrice = candles[candles.length - 1].close;
+
+      // Determine signal type based on seasonality, letting the intraday bias break a neutral month
+      const direction = seasonality === "neutral" && context.intradayBias ? context.intradayBias.bias : seasonality;
+      const signalType = direction === "bearish" ? "short" : "long";
+
+      // Find appropriate major level based on signal type
+      let relevantLevel: LiquidityLevel | null = null;
+
+      if (signalType === "long") {
+        // For LONG signals, find lowest major SSL level BELOW current price
+        const sslBelowPrice = majorSSL.filter((ssl) => ssl.price < currentPrice);
+        const sortedSSL = [...sslBelowPrice].sort((a, b) => b.price - a.price); // Sort descending to get closest below
+        relevantLevel = sortedSSL.length > 0 ? sortedSSL[0] : null;
+
+        // If no valid SSL level found, try using BSL level in neutral seasonality
+        if (!relevantLevel && seasonality === "neutral" && majorBSL.length > 0) {
+          const bslBelowPrice = majorBSL.filter((bsl) => bsl.price < currentPrice);
+          relevantLevel = bslBelowPrice.sort((a, b) => b.price - a.price)[0] || null; // Get highest BSL below price
+        }
+      } else {
+        // For SHORT signals, find highest major BSL level ABOVE current price
+        const bslAbovePrice = majorBSL.filter((bsl) => bsl.price > currentPrice);
+        const sortedBSL = [...bslAbovePrice].sort((a, b) => a.price - b.price); // Sort ascending to get closest above
+        relevantLevel = sortedBSL.length > 0 ? sortedBSL[0] : null;
+
+        // If no valid BSL level found, try using SSL level in neutral seasonality
+        if (!relevantLevel && seasonality === "neutral" && majorSSL.length > 0) {
+          const sslAbovePrice = majorSSL.filter((ssl) => ssl.price > currentPrice);
+          relevantLevel = sslAbovePrice.sort((a, b) => a.price - b.price)[0] || null; // Get lowest SSL above price
+        }
+      }
+
+      // If no relevant level found, return empty array
+      if (!relevantLevel) {
+        return signals;
+      }
+
+      const level = relevantLevel;
+
+      // Get all candles after the major level formation
+      const candlesAfterLevel = candles.filter((candle) => candle.time > level.time);
+
+      if (candlesAfterLevel.length < 5) {
+        return signals;
+      }
+
+      // Same pair, timeframe, direction and major level always give the same signal
+      const signalId = buildSignalId(this.name, pair, timeframe, signalType, level.time);
+
+      // Create proper entry, stop loss, and take profit levels
+      let entryPrice, stopLoss, takeProfit;
+      let entryRetracement: number | undefined;
+      let takeProfitLevels: TakeProfitTarget[] | undefined;
+      let riskRewardRatio = parameters.riskRewardRatio; // Risk:Reward ratio
+
+      if (parameters.entryModel === "fibonacci") {
+        // Limit entry on the retracement of the move away from the major level.
+        // One entry only, settlement has no fills per level to model a scaled ladder with
+        entryRetracement = parameters.entryRetracement;
+        entryPrice = fibRetracementPrice(signalType, level.price, currentPrice, entryRetracement);
+
+        // Stop loss beyond the 100% level (the major level itself)
+        stopLoss = fibRetracementPrice(signalType, level.price, currentPrice, parameters.stopRetracement);
+      } else if (signalType === "long") {
+        // Entry slightly below current price
+        entryPrice = currentPrice * parameters.longEntryOffset;
+
+        // Stop loss must be BELOW the entry price
+        // Use the major level as a reference, but ensure SL is below entry
+        stopLoss = Math.min(entryPrice * 0.99, level.price * 0.99);
+      } else {
+        // Entry slightly above current price
+        entryPrice = currentPrice * parameters.shortEntryOffset;
+
+        // Stop loss must be ABOVE the entry price
+        // Use the major level as a reference, but ensure SL is above entry
+        stopLoss = Math.max(entryPrice * 1.01, level.price * 1.01);
+      }
+
+      // Take profit at the risk/reward multiple on the other side of the entry
+      const riskAmount = Math.abs(entryPrice - stopLoss);
+      takeProfit = signalType === "long"
+        ? entryPrice + (riskAmount * riskRewardRatio)
+        : entryPrice - (riskAmount * riskRewardRatio);
+
+      // Scale out over the ladder instead, up to the opposite liquidity
+      if (parameters.takeProfitLadder && parameters.takeProfitLadder.length > 0) {
+        const ladder = buildTakeProfitLadder(
+          signalType,
+          entryPrice,
+          stopLoss,
+          parameters.takeProfitLadder,
+          signalType === "long" ? liquidityLevels.bsl : liquidityLevels.ssl,
+          parameters.riskRewardRatio
+        );
+
+        if (ladder.length > 0) {
+          takeProfitLevels = ladder;
+          takeProfit = ladder[ladder.length - 1].price;
+          riskRewardRatio = getLadderRewardRatio(ladder, entryPrice, stopLoss);
+        }
+      }
+
+      // Gather all Fibonacci levels for reference - Always ensure this is an array
+      const fibLevels = buildFibLevels(signalType, level.price, currentPrice);
+
+      // Final validation of price levels
+      if (signalType === "long") {
+        // For long positions, ensure TP > Entry > SL
+        if (!(takeProfit > entryPrice && entryPrice > stopLoss)) {
+          console.warn(`Invalid long signal prices: Entry=${entryPrice}, SL=${stopLoss}, TP=${takeProfit}`);
+          return signals;
+        }
+      } else {
+        // For short positions, ensure TP < Entry < SL
+        if (!(takeProfit < entryPrice && entryPrice < stopLoss)) {
+          console.warn(`Invalid short signal prices: Entry=${entryPrice}, SL=${stopLoss}, TP=${takeProfit}`);
+          return signals;
+        }
+      }
+
+      // Add signal to results
+      signals.push({
+        signal_id: signalId,
+        signal_type: signalType,
+        entry_price: entryPrice,
+        stop_loss: stopLoss,
+        take_profit: takeProfit,
+        take_profit_levels: takeProfitLevels,
+        pair,
+        timeframe,
+        signal_source: this.name,
+        strategy_version: this.version,
+        major_level: level.price,
+        major_level_time: new Date(level.time * 1000),
+        peak_price: currentPrice,
+        peak_time: context.now,
+        fib_levels: fibLevels, // Always an array
+        entry_retracement: entryRetracement,
+        risk_reward_ratio: riskRewardRatio,
+        seasonality,
+        positive_probability: probability
+      });
+
+      return signals;
+    } catch (error) {
+      console.error("Error generating signals:", error);
+      return [];
+    }
+  },
+};
+
+// Register built-in strategies
+registerSignalStrategy(fibonacciLiquidityStrategy);
@@ -3,6 +3,10 @@ import { v4 as uuidv4 } from "uuid"
 
 // Přidám import pro typ CandleData
 import type { CandleData } from "@/lib/binance-api"
+import { calculateSignalPnl } from "@/lib/signal-costs"
+import { calculateEquityMetrics, DEFAULT_RISK_PERCENT, type EquityMetrics, type EquityTrade } from "@/lib/equity-curve"
+import { recordSignalEvents } from "@/lib/signal-events"
+import type { TakeProfitTarget, TargetFill } from "@/lib/take-profit-targets"
 
 export interface TradingSignal {
   id?: string
@@ -14,18 +18,50 @@ export interface TradingSignal {
   pair: string
   timeframe: string
   source: string
+  strategyVersion?: string
   strength?: "low" | "medium" | "high"
   notes?: string
   status?: "active" | "completed" | "cancelled"
+  // Blended over the partial take profits and the rest of the position
   exitPrice?: number
   exitTime?: Date
-  exitType?: "tp" | "sl" | "manual"
+  exitType?: SignalExitType
+  // Take-profit ladder and the targets the position was partially closed at
+  takeProfitLevels?: TakeProfitTarget[]
+  targetFills?: TargetFill[]
+  // How the checker found the exit (candles, pessimistic, drilldown or ticker)
+  resolutionMethod?: string
+  // Gross P/L, before trading costs
   profitLoss?: number
   profitLossPercent?: number
+  // P/L after fees, slippage and funding
+  netProfitLoss?: number
+  netProfitLossPercent?: number
+  costs?: SignalCosts
+  // Maximum adverse/favorable excursion between entry and exit, in price and R multiples
+  mae?: number
+  mfe?: number
+  maeR?: number
+  mfeR?: number
   riskRewardRatio?: number
 }
 
-export interface SignalStats {
+// "trailing_sl" is a stop hit after breakeven or trailing rules moved it from the original stop,
+// "time_stop" a filled signal closed at market after its time stop, "expired" one that never reached its entry
+export type SignalExitType = "tp" | "sl" | "trailing_sl" | "time_stop" | "expired" | "manual"
+
+export interface SignalCosts {
+  fees: number
+  slippage: number
+  funding: number
+}
+
+// Whether P/L figures are read before or after trading costs
+export type PnlBasis = "net" | "gross"
+
+// Time-ordered equity curve, drawdown, Sharpe/Sortino and streaks come from EquityMetrics
+export interface SignalStats extends EquityMetrics {
+  // Every outcome, the win/loss figures below only cover signals whose entry was filled
   totalSignals: number
   winningSignals: number
   losingSignals: number
@@ -38,6 +74,15 @@ export interface SignalStats {
   largestWin: number
   largestLoss: number
   averageRRR: number
+  // Exits by type, trailing stops counted apart from initial stop losses
+  takeProfitExits: number
+  stopLossExits: number
+  trailingStopExits: number
+  timeStopExits: number
+  expiredSignals: number
+  // Stopped out after closing part of the position at ladder targets, and those still in profit overall
+  partialTargetExits: number
+  partialWins: number
 }
 
 // Save active signal to local storage
@@ -240,17 +285,7 @@ export async function checkActiveSignals(
       signal.exitType = exitType
 
       // Vypočítáme P&L
-      let profitLoss = 0
-
-      if (signal.type === "long") {
-        profitLoss = exitPrice - signal.entry
-      } else {
-        // short
-        profitLoss = signal.entry - exitPrice
-      }
-
-      signal.profitLoss = profitLoss
-      signal.profitLossPercent = (profitLoss / signal.entry) * 100
+      applySignalPnl(signal)
 
       // Vypočítáme RRR (Risk-Reward Ratio)
       const risk = Math.abs(signal.entry - signal.stopLoss)
@@ -276,7 +311,25 @@ export async function checkActiveSignals(
   }
 }
 
-// Save completed signal to database
+// Set gross and net P/L of a signal that has an exit
+function applySignalPnl(signal: TradingSignal): void {
+  const pnl = calculateSignalPnl({
+    signalType: signal.type,
+    entryPrice: signal.entry,
+    exitPrice: signal.exitPrice ?? signal.entry,
+    exitType: signal.exitType ?? "manual",
+    entryTime: signal.entryTime,
+    exitTime: signal.exitTime,
+  })
+
+  signal.profitLoss = pnl.grossProfitLoss
+  signal.profitLossPercent = pnl.grossProfitLossPercent
+  signal.netProfitLoss = pnl.netProfitLoss
+  signal.netProfitLossPercent = pnl.netProfitLossPercent
+  signal.costs = { fees: pnl.feeCost, slippage: pnl.slippageCost, funding: pnl.fundingCost }
+}
+
+// Save completed signal to database (once, a signal already stored is left as it is)
 export async function saveCompletedSignal(signal: TradingSignal): Promise<void> {
   if (!supabase) {
     console.error("Supabase client not available")
@@ -284,7 +337,7 @@ export async function saveCompletedSignal(signal: TradingSignal): Promise<void>
   }
 
   try {
-    const { error } = await supabase.from("completed_signals").insert({
+    const { error } = await supabase.from("completed_signals").upsert({
       signal_id: signal.id,
       signal_type: signal.type,
       entry_price: signal.entry,
@@ -298,10 +351,15 @@ export async function saveCompletedSignal(signal: TradingSignal): Promise<void>
       timeframe: signal.timeframe,
       profit_loss: signal.profitLoss,
       profit_loss_percent: signal.profitLossPercent,
+      net_profit_loss: signal.netProfitLoss,
+      net_profit_loss_percent: signal.netProfitLossPercent,
+      fee_cost: signal.costs?.fees,
+      slippage_cost: signal.costs?.slippage,
+      funding_cost: signal.costs?.funding,
       risk_reward_ratio: signal.riskRewardRatio,
       signal_source: signal.source,
       notes: signal.notes || null,
-    })
+    }, { onConflict: "signal_id", ignoreDuplicates: true })
 
     if (error) {
       console.error("Error saving completed signal:", error)
@@ -330,17 +388,7 @@ export async function completeSignal(
       signal.exitType = exitType
 
       // Calculate P&L
-      let profitLoss = 0
-
-      if (signal.type === "long") {
-        profitLoss = exitPrice - signal.entry
-      } else {
-        // short
-        profitLoss = signal.entry - exitPrice
-      }
-
-      signal.profitLoss = profitLoss
-      signal.profitLossPercent = (profitLoss / signal.entry) * 100
+      applySignalPnl(signal)
 
       // Calculate RRR
       const risk = Math.abs(signal.entry - signal.stopLoss)
@@ -359,6 +407,22 @@ export async function completeSignal(
   // Save completed signal to database
   if (completedSignal) {
     await saveCompletedSignal(completedSignal)
+    await recordSignalEvents([
+      {
+        signal_id: completedSignal.id as string,
+        event_type: exitType === "tp" ? "take_profit" : exitType === "sl" ? "stop_loss" : "manual_close",
+        from_status: "active",
+        to_status: "completed",
+        trigger_price: exitPrice,
+        source: "manual",
+        payload: {
+          exit_type: exitType,
+          profit_loss: completedSignal.profitLoss ?? null,
+          net_profit_loss: completedSignal.netProfitLoss ?? null,
+        },
+        occurred_at: (completedSignal.exitTime ?? new Date()).toISOString(),
+      },
+    ])
   }
 }
 
@@ -369,6 +433,85 @@ export function cancelSignal(signalId: string): void {
   localStorage.setItem("activeSignals", JSON.stringify(updatedSignals))
 }
 
+// Read net P/L columns of a signal row, estimating them for rows stored before costs were tracked
+function mapNetProfitLoss(
+  record: any,
+  entryTime: string,
+): Pick<TradingSignal, "netProfitLoss" | "netProfitLossPercent" | "costs"> {
+  if (record.net_profit_loss !== null && record.net_profit_loss !== undefined) {
+    return {
+      netProfitLoss: record.net_profit_loss,
+      netProfitLossPercent: record.net_profit_loss_percent,
+      costs: { fees: record.fee_cost || 0, slippage: record.slippage_cost || 0, funding: record.funding_cost || 0 },
+    };
+  }
+
+  const pnl = calculateSignalPnl({
+    signalType: record.signal_type,
+    entryPrice: record.entry_price,
+    exitPrice: record.exit_price || record.entry_price,
+    exitType: record.exit_type || "manual",
+    entryTime,
+    exitTime: record.exit_time || record.updated_at,
+    targetFills: record.take_profit_fills ?? undefined,
+  });
+
+  return {
+    netProfitLoss: pnl.netProfitLoss,
+    netProfitLossPercent: pnl.netProfitLossPercent,
+    costs: { fees: pnl.feeCost, slippage: pnl.slippageCost, funding: pnl.fundingCost },
+  };
+}
+
+// Read MAE/MFE columns of a signal row, left undefined for rows that were never tracked
+function mapExcursion(record: any): Pick<TradingSignal, "mae" | "mfe" | "maeR" | "mfeR"> {
+  return {
+    mae: record.mae ?? undefined,
+    mfe: record.mfe ?? undefined,
+    maeR: record.mae_r ?? undefined,
+    mfeR: record.mfe_r ?? undefined,
+  };
+}
+
+// Read the take-profit ladder of a signal row and the targets it filled
+function mapTargets(record: any): Pick<TradingSignal, "takeProfitLevels" | "targetFills"> {
+  return {
+    takeProfitLevels: record.take_profit_levels ?? undefined,
+    targetFills: record.take_profit_fills ?? undefined,
+  };
+}
+
+/**
+ * Read the P/L of a signal before or after trading costs
+ * @param signal Completed signal
+ * @param basis "net" (after costs) or "gross"
+ */
+export function getSignalPnl(signal: TradingSignal, basis: PnlBasis = "net"): { profitLoss?: number; profitLossPercent?: number } {
+  if (basis === "net" && signal.netProfitLoss !== undefined) {
+    return { profitLoss: signal.netProfitLoss, profitLossPercent: signal.netProfitLossPercent };
+  }
+  return { profitLoss: signal.profitLoss, profitLossPercent: signal.profitLossPercent };
+}
+
+// Get the P/L of a signal in R multiples of its initial risk, undefined without a risk or P/L
+export function getSignalRMultiple(signal: TradingSignal, basis: PnlBasis = "net"): number | undefined {
+  const risk = Math.abs(signal.entry - signal.stopLoss)
+  const { profitLoss } = getSignalPnl(signal, basis)
+  if (risk <= 0 || profitLoss === undefined) return undefined
+  return profitLoss / risk
+}
+
+// Get the filled signals as trades in R multiples, the input of the equity curve and Monte Carlo simulation
+export function getEquityTrades(signals: TradingSignal[], basis: PnlBasis = "net"): EquityTrade[] {
+  return signals
+    .filter((signal) => signal.exitType !== "expired")
+    .map((signal) => ({
+      time: new Date(signal.exitTime ?? signal.entryTime).getTime(),
+      rMultiple: getSignalRMultiple(signal, basis),
+    }))
+    .filter((trade): trade is EquityTrade => trade.rMultiple !== undefined)
+}
+
 // Get completed signals from database - UPDATED
 export async function getCompletedSignals(
   limit = 100,
@@ -458,12 +601,17 @@ export async function getCompletedSignals(
         pair: record.pair,
         timeframe: record.timeframe,
         source: record.signal_source || "unknown",
+        strategyVersion: record.strategy_version || undefined,
         status: "completed",
         exitPrice: record.exit_price || record.entry_price,
         exitTime: record.exit_time ? new Date(record.exit_time) : new Date(record.updated_at),
-        exitType: (record.exit_type || "manual") as "tp" | "sl" | "manual",
+        exitType: (record.exit_type || "manual") as SignalExitType,
+        resolutionMethod: record.resolution_method || undefined,
         profitLoss: record.profit_loss || 0,
         profitLossPercent: record.profit_loss_percent || 0,
+        ...mapNetProfitLoss(record, record.entry_hit_time || record.created_at),
+        ...mapExcursion(record),
+        ...mapTargets(record),
         riskRewardRatio: record.risk_reward_ratio || 3.0,
         notes: null,
       }));
@@ -480,12 +628,17 @@ export async function getCompletedSignals(
       pair: record.pair,
       timeframe: record.timeframe,
       source: record.signal_source,
+      strategyVersion: record.strategy_version || undefined,
       status: "completed",
       exitPrice: record.exit_price,
       exitTime: new Date(record.exit_time),
-      exitType: record.exit_type as "tp" | "sl" | "manual",
+      exitType: record.exit_type as SignalExitType,
+      resolutionMethod: record.resolution_method || undefined,
       profitLoss: record.profit_loss,
       profitLossPercent: record.profit_loss_percent,
+      ...mapNetProfitLoss(record, record.entry_time),
+      ...mapExcursion(record),
+      ...mapTargets(record),
       riskRewardRatio: record.risk_reward_ratio,
       notes: record.notes,
     }));
@@ -498,12 +651,24 @@ export async function getCompletedSignals(
 // Calculate signal statistics - UPDATED
 export async function calculateSignalStats(
   filters: { pair?: string; timeframe?: string; signalType?: string; dateFrom?: Date; dateTo?: Date } = {},
+  basis: PnlBasis = "net",
+  riskPercent: number = DEFAULT_RISK_PERCENT,
 ): Promise<SignalStats> {
   // Fetch signals first
   const signals = await getCompletedSignals(1000, 0, filters);
 
+  return summarizeSignalStats(signals, basis, riskPercent);
+}
+
+// Summarize a list of completed signals (from the database or a backtest), net of trading costs by default
+export function summarizeSignalStats(
+  completedSignals: TradingSignal[],
+  basis: PnlBasis = "net",
+  riskPercent: number = DEFAULT_RISK_PERCENT,
+): SignalStats {
   // Default empty stats
   const emptyStats = {
+    ...calculateEquityMetrics([], riskPercent),
     totalSignals: 0,
     winningSignals: 0,
     losingSignals: 0,
@@ -516,21 +681,34 @@ export async function calculateSignalStats(
     largestWin: 0,
     largestLoss: 0,
     averageRRR: 0,
+    takeProfitExits: 0,
+    stopLossExits: 0,
+    trailingStopExits: 0,
+    timeStopExits: 0,
+    expiredSignals: 0,
+    partialTargetExits: 0,
+    partialWins: 0,
   };
 
   // If no signals found, return empty stats
-  if (!signals || signals.length === 0) {
+  if (!completedSignals || completedSignals.length === 0) {
     return emptyStats;
   }
 
+  // Read every filled signal's P/L on the requested basis, expired signals never traded
+  const signals = completedSignals
+    .filter((signal) => signal.exitType !== "expired")
+    .map((signal) => ({ ...signal, ...getSignalPnl(signal, basis) }));
+
   try {
     // Calculate statistics from the signals array
-    const totalSignals = signals.length;
+    const totalSignals = completedSignals.length;
+    const expiredSignals = totalSignals - signals.length;
     const winningSignals = signals.filter((signal) => signal.profitLoss !== undefined && signal.profitLoss > 0).length;
     const losingSignals = signals.filter((signal) => signal.profitLoss !== undefined && signal.profitLoss < 0).length;
 
     // Win rate
-    const winRate = totalSignals > 0 ? (winningSignals / totalSignals) * 100 : 0;
+    const winRate = signals.length > 0 ? (winningSignals / signals.length) * 100 : 0;
 
     // Profit/loss calculations
     const winningTrades = signals.filter((signal) => signal.profitLoss !== undefined && signal.profitLoss > 0);
@@ -568,11 +746,27 @@ export async function calculateSignalStats(
 
     // Average RRR
     const averageRRR =
-      totalSignals > 0
-        ? signals.reduce((sum, signal) => sum + (signal.riskRewardRatio || 0), 0) / totalSignals
+      signals.length > 0
+        ? signals.reduce((sum, signal) => sum + (signal.riskRewardRatio || 0), 0) / signals.length
         : 0;
 
+    // Exit type breakdown
+    const takeProfitExits = signals.filter((signal) => signal.exitType === "tp").length;
+    const stopLossExits = signals.filter((signal) => signal.exitType === "sl").length;
+    const trailingStopExits = signals.filter((signal) => signal.exitType === "trailing_sl").length;
+    const timeStopExits = signals.filter((signal) => signal.exitType === "time_stop").length;
+
+    // Win/loss above follows the blended P/L, so a stop after partial take profits can still be a win
+    const partialTargetExits = signals.filter(
+      (signal) => signal.exitType !== "tp" && (signal.targetFills?.length ?? 0) > 0,
+    );
+    const partialWins = partialTargetExits.filter((signal) => signal.profitLoss !== undefined && signal.profitLoss > 0).length;
+
+    // Equity curve in exit order, on the same P/L basis
+    const equityTrades = getEquityTrades(completedSignals, basis);
+
     return {
+      ...calculateEquityMetrics(equityTrades, riskPercent),
       totalSignals,
       winningSignals,
       losingSignals,
@@ -585,6 +779,13 @@ export async function calculateSignalStats(
       largestWin,
       largestLoss,
       averageRRR,
+      takeProfitExits,
+      stopLossExits,
+      trailingStopExits,
+      timeStopExits,
+      expiredSignals,
+      partialTargetExits: partialTargetExits.length,
+      partialWins,
     };
   } catch (error) {
     console.error("Error calculating signal stats:", error);
@@ -688,7 +889,7 @@ export async function syncCompletedSignals(): Promise<void> {
     // Insert each completed signal into completed_signals table
     for (const signal of completedGeneratedSignals || []) {
       try {
-        const { error: insertError } = await supabase.from("completed_signals").insert({
+        const { error: insertError } = await supabase.from("completed_signals").upsert({
           signal_id: signal.signal_id,
           signal_type: signal.signal_type,
           entry_price: signal.entry_price,
@@ -702,10 +903,24 @@ export async function syncCompletedSignals(): Promise<void> {
           timeframe: signal.timeframe,
           profit_loss: signal.profit_loss || 0,
           profit_loss_percent: signal.profit_loss_percent || 0,
+          net_profit_loss: signal.net_profit_loss ?? null,
+          net_profit_loss_percent: signal.net_profit_loss_percent ?? null,
+          fee_cost: signal.fee_cost ?? null,
+          slippage_cost: signal.slippage_cost ?? null,
+          funding_cost: signal.funding_cost ?? null,
           risk_reward_ratio: signal.risk_reward_ratio,
           signal_source: signal.signal_source,
+          strategy_version: signal.strategy_version || null,
+          resolution_method: signal.resolution_method || null,
+          mae: signal.mae ?? null,
+          mfe: signal.mfe ?? null,
+          mae_r: signal.mae_r ?? null,
+          mfe_r: signal.mfe_r ?? null,
+          current_stop_loss: signal.current_stop_loss ?? null,
+          take_profit_levels: signal.take_profit_levels ?? null,
+          take_profit_fills: signal.take_profit_fills ?? null,
           notes: null,
-        })
+        }, { onConflict: "signal_id", ignoreDuplicates: true })
 
         if (insertError) {
           console.error(`Error inserting completed signal ${signal.signal_id}:`, insertError)
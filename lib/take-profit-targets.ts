@@ -0,0 +1,119 @@
+// Take-profit ladders: several targets per signal, each closing a share of the position
+
+import type { LiquidityLevel } from "./liquidity-levels";
+
+export interface TakeProfitTarget {
+  label: string; // "1R", "2R" or "Liquidity"
+  price: number;
+  weight: number; // Share of the position closed at the target, weights of a ladder sum to 1
+}
+
+/**
+ * A target the position was partially closed at
+ */
+export interface TargetFill {
+  index: number; // Position of the target in the ladder
+  price: number;
+  weight: number;
+  time: number; // ms, open time of the candle that reached the target
+}
+
+/**
+ * A step of a ladder definition: an R multiple of the risk, or the next
+ * opposite liquidity level beyond the previous target
+ */
+export interface TakeProfitStep {
+  target: number | "liquidity";
+  weight: number;
+}
+
+// Below this the position counts as fully closed (float rounding of the weights)
+const CLOSED_SIZE = 1e-6;
+
+// Function to build the targets of a signal, nearest first, normalizing the weights
+export function buildTakeProfitLadder(
+  signalType: "long" | "short",
+  entryPrice: number,
+  stopLoss: number,
+  ladder: TakeProfitStep[],
+  liquidityLevels: LiquidityLevel[],
+  fallbackRatio: number
+): TakeProfitTarget[] {
+  const direction = signalType === "long" ? 1 : -1;
+  const risk = Math.abs(entryPrice - stopLoss);
+  const targets: TakeProfitTarget[] = [];
+  let previous = entryPrice;
+
+  for (const step of ladder) {
+    let label: string;
+    let price: number;
+
+    if (step.target === "liquidity") {
+      // Nearest level on the other side beyond the previous target, or the fallback ratio
+      const beyond = liquidityLevels
+        .filter((level) => (level.price - previous) * direction > 0)
+        .sort((a, b) => (a.price - b.price) * direction);
+      label = "Liquidity";
+      price = beyond.length > 0 ? beyond[0].price : entryPrice + risk * fallbackRatio * direction;
+    } else {
+      label = `${step.target}R`;
+      price = entryPrice + risk * step.target * direction;
+    }
+
+    // Every target must lie beyond the one before it
+    if (step.weight <= 0 || (price - previous) * direction <= 0) continue;
+
+    targets.push({ label, price, weight: step.weight });
+    previous = price;
+  }
+
+  const totalWeight = targets.reduce((sum, target) => sum + target.weight, 0);
+  return targets.map((target) => ({ ...target, weight: target.weight / totalWeight }));
+}
+
+// Function to get the targets a signal is settled against, a single full-size target without a ladder
+export function getSignalTargets(signal: {
+  take_profit: number;
+  take_profit_levels?: TakeProfitTarget[] | null;
+}): TakeProfitTarget[] {
+  if (signal.take_profit_levels && signal.take_profit_levels.length > 0) {
+    return signal.take_profit_levels;
+  }
+  return [{ label: "TP", price: signal.take_profit, weight: 1 }];
+}
+
+// Function to get the reward of a ladder in R multiples, if every target is reached
+export function getLadderRewardRatio(targets: TakeProfitTarget[], entryPrice: number, stopLoss: number): number {
+  const risk = Math.abs(entryPrice - stopLoss);
+  if (risk === 0) return 0;
+  return targets.reduce((sum, target) => sum + (Math.abs(target.price - entryPrice) / risk) * target.weight, 0);
+}
+
+// Function to get the share of the position still open after the fills
+export function getRemainingSize(fills: Pick<TargetFill, "weight">[]): number {
+  const remaining = 1 - fills.reduce((sum, fill) => sum + fill.weight, 0);
+  return remaining > CLOSED_SIZE ? remaining : 0;
+}
+
+// Function to get the average exit of the whole position, the rest closed at remainderPrice
+export function getBlendedExitPrice(fills: Pick<TargetFill, "price" | "weight">[], remainderPrice: number): number {
+  return fills.reduce((sum, fill) => sum + fill.price * fill.weight, 0) + remainderPrice * getRemainingSize(fills);
+}
+
+// Function to parse a ladder from a URL parameter ("31000:0.5,32000:0.25,33500:0.25")
+export function parseTargetLadder(value: string | null): TakeProfitTarget[] {
+  if (!value) return [];
+
+  return value
+    .split(",")
+    .map((step, index) => {
+      const [price, weight] = step.split(":").map(Number);
+      return { label: `TP${index + 1}`, price, weight: weight ?? 1 };
+    })
+    .filter((target) => !isNaN(target.price) && !isNaN(target.weight) && target.weight > 0);
+}
+
+// Function to format a ladder for a URL parameter
+export function formatTargetLadder(targets: Pick<TakeProfitTarget, "price" | "weight">[]): string {
+  return targets.map((target) => `${target.price}:${Number(target.weight.toFixed(4))}`).join(",");
+}
@@ -0,0 +1,126 @@
+// Stop management of active signals: breakeven and trailing stops, evaluated on closed candles
+
+import type { CandleData } from "./binance-api";
+import { calculateLiquidityLevels } from "./liquidity-levels";
+import type { SettlementLevels, SettlementResult, StopAdjustment } from "./signal-settlement";
+
+/**
+ * A rule that moves the stop of an active signal. Stops only ever move in the
+ * trade's favor, and every rule can wait until the trade is `activateR` in profit.
+ */
+export type TradeManagementRule =
+  // Move the stop to entry (plus offsetR) once price has moved triggerR in favor
+  | { type: "breakeven"; triggerR: number; offsetR?: number }
+  // Chandelier stop: the extreme since entry minus multiplier × ATR
+  | { type: "atrTrail"; period: number; multiplier: number; activateR?: number }
+  // Behind the latest confirmed swing low (longs) or high (shorts) from calculateLiquidityLevels
+  | { type: "swingTrail"; swingStrength: number; bufferPercent?: number; activateR?: number };
+
+// Candles of history the rules need before the first candle they evaluate
+export function getManagementLookback(rules: TradeManagementRule[]): number {
+  return rules.reduce((lookback, rule) => {
+    if (rule.type === "atrTrail") return Math.max(lookback, rule.period + 1);
+    if (rule.type === "swingTrail") return Math.max(lookback, rule.swingStrength * 20);
+    return lookback;
+  }, 0);
+}
+
+// Function to calculate the average true range of the last `period` candles
+function calculateAtr(candles: CandleData[], period: number): number | null {
+  if (candles.length < period + 1) return null;
+
+  let sum = 0;
+  for (let i = candles.length - period; i < candles.length; i++) {
+    const previousClose = candles[i - 1].close;
+    sum += Math.max(
+      candles[i].high - candles[i].low,
+      Math.abs(candles[i].high - previousClose),
+      Math.abs(candles[i].low - previousClose)
+    );
+  }
+  return sum / period;
+}
+
+// Function to get the stop a single rule asks for, null when it doesn't apply yet
+function getRuleStop(
+  rule: TradeManagementRule,
+  levels: SettlementLevels,
+  history: CandleData[],
+  result: SettlementResult
+): number | null {
+  const isLong = levels.signal_type === "long";
+  const direction = isLong ? 1 : -1;
+  const risk = Math.abs(levels.entry_price - levels.stop_loss);
+  const favorableR = risk > 0 ? result.maxFavorableExcursion / risk : 0;
+
+  if (rule.type === "breakeven") {
+    if (favorableR < rule.triggerR) return null;
+    return levels.entry_price + (rule.offsetR ?? 0) * risk * direction;
+  }
+
+  if (favorableR < (rule.activateR ?? 0)) return null;
+
+  if (rule.type === "atrTrail") {
+    const atr = calculateAtr(history, rule.period);
+    if (atr === null || result.entryTime === null) return null;
+
+    const sinceEntry = history.filter((candle) => candle.time * 1000 >= (result.entryTime as number));
+    if (sinceEntry.length === 0) return null;
+
+    return isLong
+      ? Math.max(...sinceEntry.map((candle) => candle.high)) - rule.multiplier * atr
+      : Math.min(...sinceEntry.map((candle) => candle.low)) + rule.multiplier * atr;
+  }
+
+  // Swing trail: pivots need swingStrength candles on the right to be confirmed
+  const { bsl, ssl } = calculateLiquidityLevels(history, { swingStrength: rule.swingStrength });
+  const close = history[history.length - 1].close;
+  const swings = (isLong ? ssl : bsl)
+    .filter((level) => (isLong ? level.price < close : level.price > close))
+    .sort((a, b) => b.time - a.time);
+  if (swings.length === 0) return null;
+
+  const buffer = (rule.bufferPercent ?? 0) / 100;
+  return swings[0].price * (1 - buffer * direction);
+}
+
+/**
+ * Create the stop adjustment the settlement calls after every closed candle of
+ * a filled signal. The tightest stop any rule asks for wins; stops that would
+ * loosen the current stop or sit beyond the close are ignored.
+ * @param levels Entry and original stop of the signal
+ * @param rules Management rules of the signal's strategy
+ * @param series Candles of the signal's timeframe, oldest first, including the lookback before the entry
+ */
+export function createStopManager(
+  levels: SettlementLevels,
+  rules: TradeManagementRule[],
+  series: CandleData[]
+): StopAdjustment | undefined {
+  if (rules.length === 0) return undefined;
+
+  const indexByTime = new Map(series.map((candle, index) => [candle.time, index]));
+  const isLong = levels.signal_type === "long";
+
+  return (candle, stopLoss, result) => {
+    const index = indexByTime.get(candle.time);
+    if (index === undefined) return null;
+
+    // Only candles up to the one that just closed
+    const history = series.slice(0, index + 1);
+    let best: { stopLoss: number; rule: TradeManagementRule["type"] } | null = null;
+
+    for (const rule of rules) {
+      const candidate = getRuleStop(rule, levels, history, result);
+      if (candidate === null) continue;
+
+      const tighter = isLong ? candidate > (best?.stopLoss ?? stopLoss) : candidate < (best?.stopLoss ?? stopLoss);
+      const belowPrice = isLong ? candidate < candle.close : candidate > candle.close;
+      if (tighter && belowPrice) {
+        best = { stopLoss: candidate, rule: rule.type };
+      }
+    }
+
+    return best;
+  };
+}
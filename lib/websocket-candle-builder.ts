@@ -17,6 +17,7 @@ export const PAIRS = [
  */
 export function getTimeframeMs(timeframe: string): number {
   switch (timeframe) {
+    case '1m': return 60 * 1000;
     case '5m': return 5 * 60 * 1000;
     case '15m': return 15 * 60 * 1000;
     case '30m': return 30 * 60 * 1000;
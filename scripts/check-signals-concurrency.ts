@@ -0,0 +1,298 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { CandleData } from '@/lib/binance-api';
+import {
+  checkPairSignalsForCron,
+  checkSignal,
+  storeCompletedSignal,
+  type CronSignalCheck,
+  type SignalCheckResult,
+} from '@/lib/signal-checker-service';
+
+/**
+ * Concurrency harness of the signal checker
+ *
+ * This script:
+ * 1. Seeds an in-memory store with an active signal whose take profit was reached
+ * 2. Runs several checkers on it at the same time, alternating the checker
+ *    service (checkSignal) and the check cron (/api/signals/check), next to a
+ *    completed-signals sync
+ * 3. Verifies the signal was settled once: one applied update, one exit event
+ *    and one completed_signals row
+ *
+ * Usage: npm run check:concurrency -- [rounds] [checkers]
+ */
+
+type Row = Record<string, any>;
+type Filter = (row: Row) => boolean;
+
+// Columns every table of the store is unique on, as the migrations index them
+const UNIQUE_COLUMNS: Record<string, string | undefined> = {
+  generated_signals: 'signal_id',
+  completed_signals: 'signal_id',
+};
+
+/**
+ * A statement against the in-memory store. It waits a random delay like a
+ * network round trip and then runs at once, so statements interleave between
+ * checkers but each one is atomic, as in Postgres.
+ */
+class MemoryQuery implements PromiseLike<{ data: any; error: { message: string } | null }> {
+  private operation: 'select' | 'insert' | 'update' | 'upsert' = 'select';
+  private values: Row | Row[] = {};
+  private options: { onConflict?: string; ignoreDuplicates?: boolean } = {};
+  private filters: Filter[] = [];
+  private returning = false;
+  private mode: 'many' | 'single' | 'maybeSingle' = 'many';
+
+  constructor(private tables: Record<string, Row[]>, private table: string) {}
+
+  select(_columns?: string) {
+    if (this.operation !== 'select') this.returning = true;
+    return this;
+  }
+
+  insert(values: Row | Row[]) {
+    this.operation = 'insert';
+    this.values = values;
+    return this;
+  }
+
+  update(values: Row) {
+    this.operation = 'update';
+    this.values = values;
+    return this;
+  }
+
+  upsert(values: Row | Row[], options: { onConflict?: string; ignoreDuplicates?: boolean } = {}) {
+    this.operation = 'upsert';
+    this.values = values;
+    this.options = options;
+    return this;
+  }
+
+  eq(column: string, value: any) {
+    this.filters.push((row) => row[column] === value);
+    return this;
+  }
+
+  in(column: string, values: any[]) {
+    this.filters.push((row) => values.includes(row[column]));
+    return this;
+  }
+
+  order() {
+    return this;
+  }
+
+  limit() {
+    return this;
+  }
+
+  single() {
+    this.mode = 'single';
+    return this;
+  }
+
+  maybeSingle() {
+    this.mode = 'maybeSingle';
+    return this;
+  }
+
+  then<TResult1 = { data: any; error: { message: string } | null }, TResult2 = never>(
+    onfulfilled?: ((value: { data: any; error: { message: string } | null }) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    const delay = Math.random() * 5;
+    return new Promise<{ data: any; error: { message: string } | null }>((resolve) => {
+      setTimeout(() => resolve(this.execute()), delay);
+    }).then(onfulfilled, onrejected);
+  }
+
+  // Function to run the statement against the tables
+  private execute(): { data: any; error: { message: string } | null } {
+    const rows = (this.tables[this.table] = this.tables[this.table] || []);
+    const unique = UNIQUE_COLUMNS[this.table];
+    let result: Row[] = [];
+
+    if (this.operation === 'select') {
+      result = rows.filter((row) => this.filters.every((filter) => filter(row)));
+    } else if (this.operation === 'update') {
+      result = rows.filter((row) => this.filters.every((filter) => filter(row)));
+      result.forEach((row) => Object.assign(row, this.values));
+    } else {
+      for (const value of Array.isArray(this.values) ? this.values : [this.values]) {
+        const existing = unique ? rows.find((row) => row[unique] === value[unique]) : undefined;
+        if (existing && this.operation === 'upsert' && this.options.onConflict === unique) {
+          if (!this.options.ignoreDuplicates) {
+            Object.assign(existing, value);
+            result.push(existing);
+          }
+          continue;
+        }
+        if (existing) {
+          return { data: null, error: { message: `duplicate key value violates unique constraint on ${this.table}.${unique}` } };
+        }
+        const row = { id: rows.length + 1, ...value };
+        rows.push(row);
+        result.push(row);
+      }
+    }
+
+    const data = result.map((row) => ({ ...row }));
+    if (this.mode === 'many') {
+      return { data: this.operation === 'select' || this.returning ? data : null, error: null };
+    }
+    if (data.length !== 1 && (this.mode === 'single' || data.length > 1)) {
+      return { data: null, error: { message: `Expected a single row, got ${data.length}` } };
+    }
+    return { data: data[0] ?? null, error: null };
+  }
+}
+
+// Function to create a Supabase-like client over in-memory tables
+function createMemoryClient(tables: Record<string, Row[]>): SupabaseClient {
+  return { from: (table: string) => new MemoryQuery(tables, table) } as unknown as SupabaseClient;
+}
+
+// Function to build an active long signal and hourly candles that reach its take profit
+function createScenario(round: number) {
+  const hourMs = 60 * 60 * 1000;
+  const createdAt = Math.floor(Date.now() / hourMs) * hourMs - 10 * hourMs;
+  const signal = {
+    signal_id: `concurrency-${round}`,
+    pair: 'BTCUSDT',
+    timeframe: '1h',
+    signal_type: 'long',
+    signal_source: 'fibonacci',
+    entry_price: 100,
+    stop_loss: 95,
+    take_profit: 110,
+    status: 'active',
+    entry_hit: true,
+    entry_hit_time: new Date(createdAt + hourMs).toISOString(),
+    created_at: new Date(createdAt).toISOString(),
+    version: 0,
+  };
+
+  const prices = [
+    [100, 102, 99, 101],
+    [101, 104, 100, 103],
+    [103, 111, 102, 109],
+  ];
+  const candles: CandleData[] = prices.map(([open, high, low, close], index) => ({
+    time: (createdAt + (index + 1) * hourMs) / 1000,
+    open,
+    high,
+    low,
+    close,
+    volume: 1,
+  }));
+
+  return { signal, candles, now: createdAt + 4 * hourMs, currentPrice: 109 };
+}
+
+// Function to run one round of parallel checkers and collect what went wrong
+async function runRound(round: number, checkers: number): Promise<string[]> {
+  const { signal, candles, now, currentPrice } = createScenario(round);
+  const tables: Record<string, Row[]> = {
+    generated_signals: [{ ...signal }],
+    completed_signals: [],
+    signal_events: [],
+  };
+  const client = createMemoryClient(tables);
+
+  const checks: Promise<SignalCheckResult | void>[] = [];
+  const cronRuns: PromiseLike<CronSignalCheck[]>[] = [];
+  for (let i = 0; i < checkers; i++) {
+    if (i % 2 === 0) {
+      checks.push(checkSignal(signal.signal_id, 'pessimistic', { client, currentPrice, candles, now }));
+    } else {
+      // The cron reads the open signals of the pair, then settles them on the candles it loaded
+      cronRuns.push(
+        client
+          .from('generated_signals')
+          .select('*')
+          .in('status', ['waiting', 'active'])
+          .then(({ data }) => checkPairSignalsForCron(data || [], currentPrice, {
+            candlesByTimeframe: { [signal.timeframe]: candles },
+            policy: 'pessimistic',
+            client,
+            now,
+          }))
+      );
+    }
+  }
+  // The completed-signals sync can race the checkers as well
+  checks.push(
+    storeCompletedSignal({ ...signal, status: 'completed', exit_price: 110, exit_type: 'tp' }, {
+      id: signal.signal_id,
+      exitType: 'tp',
+      exitPrice: 110,
+    } as SignalCheckResult, client)
+  );
+  const [checkResults, cronResults] = await Promise.all([Promise.all(checks), Promise.all(cronRuns)]);
+  const results = checkResults.filter(Boolean) as SignalCheckResult[];
+
+  const failures: string[] = [];
+  const applied = results.filter((result) => result.updatedInDb && result.completed);
+  const cronApplied = cronResults.flat().filter((check) => check.write === 'updated' && check.outcome === 'completed');
+  const exitEvents = tables.signal_events.filter((event) => event.event_type === 'take_profit');
+  const stored = tables.completed_signals.filter((row) => row.signal_id === signal.signal_id);
+  const settled = tables.generated_signals[0];
+
+  if (applied.length + cronApplied.length !== 1) {
+    failures.push(`${applied.length} checkers and ${cronApplied.length} cron runs settled the signal`);
+  }
+  if (exitEvents.length !== 1) failures.push(`${exitEvents.length} exit events recorded`);
+  if (stored.length !== 1) failures.push(`${stored.length} completed_signals rows stored`);
+  if (settled.status !== 'completed' || settled.exit_type !== 'tp') {
+    failures.push(`signal left as ${settled.status} (${settled.exit_type})`);
+  }
+
+  // A late retry of the store leaves the row as it is
+  await storeCompletedSignal({ ...settled }, {
+    id: settled.signal_id,
+    exitType: settled.exit_type,
+    exitPrice: settled.exit_price,
+  } as SignalCheckResult, client);
+  if (tables.completed_signals.length !== 1) failures.push('retried store duplicated the completed signal');
+
+  return failures;
+}
+
+async function main() {
+  const rounds = Number(process.argv[2]) || 20;
+  const checkers = Number(process.argv[3]) || 10;
+
+  console.log('=== Signal Checker Concurrency ===');
+  console.log(`Rounds: ${rounds}, checkers per round: ${checkers}`);
+  console.log('==================================');
+
+  // The checker logs every step, keep only the summary
+  const log = console.log;
+  let failed = 0;
+
+  for (let round = 1; round <= rounds; round++) {
+    console.log = () => {};
+    const failures = await runRound(round, checkers);
+    console.log = log;
+
+    if (failures.length > 0) {
+      failed++;
+      console.error(`✗ Round ${round}: ${failures.join(', ')}`);
+    } else {
+      console.log(`✓ Round ${round}: settled once`);
+    }
+  }
+
+  if (failed > 0) {
+    console.error(`\n${failed} of ${rounds} rounds settled a signal more than once`);
+    process.exit(1);
+  }
+  console.log(`\nAll ${rounds} rounds settled the signal exactly once`);
+}
+
+main().catch(error => {
+  console.error('Concurrency check failed:', error);
+  process.exit(1);
+});
@@ -1,4 +1,5 @@
 import { initializeHistoricalData } from '@/lib/candle-store';
+import { SEASONALITY_TIMEFRAME } from '@/lib/asset-seasonality';
 import { CandleBuilder, PAIRS, TIMEFRAMES } from '@/lib/websocket-candle-builder';
 
 /**
@@ -20,7 +21,8 @@ async function initialize() {
     for (const pair of PAIRS) {
       console.log(`\nInitializing historical data for ${pair}...`);
       try {
-        await initializeHistoricalData(pair, TIMEFRAMES);
+        // Daily candles feed the per-pair seasonality
+        await initializeHistoricalData(pair, [...TIMEFRAMES, SEASONALITY_TIMEFRAME]);
         console.log(`✓ Successfully initialized historical data for ${pair}`);
       } catch (error) {
         console.error(`✗ Error initializing historical data for ${pair}:`, error);
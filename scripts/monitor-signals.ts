@@ -0,0 +1,55 @@
+import { createWriteStream, type WriteStream } from 'fs';
+import NodeWebSocket from 'ws';
+import { SignalMonitor } from '@/lib/signal-monitor';
+
+/**
+ * Real-time signal monitor
+ *
+ * This script:
+ * 1. Loads the waiting and active signals and opens the kline streams of their pairs
+ * 2. Settles entries, take profits and stops as the updates arrive
+ * 3. Appends every update to SIGNAL_MONITOR_TICK_LOG (NDJSON) when set, so the
+ *    decisions can be replayed with scripts/replay-signal-ticks.ts
+ *
+ * Keep the /api/signals/check cron running, it reconciles whatever the stream missed.
+ * Uses the built-in WebSocket of Node.js 22+, and the ws package before that.
+ */
+async function monitor() {
+  console.log('=== Signal Monitor ===');
+
+  if (typeof WebSocket === 'undefined') {
+    globalThis.WebSocket = NodeWebSocket as unknown as typeof WebSocket;
+  }
+
+  let tickLog: WriteStream | null = null;
+  if (process.env.SIGNAL_MONITOR_TICK_LOG) {
+    tickLog = createWriteStream(process.env.SIGNAL_MONITOR_TICK_LOG, { flags: 'a' });
+    console.log(`Recording ticks to ${process.env.SIGNAL_MONITOR_TICK_LOG}`);
+  }
+
+  const signalMonitor = new SignalMonitor({
+    onTick: (tick) => tickLog?.write(`${JSON.stringify(tick)}\n`),
+  });
+  await signalMonitor.start();
+
+  console.log('Press Ctrl+C to stop');
+
+  // Handle graceful shutdown
+  const shutdown = () => {
+    console.log('\nShutting down...');
+    signalMonitor.stop();
+    if (tickLog) {
+      tickLog.end(() => process.exit(0));
+    } else {
+      process.exit(0);
+    }
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+// Run the monitor
+monitor().catch(error => {
+  console.error('Failed to start signal monitor:', error);
+  process.exit(1);
+});
@@ -0,0 +1,76 @@
+import { readFileSync } from 'fs';
+import { supabase } from '@/lib/supabase-client';
+import { getSignalEvents } from '@/lib/signal-events';
+import { replayTicks, type MonitorTick } from '@/lib/signal-monitor';
+
+/**
+ * Replay the monitor's decisions on a signal from a recorded tick log
+ *
+ * This script:
+ * 1. Loads the signal and resets it to its setup, waiting for the entry
+ * 2. Replays the ticks of its pair from the log (NDJSON written by scripts/monitor-signals.ts),
+ *    taking stops, fills and closes of the reconciliation pass from the row states on the ticks
+ * 3. Prints the replayed decisions next to the events the monitor recorded
+ *
+ * Usage: npx tsx scripts/replay-signal-ticks.ts <signal_id> <tick_log>
+ */
+async function replay() {
+  const [signalId, logPath] = process.argv.slice(2);
+  if (!signalId || !logPath) {
+    console.error('Usage: replay-signal-ticks.ts <signal_id> <tick_log>');
+    process.exit(1);
+  }
+  if (!supabase) {
+    console.error('Supabase client not available');
+    process.exit(1);
+  }
+
+  const { data: signal, error } = await supabase
+    .from('generated_signals')
+    .select('*')
+    .eq('signal_id', signalId)
+    .single();
+
+  if (error || !signal) {
+    console.error(`Signal ${signalId} not found:`, error);
+    process.exit(1);
+  }
+
+  const ticks: MonitorTick[] = readFileSync(logPath, 'utf8')
+    .split('\n')
+    .filter((line) => line.trim() !== '')
+    .map((line) => JSON.parse(line));
+
+  // The signal as it was created, the row states recorded with the ticks take over from there
+  const setup = {
+    ...signal,
+    status: 'waiting',
+    entry_hit: false,
+    entry_hit_time: null,
+    take_profit_fills: [],
+    current_stop_loss: null,
+    mae: null,
+    mfe: null,
+  };
+  const { decisions } = replayTicks(setup, ticks);
+
+  console.log(`=== Replayed ${decisions.length} decisions on ${ticks.length} ticks ===`);
+  for (const decision of decisions) {
+    console.log(
+      `${new Date(decision.tick.time).toISOString()} @ ${decision.tick.candle.close}:`,
+      JSON.stringify(decision.updates)
+    );
+  }
+
+  const events = (await getSignalEvents(signalId)).filter((event) => event.source === 'monitor');
+  console.log(`\n=== ${events.length} events recorded by the monitor ===`);
+  for (const event of events) {
+    console.log(`${event.occurred_at} ${event.event_type} (${event.from_status} → ${event.to_status}) @ ${event.trigger_price}`);
+  }
+}
+
+// Run the replay
+replay().catch(error => {
+  console.error('Replay failed:', error);
+  process.exit(1);
+});
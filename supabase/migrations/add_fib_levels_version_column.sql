@@ -0,0 +1,37 @@
+-- Convention of the retracement levels in fib_levels:
+--   1: 0% at the major level, 100% at the peak (strategy 1.0.0)
+--   2: 0% at the peak, 100% at the major level (strategy 1.1.0 and later)
+-- Version 1 rows are rewritten to version 2 once, their prices stay the same and only the levels flip.
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'generated_signals' AND column_name = 'fib_levels_version'
+  ) THEN
+    ALTER TABLE public.generated_signals ADD COLUMN fib_levels_version SMALLINT;
+  END IF;
+END $$;
+
+-- The generator stored fib_levels as a JSON string, unwrap it into an array first
+WITH old_levels AS (
+  SELECT
+    id,
+    CASE WHEN jsonb_typeof(fib_levels) = 'string' THEN (fib_levels #>> '{}')::jsonb ELSE fib_levels END AS levels
+  FROM public.generated_signals
+  WHERE fib_levels_version IS NULL AND strategy_version = '1.0.0' AND fib_levels IS NOT NULL
+)
+UPDATE public.generated_signals AS signals
+SET fib_levels = (
+  SELECT COALESCE(
+    jsonb_agg(jsonb_set(level, '{level}', to_jsonb(100 - (level ->> 'level')::numeric)) ORDER BY position DESC),
+    '[]'::jsonb
+  )
+  FROM jsonb_array_elements(old_levels.levels) WITH ORDINALITY AS element(level, position)
+)
+FROM old_levels
+WHERE signals.id = old_levels.id AND jsonb_typeof(old_levels.levels) = 'array';
+
+-- Every other row already uses the current convention, as do new ones
+UPDATE public.generated_signals SET fib_levels_version = 2 WHERE fib_levels_version IS NULL;
+
+ALTER TABLE public.generated_signals ALTER COLUMN fib_levels_version SET DEFAULT 2;
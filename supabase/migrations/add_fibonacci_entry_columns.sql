@@ -0,0 +1,10 @@
+-- Record where on the Fibonacci retracement each signal's entry was placed
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'generated_signals' AND column_name = 'entry_retracement'
+  ) THEN
+    ALTER TABLE public.generated_signals ADD COLUMN entry_retracement DECIMAL(6, 2);
+  END IF;
+END $$;
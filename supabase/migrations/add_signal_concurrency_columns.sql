@@ -0,0 +1,165 @@
+-- Concurrency-safe checking: overlapping cron runs, the stream monitor and the fix route write
+-- generated_signals with optimistic versioning, and a signal is stored in completed_signals once
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'generated_signals' AND column_name = 'version'
+  ) THEN
+    ALTER TABLE public.generated_signals ADD COLUMN version INTEGER NOT NULL DEFAULT 0;
+  END IF;
+END $$;
+
+-- Drop the duplicates racing checkers already stored, keeping the first row of every signal
+DELETE FROM public.completed_signals duplicate
+USING public.completed_signals original
+WHERE duplicate.signal_id = original.signal_id
+  AND duplicate.id > original.id;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_completed_signals_signal_id ON public.completed_signals(signal_id);
+
+COMMENT ON COLUMN public.generated_signals.version IS 'Bumped by every checker, monitor and fix route change (moving last_checked_at alone keeps it), updates only apply to the version they read';
+
+-- Sync completed signals with the same columns the checkers store, without failing on the ones they already stored
+CREATE OR REPLACE FUNCTION sync_completed_signals()
+RETURNS json
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  sync_count INTEGER := 0;
+  error_count INTEGER := 0;
+  success BOOLEAN := true;
+  error_message TEXT := null;
+  signal RECORD;
+BEGIN
+  -- Ensure the table exists
+  BEGIN
+    PERFORM create_completed_signals_table();
+  EXCEPTION WHEN OTHERS THEN
+    RETURN json_build_object(
+      'success', false,
+      'message', 'Error creating completed_signals table: ' || SQLERRM
+    );
+  END;
+  
+  -- Add synced_to_completed column to generated_signals if it doesn't exist
+  BEGIN
+    IF NOT EXISTS (
+      SELECT FROM information_schema.columns 
+      WHERE table_schema = 'public' 
+      AND table_name = 'generated_signals' 
+      AND column_name = 'synced_to_completed'
+    ) THEN
+      ALTER TABLE public.generated_signals ADD COLUMN synced_to_completed BOOLEAN DEFAULT false;
+      RAISE NOTICE 'Added synced_to_completed column to generated_signals table';
+    END IF;
+  EXCEPTION WHEN OTHERS THEN
+    RETURN json_build_object(
+      'success', false,
+      'message', 'Error adding synced_to_completed column: ' || SQLERRM
+    );
+  END;
+  
+  -- Loop through each completed signal that hasn't been synced
+  BEGIN
+    FOR signal IN 
+      SELECT * FROM generated_signals 
+      WHERE status IN ('completed', 'expired') 
+      AND (synced_to_completed IS NULL OR synced_to_completed = false)
+    LOOP
+      BEGIN
+        -- Insert into completed_signals
+        INSERT INTO completed_signals (
+          signal_id,
+          signal_type,
+          entry_price,
+          stop_loss,
+          take_profit,
+          exit_price,
+          exit_type,
+          entry_time,
+          exit_time,
+          pair,
+          timeframe,
+          profit_loss,
+          profit_loss_percent,
+          risk_reward_ratio,
+          signal_source,
+          notes,
+          take_profit_levels,
+          take_profit_fills,
+          net_profit_loss,
+          net_profit_loss_percent,
+          fee_cost,
+          slippage_cost,
+          funding_cost,
+          strategy_version,
+          resolution_method,
+          current_stop_loss,
+          mae,
+          mfe,
+          mae_r,
+          mfe_r
+        ) VALUES (
+          signal.signal_id,
+          signal.signal_type,
+          signal.entry_price,
+          signal.stop_loss,
+          signal.take_profit,
+          COALESCE(signal.exit_price, signal.entry_price), -- Use entry price if exit price is null
+          COALESCE(signal.exit_type, 'manual'),
+          COALESCE(signal.entry_hit_time, signal.created_at, NOW()),
+          COALESCE(signal.exit_time, signal.updated_at, NOW()),
+          signal.pair,
+          signal.timeframe,
+          COALESCE(signal.profit_loss, 0),
+          COALESCE(signal.profit_loss_percent, 0),
+          COALESCE(signal.risk_reward_ratio, 0),
+          COALESCE(signal.signal_source, 'unknown'),
+          NULL,
+          signal.take_profit_levels,
+          signal.take_profit_fills,
+          signal.net_profit_loss,
+          signal.net_profit_loss_percent,
+          signal.fee_cost,
+          signal.slippage_cost,
+          signal.funding_cost,
+          signal.strategy_version,
+          signal.resolution_method,
+          signal.current_stop_loss,
+          signal.mae,
+          signal.mfe,
+          signal.mae_r,
+          signal.mfe_r
+        )
+        ON CONFLICT (signal_id) DO NOTHING; -- Already stored by a checker
+        
+        -- Mark as synced
+        UPDATE generated_signals 
+        SET synced_to_completed = true 
+        WHERE signal_id = signal.signal_id;
+        
+        sync_count := sync_count + 1;
+      EXCEPTION WHEN OTHERS THEN
+        -- Log error but continue with other signals
+        RAISE NOTICE 'Error syncing signal %: %', signal.signal_id, SQLERRM;
+        error_count := error_count + 1;
+      END;
+    END LOOP;
+  EXCEPTION WHEN OTHERS THEN
+    success := false;
+    error_message := SQLERRM;
+  END;
+  
+  -- Return results
+  RETURN json_build_object(
+    'success', success,
+    'synced_count', sync_count,
+    'error_count', error_count,
+    'message', CASE 
+      WHEN success THEN 'Successfully synced ' || sync_count || ' signals with ' || error_count || ' errors'
+      ELSE 'Error during sync: ' || error_message
+    END
+  );
+END;
+$$;
@@ -0,0 +1,10 @@
+-- Higher-timeframe confluence breakdown of each generated signal
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'generated_signals' AND column_name = 'confluence'
+  ) THEN
+    ALTER TABLE public.generated_signals ADD COLUMN confluence JSONB;
+  END IF;
+END $$;
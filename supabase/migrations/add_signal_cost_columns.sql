@@ -0,0 +1,73 @@
+-- Net P/L after fees, stop slippage and funding; profit_loss and profit_loss_percent stay the gross figures
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'generated_signals' AND column_name = 'net_profit_loss'
+  ) THEN
+    ALTER TABLE public.generated_signals ADD COLUMN net_profit_loss DECIMAL(18, 8);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'generated_signals' AND column_name = 'net_profit_loss_percent'
+  ) THEN
+    ALTER TABLE public.generated_signals ADD COLUMN net_profit_loss_percent DECIMAL(10, 2);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'generated_signals' AND column_name = 'fee_cost'
+  ) THEN
+    ALTER TABLE public.generated_signals ADD COLUMN fee_cost DECIMAL(18, 8);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'generated_signals' AND column_name = 'slippage_cost'
+  ) THEN
+    ALTER TABLE public.generated_signals ADD COLUMN slippage_cost DECIMAL(18, 8);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'generated_signals' AND column_name = 'funding_cost'
+  ) THEN
+    ALTER TABLE public.generated_signals ADD COLUMN funding_cost DECIMAL(18, 8);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'completed_signals' AND column_name = 'net_profit_loss'
+  ) THEN
+    ALTER TABLE public.completed_signals ADD COLUMN net_profit_loss DECIMAL(18, 8);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'completed_signals' AND column_name = 'net_profit_loss_percent'
+  ) THEN
+    ALTER TABLE public.completed_signals ADD COLUMN net_profit_loss_percent DECIMAL(10, 2);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'completed_signals' AND column_name = 'fee_cost'
+  ) THEN
+    ALTER TABLE public.completed_signals ADD COLUMN fee_cost DECIMAL(18, 8);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'completed_signals' AND column_name = 'slippage_cost'
+  ) THEN
+    ALTER TABLE public.completed_signals ADD COLUMN slippage_cost DECIMAL(18, 8);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'completed_signals' AND column_name = 'funding_cost'
+  ) THEN
+    ALTER TABLE public.completed_signals ADD COLUMN funding_cost DECIMAL(18, 8);
+  END IF;
+END $$;
@@ -0,0 +1,59 @@
+-- Maximum adverse/favorable excursion between entry and exit, as a price distance and in R multiples
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'generated_signals' AND column_name = 'mae'
+  ) THEN
+    ALTER TABLE public.generated_signals ADD COLUMN mae DECIMAL(18, 8);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'generated_signals' AND column_name = 'mfe'
+  ) THEN
+    ALTER TABLE public.generated_signals ADD COLUMN mfe DECIMAL(18, 8);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'generated_signals' AND column_name = 'mae_r'
+  ) THEN
+    ALTER TABLE public.generated_signals ADD COLUMN mae_r DECIMAL(10, 4);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'generated_signals' AND column_name = 'mfe_r'
+  ) THEN
+    ALTER TABLE public.generated_signals ADD COLUMN mfe_r DECIMAL(10, 4);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'completed_signals' AND column_name = 'mae'
+  ) THEN
+    ALTER TABLE public.completed_signals ADD COLUMN mae DECIMAL(18, 8);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'completed_signals' AND column_name = 'mfe'
+  ) THEN
+    ALTER TABLE public.completed_signals ADD COLUMN mfe DECIMAL(18, 8);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'completed_signals' AND column_name = 'mae_r'
+  ) THEN
+    ALTER TABLE public.completed_signals ADD COLUMN mae_r DECIMAL(10, 4);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'completed_signals' AND column_name = 'mfe_r'
+  ) THEN
+    ALTER TABLE public.completed_signals ADD COLUMN mfe_r DECIMAL(10, 4);
+  END IF;
+END $$;
@@ -0,0 +1,37 @@
+-- Deterministic signal identity: signal_id is a UUID v5 of strategy, pair, timeframe, direction and the
+-- time of the major level, so reruns update the waiting signal instead of inserting a duplicate.
+-- A newer setup supersedes the waiting one it replaces, both sides of the link are stored.
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'generated_signals' AND column_name = 'major_level_time'
+  ) THEN
+    ALTER TABLE public.generated_signals ADD COLUMN major_level_time TIMESTAMP WITH TIME ZONE;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'generated_signals' AND column_name = 'supersedes'
+  ) THEN
+    ALTER TABLE public.generated_signals ADD COLUMN supersedes UUID;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'generated_signals' AND column_name = 'superseded_by'
+  ) THEN
+    ALTER TABLE public.generated_signals ADD COLUMN superseded_by UUID;
+  END IF;
+END $$;
+
+-- One row per setup
+CREATE UNIQUE INDEX IF NOT EXISTS idx_generated_signals_signal_id ON public.generated_signals(signal_id);
+CREATE INDEX IF NOT EXISTS idx_generated_signals_waiting_setup
+  ON public.generated_signals(pair, timeframe, signal_source)
+  WHERE status = 'waiting';
+
+COMMENT ON COLUMN public.generated_signals.status IS 'waiting, active, completed, expired, invalidated or superseded';
+COMMENT ON COLUMN public.generated_signals.major_level_time IS 'Open time of the candle the major level formed on';
+COMMENT ON COLUMN public.generated_signals.supersedes IS 'Waiting signal this setup replaced';
+COMMENT ON COLUMN public.generated_signals.superseded_by IS 'Newer setup that replaced this waiting signal';
@@ -0,0 +1,22 @@
+-- Invalidation of waiting signals whose structure broke before the entry filled:
+-- status 'invalidated' with the reason and the close of the candle that broke it
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'generated_signals' AND column_name = 'invalidation_reason'
+  ) THEN
+    ALTER TABLE public.generated_signals ADD COLUMN invalidation_reason VARCHAR(30);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'generated_signals' AND column_name = 'invalidated_at'
+  ) THEN
+    ALTER TABLE public.generated_signals ADD COLUMN invalidated_at TIMESTAMP WITH TIME ZONE;
+  END IF;
+END $$;
+
+COMMENT ON COLUMN public.generated_signals.status IS 'waiting, active, completed, expired or invalidated';
+COMMENT ON COLUMN public.generated_signals.invalidation_reason IS 'major_level_broken (body through the major level) or opposite_major_level (lower high / higher low formed)';
+COMMENT ON COLUMN public.generated_signals.invalidated_at IS 'Close of the candle that broke the structure';
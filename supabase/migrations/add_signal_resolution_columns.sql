@@ -0,0 +1,24 @@
+-- How each signal's entry and exit were resolved, and when it was last checked
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'generated_signals' AND column_name = 'resolution_method'
+  ) THEN
+    ALTER TABLE public.generated_signals ADD COLUMN resolution_method VARCHAR(20);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'generated_signals' AND column_name = 'last_checked_at'
+  ) THEN
+    ALTER TABLE public.generated_signals ADD COLUMN last_checked_at TIMESTAMP WITH TIME ZONE;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'completed_signals' AND column_name = 'resolution_method'
+  ) THEN
+    ALTER TABLE public.completed_signals ADD COLUMN resolution_method VARCHAR(20);
+  END IF;
+END $$;
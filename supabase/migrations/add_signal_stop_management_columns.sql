@@ -0,0 +1,32 @@
+-- Breakeven and trailing stop management: the stop currently in force next to the original stop_loss,
+-- the rule that last moved it, and room in exit_type for 'trailing_sl'
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'generated_signals' AND column_name = 'current_stop_loss'
+  ) THEN
+    ALTER TABLE public.generated_signals ADD COLUMN current_stop_loss DECIMAL(18, 8);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'generated_signals' AND column_name = 'stop_rule'
+  ) THEN
+    ALTER TABLE public.generated_signals ADD COLUMN stop_rule VARCHAR(20);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'completed_signals' AND column_name = 'current_stop_loss'
+  ) THEN
+    ALTER TABLE public.completed_signals ADD COLUMN current_stop_loss DECIMAL(18, 8);
+  END IF;
+END $$;
+
+ALTER TABLE public.generated_signals ALTER COLUMN exit_type TYPE VARCHAR(20);
+ALTER TABLE public.completed_signals ALTER COLUMN exit_type TYPE VARCHAR(20);
+
+COMMENT ON COLUMN public.generated_signals.current_stop_loss IS 'Stop in force after breakeven/trailing moves, NULL while it is still stop_loss';
+COMMENT ON COLUMN public.generated_signals.exit_type IS 'tp, sl, trailing_sl (stop hit after it was moved), manual or expired';
+COMMENT ON COLUMN public.completed_signals.exit_type IS 'tp, sl, trailing_sl (stop hit after it was moved) or manual';
@@ -0,0 +1,27 @@
+-- Track which strategy (and version) produced each signal
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns 
+    WHERE table_schema = 'public' AND table_name = 'generated_signals' AND column_name = 'strategy_version'
+  ) THEN
+    ALTER TABLE public.generated_signals ADD COLUMN strategy_version VARCHAR(20);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns 
+    WHERE table_schema = 'public' AND table_name = 'completed_signals' AND column_name = 'strategy_version'
+  ) THEN
+    ALTER TABLE public.completed_signals ADD COLUMN strategy_version VARCHAR(20);
+  END IF;
+END $$;
+
+-- Existing signals were all produced by the original liquidity level / Fibonacci logic
+UPDATE public.generated_signals SET strategy_version = '1.0.0'
+WHERE strategy_version IS NULL AND signal_source = 'fibonacci';
+
+UPDATE public.completed_signals SET strategy_version = '1.0.0'
+WHERE strategy_version IS NULL AND signal_source = 'fibonacci';
+
+CREATE INDEX IF NOT EXISTS idx_generated_signals_signal_source ON public.generated_signals(signal_source);
+CREATE INDEX IF NOT EXISTS idx_completed_signals_signal_source ON public.completed_signals(signal_source);
@@ -0,0 +1,34 @@
+-- Take-profit ladders: the targets of a signal ([{ label, price, weight }], take_profit holds the last one)
+-- and the targets the position was partially closed at ([{ index, price, weight, time }])
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'generated_signals' AND column_name = 'take_profit_levels'
+  ) THEN
+    ALTER TABLE public.generated_signals ADD COLUMN take_profit_levels JSONB;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'generated_signals' AND column_name = 'take_profit_fills'
+  ) THEN
+    ALTER TABLE public.generated_signals ADD COLUMN take_profit_fills JSONB;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'completed_signals' AND column_name = 'take_profit_levels'
+  ) THEN
+    ALTER TABLE public.completed_signals ADD COLUMN take_profit_levels JSONB;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'completed_signals' AND column_name = 'take_profit_fills'
+  ) THEN
+    ALTER TABLE public.completed_signals ADD COLUMN take_profit_fills JSONB;
+  END IF;
+END $$;
+
+COMMENT ON COLUMN public.completed_signals.exit_price IS 'Average exit of the whole position, blended over partial take profits';
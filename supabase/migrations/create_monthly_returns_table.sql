@@ -0,0 +1,26 @@
+-- supabase/migrations/create_monthly_returns_table.sql
+
+-- Monthly returns per pair, maintained by the seasonality refresh job
+CREATE TABLE IF NOT EXISTS public.monthly_returns (
+  id SERIAL PRIMARY KEY,
+  pair VARCHAR(20) NOT NULL,
+  year INTEGER NOT NULL,
+  month INTEGER NOT NULL CHECK (month BETWEEN 0 AND 11),
+  open_price DECIMAL(18, 8),
+  close_price DECIMAL(18, 8),
+  return_percent DECIMAL(10, 2) NOT NULL,
+  is_complete BOOLEAN NOT NULL DEFAULT FALSE,
+  source VARCHAR(10) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- One row per pair and calendar month
+CREATE UNIQUE INDEX IF NOT EXISTS idx_monthly_returns_unique ON public.monthly_returns(pair, year, month);
+CREATE INDEX IF NOT EXISTS idx_monthly_returns_pair_complete ON public.monthly_returns(pair, is_complete);
+
+-- Add database comments
+COMMENT ON TABLE public.monthly_returns IS 'Monthly open-to-close returns per trading pair used for seasonality';
+COMMENT ON COLUMN public.monthly_returns.month IS 'Calendar month (0 = January, 11 = December)';
+COMMENT ON COLUMN public.monthly_returns.return_percent IS 'Return from the first open to the last close of the month in percent';
+COMMENT ON COLUMN public.monthly_returns.is_complete IS 'False while the month is still in progress';
+COMMENT ON COLUMN public.monthly_returns.source IS 'Where the return came from: 1M or 1d candles, or seed for the bundled BTC history';
@@ -0,0 +1,25 @@
+-- supabase/migrations/create_signal_events_table.sql
+
+-- Lifecycle events of generated signals, one row per state change
+CREATE TABLE IF NOT EXISTS public.signal_events (
+  id SERIAL PRIMARY KEY,
+  signal_id VARCHAR(255) NOT NULL,
+  event_type VARCHAR(20) NOT NULL,
+  from_status VARCHAR(20),
+  to_status VARCHAR(20),
+  trigger_price DECIMAL(18, 8),
+  source VARCHAR(20) NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  occurred_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_signal_events_signal ON public.signal_events(signal_id, occurred_at);
+CREATE INDEX IF NOT EXISTS idx_signal_events_type ON public.signal_events(event_type);
+
+-- Add database comments
+COMMENT ON TABLE public.signal_events IS 'State changes of generated signals with the price and source that caused them';
+COMMENT ON COLUMN public.signal_events.event_type IS 'created, entry_hit, partial_take_profit, take_profit, stop_loss, trailing_stop, stop_moved, time_stop, expired, invalidated, superseded, manual_close or updated';
+COMMENT ON COLUMN public.signal_events.source IS 'generator, checker, monitor, cron, manual or fix';
+COMMENT ON COLUMN public.signal_events.trigger_price IS 'Price that triggered the transition (entry, exit or the price seen by the checker)';
+COMMENT ON COLUMN public.signal_events.occurred_at IS 'Market time of the transition, created_at is when it was recorded';